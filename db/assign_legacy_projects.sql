@@ -0,0 +1,38 @@
+-- Assign projects created before organizations (no org_id, no owner_id) to a team.
+-- Run with the service role (SQL editor or psql with the service key), one team at a time, once
+-- you know which projects are theirs; nothing in the database records who created them.
+--
+--   psql "$DATABASE_URL" -v org_id=<organization uuid> -v owner_id=<user uuid> \
+--     -v project_ids='{<project uuid>,<project uuid>}' -f db/assign_legacy_projects.sql
+--
+-- List the candidates first with:
+--   SELECT id, project_name, address, created_at FROM public.projects
+--   WHERE org_id IS NULL AND owner_id IS NULL ORDER BY created_at;
+
+BEGIN;
+
+-- psql variables aren't expanded inside the DO block, so pass them through transaction settings
+SELECT set_config('assign.org_id', :'org_id', true),
+       set_config('assign.owner_id', :'owner_id', true),
+       set_config('assign.project_ids', :'project_ids', true);
+
+-- The new owner must already belong to the organization
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE org_id = current_setting('assign.org_id')::UUID AND user_id = current_setting('assign.owner_id')::UUID
+  ) THEN
+    RAISE EXCEPTION 'The owner is not a member of the organization';
+  END IF;
+END;
+$$;
+
+UPDATE public.projects
+SET org_id = current_setting('assign.org_id')::UUID,
+    owner_id = current_setting('assign.owner_id')::UUID
+WHERE id = ANY (current_setting('assign.project_ids')::UUID[])
+  AND org_id IS NULL
+  AND owner_id IS NULL;
+
+COMMIT;
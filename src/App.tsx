@@ -1,67 +1,80 @@
 import { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
 import Header from './components/Header';
 import ModulesPage from './components/ModulesPage';
 import InvertersPage from './components/InvertersPage';
 import DashboardHome from './components/DashboardHome';
 import ProjectOnboarding from './components/ProjectOnboarding';
 import ProjectPage from './components/ProjectPage';
+import AuthPage from './components/AuthPage';
+import SharedProjectPage from './components/SharedProjectPage';
 import { ProjectData } from './types/project';
-import { supabase } from './integrations/supabase/client';
+import { deleteProject, fetchProjects, fetchSharedProjects, insertProject, updateProject } from './integrations/supabase/repository';
+import { getShareToken } from './integrations/supabase/client';
+import { lookupTimeZone } from './utils/timeZone';
+import { useAuth } from './hooks/useAuth';
+import { useOrganizations } from './hooks/useOrganizations';
+import { setDisplayName } from './hooks/useDesignCollaboration';
 
 function App() {
+  const { user, loading: authLoading, signOut } = useAuth();
+  const { organizations, currentOrg, selectOrg, createOrg } = useOrganizations(user?.id ?? null, user?.email);
+  const currentOrgId = currentOrg?.id ?? null;
   const [projects, setProjects] = useState<ProjectData[]>([]);
+  const [sharedProjects, setSharedProjects] = useState<ProjectData[]>([]);
   const [isOnboardingOpen, setIsOnboardingOpen] = useState(false);
   const [currentProject, setCurrentProject] = useState<ProjectData | null>(null);
   const [currentView, setCurrentView] = useState<'dashboard' | 'project' | 'modules' | 'inverters'>('dashboard');
 
   useEffect(() => {
-    const fetchProjects = async () => {
-      const { data, error } = await supabase
-        .from('projects')
-        .select('*')
-        .order('created_at', { ascending: false });
+    if (user?.email) setDisplayName(user.email);
+  }, [user?.email]);
 
-      if (error) {
+  // Projects from other organizations that were shared with this user's email
+  useEffect(() => {
+    setSharedProjects([]);
+    if (!user?.email) return;
+    fetchSharedProjects(user.email)
+      .then(setSharedProjects)
+      .catch((error) => console.error('Error fetching shared projects:', error));
+  }, [user?.email]);
+
+  // Switching organization (or user) starts from that organization's dashboard
+  useEffect(() => {
+    setProjects([]);
+    setCurrentProject(null);
+    setCurrentView(view => (view === 'project' ? 'dashboard' : view));
+    if (!currentOrgId) return;
+    let cancelled = false;
+    const loadProjects = async () => {
+      try {
+        const loaded = await fetchProjects(currentOrgId);
+        if (!cancelled) setProjects(loaded);
+      } catch (error) {
         console.error('Error fetching projects:', error);
-      } else if (data) {
-        const formattedData = data.map(p => ({
-          ...p,
-          projectName: p.project_name,
-          coordinates: (p.lat && p.lng) ? { lat: p.lat, lng: p.lng } : undefined,
-        })) as ProjectData[];
-        setProjects(formattedData);
       }
     };
-    fetchProjects();
-  }, []);
+    loadProjects();
+    return () => { cancelled = true; };
+  }, [currentOrgId, user?.id]);
 
   const handleCreateProject = () => setIsOnboardingOpen(true);
   const handleCloseOnboarding = () => setIsOnboardingOpen(false);
 
   const handleSubmitProject = async (projectData: Partial<ProjectData>) => {
-    const { data, error } = await supabase
-      .from('projects')
-      .insert({
-        project_name: projectData.projectName,
-        description: projectData.description,
-        address: projectData.address,
-        project_type: projectData.projectType,
-        lat: projectData.coordinates?.lat,
-        lng: projectData.coordinates?.lng,
-      })
-      .select()
-      .single();
-
-    if (error) {
+    if (!user || !currentOrgId) throw new Error('No organization selected');
+    let newProject: ProjectData;
+    try {
+      newProject = await insertProject({ orgId: currentOrgId, userId: user.id }, {
+        ...projectData,
+        projectName: projectData.projectName ?? '',
+        timeZone: projectData.timeZone
+          ?? (projectData.coordinates ? lookupTimeZone(projectData.coordinates.lat, projectData.coordinates.lng) : undefined),
+      });
+    } catch (error) {
       console.error('Error creating project:', error);
       throw error;
     }
-    
-    const newProject = {
-      ...data,
-      projectName: data.project_name,
-      coordinates: (data.lat && data.lng) ? { lat: data.lat, lng: data.lng } : undefined,
-    } as ProjectData;
 
     setProjects(prev => [newProject, ...prev]);
     setCurrentProject(newProject);
@@ -70,15 +83,26 @@ function App() {
   };
 
   const handleDeleteProject = async (projectId: string) => {
-    const { error } = await supabase
-      .from('projects')
-      .delete()
-      .eq('id', projectId);
-
-    if (error) {
-      console.error('Error deleting project:', error);
-    } else {
+    try {
+      await deleteProject(projectId);
       setProjects(prev => prev.filter(p => p.id !== projectId));
+    } catch (error) {
+      console.error('Error deleting project:', error);
+    }
+  };
+
+  const handleUpdateProject = async (projectId: string, data: Partial<ProjectData>) => {
+    const apply = (patch: Partial<ProjectData>) => {
+      setProjects(prev => prev.map(p => p.id === projectId ? { ...p, ...patch } : p));
+      setCurrentProject(prev => prev && prev.id === projectId ? { ...prev, ...patch } : prev);
+    };
+    const original = projects.find(p => p.id === projectId);
+    apply(data);
+    try {
+      await updateProject(projectId, data);
+    } catch (error) {
+      console.error('Error updating project:', error);
+      if (original) apply(original);
     }
   };
 
@@ -92,24 +116,46 @@ function App() {
     setCurrentProject(null);
   };
 
+  const shareToken = getShareToken();
+  if (shareToken) return <SharedProjectPage token={shareToken} onExit={() => window.location.assign(window.location.pathname)} />;
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-orange-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) return <AuthPage />;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header
         onOpenLibrary={(p) => setCurrentView(p)}
         onHome={() => setCurrentView('dashboard')}
         currentView={currentView}
+        account={{
+          email: user.email ?? '',
+          organizations,
+          currentOrg,
+          onSelectOrg: selectOrg,
+          onCreateOrg: createOrg,
+          onSignOut: signOut,
+        }}
       />
       <main>
         {currentView === 'dashboard' ? (
           <DashboardHome 
             onCreateProject={handleCreateProject} 
             projects={projects}
+            sharedProjects={sharedProjects.filter(p => p.orgId !== currentOrgId)}
             onDeleteProject={handleDeleteProject}
             onSelectProject={handleSelectProject}
           />
         ) : currentView === 'project' ? (
           currentProject ? (
-          <ProjectPage project={currentProject} onBack={handleBackToDashboard} />
+          <ProjectPage project={currentProject} onBack={handleBackToDashboard} onUpdateProject={(data) => handleUpdateProject(currentProject.id, data)} />
           ) : null
         ) : currentView === 'modules' ? (
           <ModulesPage />
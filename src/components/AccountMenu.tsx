@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Building2, Check, ChevronDown, LogOut, Plus } from 'lucide-react';
+import { Organization } from '../types/project';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+
+interface AccountMenuProps {
+  email: string;
+  organizations: Organization[];
+  currentOrg: Organization | null;
+  onSelectOrg: (orgId: string) => void;
+  onCreateOrg: (name: string) => Promise<unknown>;
+  onSignOut: () => void;
+}
+
+const AccountMenu: React.FC<AccountMenuProps> = ({ email, organizations, currentOrg, onSelectOrg, onCreateOrg, onSignOut }) => {
+  const [open, setOpen] = useState(false);
+  const [newOrgName, setNewOrgName] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const { pending } = useSyncStatus();
+
+  const close = () => {
+    setOpen(false);
+    setNewOrgName(null);
+  };
+
+  const handleCreate = async () => {
+    const name = newOrgName?.trim();
+    if (!name) return;
+    setCreating(true);
+    try {
+      await onCreateOrg(name);
+      close();
+    } catch (error) {
+      console.error('Error creating organization:', error);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    if (pending > 0 && !window.confirm(`${pending} change${pending === 1 ? '' : 's'} not synced yet will be lost. Sign out anyway?`)) return;
+    close();
+    onSignOut();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (open ? close() : setOpen(true))}
+        className="flex items-center space-x-2 px-3 py-2 rounded-lg text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Building2 className="w-4 h-4" />
+        <span className="text-left leading-tight">
+          <span className="block text-sm text-white">{currentOrg?.name ?? 'No organization'}</span>
+          <span className="block text-xs">{email}</span>
+        </span>
+        <ChevronDown className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-white text-gray-800 rounded-md shadow-xl z-50 py-1">
+          <div className="px-4 py-2 text-xs font-medium text-gray-500 uppercase">Organizations</div>
+          {organizations.map(org => (
+            <button
+              key={org.id}
+              onClick={() => { onSelectOrg(org.id); close(); }}
+              className="w-full flex items-center justify-between px-4 py-2 text-left hover:bg-gray-100"
+            >
+              <span className="truncate">{org.name}</span>
+              <span className="flex items-center space-x-2">
+                <span className="text-xs text-gray-400 capitalize">{org.role}</span>
+                {org.id === currentOrg?.id && <Check className="w-4 h-4 text-orange-500" />}
+              </span>
+            </button>
+          ))}
+          {newOrgName === null ? (
+            <button onClick={() => setNewOrgName('')} className="w-full flex items-center px-4 py-2 text-left text-orange-600 hover:bg-gray-100">
+              <Plus className="w-4 h-4 mr-2" />
+              New organization
+            </button>
+          ) : (
+            <div className="px-4 py-2 flex space-x-2">
+              <input
+                autoFocus
+                value={newOrgName}
+                onChange={(e) => setNewOrgName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); if (e.key === 'Escape') setNewOrgName(null); }}
+                placeholder="Organization name"
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={creating || !newOrgName.trim()}
+                className="px-3 py-1 bg-orange-500 text-white rounded text-sm hover:bg-orange-600 disabled:opacity-50"
+              >
+                Create
+              </button>
+            </div>
+          )}
+          <div className="border-t border-gray-200 my-1" />
+          <button onClick={handleSignOut} className="w-full flex items-center px-4 py-2 text-left hover:bg-gray-100">
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign out
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountMenu;
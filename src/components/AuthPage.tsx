@@ -0,0 +1,37 @@
+import React from 'react';
+import { Sun } from 'lucide-react';
+import { Auth } from '@supabase/auth-ui-react';
+import { ThemeSupa } from '@supabase/auth-ui-shared';
+import { supabase } from '../integrations/supabase/client';
+
+const AuthPage: React.FC = () => {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-lg p-8">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="p-2 bg-orange-500 rounded-lg">
+            <Sun className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">HelioScope</h1>
+            <p className="text-sm text-gray-500">Sign in to your projects</p>
+          </div>
+        </div>
+        <Auth
+          supabaseClient={supabase}
+          providers={[]}
+          appearance={{
+            theme: ThemeSupa,
+            variables: {
+              default: {
+                colors: { brand: '#f97316', brandAccent: '#ea580c' },
+              },
+            },
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AuthPage;
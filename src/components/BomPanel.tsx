@@ -0,0 +1,65 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { BomLine, bomToCsv, bomToXlsx } from '../utils/billOfMaterials';
+import { downloadBlob, safeFileName } from '../utils/download';
+
+interface BomPanelProps {
+  lines: BomLine[];
+  fileName: string; // without extension
+}
+
+const CATEGORY_ORDER: BomLine['category'][] = ['Module', 'Inverter', 'Tracker', 'Rail', 'Attachment', 'Clamp', 'Wire'];
+
+const BomPanel: React.FC<BomPanelProps> = ({ lines, fileName }) => {
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    const blob = format === 'csv' ? bomToCsv(lines) : bomToXlsx(lines);
+    downloadBlob(blob, safeFileName(`${fileName}.${format}`));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold text-gray-800">Bill of Materials</h3>
+        <div className="flex space-x-1">
+          {(['csv', 'xlsx'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={!lines.length}
+              className="px-2 py-1 border rounded-md text-xs font-semibold text-gray-700 hover:bg-gray-100 flex items-center space-x-1 disabled:opacity-50"
+            >
+              <Download className="w-3 h-3" />
+              <span>{format.toUpperCase()}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {lines.length === 0 ? (
+        <div className="text-center py-6 text-sm text-gray-500">Place modules on a field segment to build the bill of materials.</div>
+      ) : (
+        CATEGORY_ORDER.filter(c => lines.some(l => l.category === c)).map(category => (
+          <div key={category} className="pt-4 border-t">
+            <h4 className="font-semibold text-gray-800 mb-2">{category}</h4>
+            <div className="space-y-1 text-sm">
+              {lines.filter(l => l.category === category).map((l, i) => (
+                <div key={i} className="flex justify-between p-2 bg-gray-50 rounded-md">
+                  <div className="min-w-0">
+                    <div className="text-gray-800 truncate" title={l.description}>{l.description}</div>
+                    {l.segment && <div className="text-xs text-gray-500 truncate">{l.segment}</div>}
+                  </div>
+                  <div className="ml-2 text-right font-medium whitespace-nowrap">{l.quantity.toLocaleString()} {l.unit}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+      <p className="text-xs text-gray-500">
+        Rails, attachments and clamps are estimated from each segment's frames; wire lengths from the strings to the inverter location (the center of the array until it is placed).
+      </p>
+    </div>
+  );
+};
+
+export default BomPanel;
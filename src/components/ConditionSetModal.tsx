@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { X, Save } from 'lucide-react';
+import type { ConditionSet } from '../types/weather';
+import { TRANSPOSITION_MODELS, TranspositionModel } from '../utils/transposition';
+import FormField from './FormField';
+import SelectField from './SelectField';
+import NumberInputWithUnit from './NumberInputWithUnit';
+
+type ConditionSetDraft = Omit<ConditionSet, 'id' | 'project_id' | 'created_at'>;
+
+interface ConditionSetModalProps {
+  isOpen: boolean;
+  initial: ConditionSet | null; // null creates a new set
+  onClose: () => void;
+  onSubmit: (data: ConditionSetDraft) => void;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const emptyDraft = (): ConditionSetDraft => ({
+  name: '',
+  transpositionModel: 'perez',
+  albedoMode: 'constant',
+  albedo: 0.2,
+  monthlyAlbedo: new Array(12).fill(0.2),
+});
+
+const ConditionSetModal: React.FC<ConditionSetModalProps> = ({ isOpen, initial, onClose, onSubmit }) => {
+  const [draft, setDraft] = useState<ConditionSetDraft>(emptyDraft());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(initial ? {
+      name: initial.name,
+      transpositionModel: initial.transpositionModel,
+      albedoMode: initial.albedoMode,
+      albedo: initial.albedo,
+      monthlyAlbedo: initial.monthlyAlbedo.slice(),
+    } : emptyDraft());
+    setError('');
+  }, [isOpen, initial]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) {
+      setError('Condition set name is required.');
+      return;
+    }
+    onSubmit({ ...draft, name: draft.name.trim() });
+  };
+
+  if (!isOpen) return null;
+
+  const clampAlbedo = (v: number) => Math.min(1, Math.max(0, v));
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4">
+        <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+
+        <div className="relative bg-white rounded-xl shadow-2xl max-w-lg w-full">
+          <div className="flex items-center justify-between p-6 border-b bg-gray-50">
+            <h2 className="text-xl font-bold text-gray-900">{initial ? 'Edit Condition Set' : 'New Condition Set'}</h2>
+            <button onClick={onClose} className="p-2 hover:bg-gray-200 rounded-lg transition-colors">
+              <X className="w-6 h-6 text-gray-500" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit}>
+            <div className="p-6 space-y-2">
+              <FormField
+                label="Name"
+                id="conditionSetName"
+                value={draft.name}
+                onChange={(name) => setDraft(d => ({ ...d, name }))}
+                error={error}
+                required
+                placeholder="e.g., Default Conditions"
+              />
+              <SelectField
+                label="Transposition Model"
+                id="transpositionModel"
+                value={draft.transpositionModel}
+                onChange={(val) => setDraft(d => ({ ...d, transpositionModel: val as TranspositionModel }))}
+                options={TRANSPOSITION_MODELS}
+              />
+              <SelectField
+                label="Ground Albedo"
+                id="albedoMode"
+                value={draft.albedoMode}
+                onChange={(val) => setDraft(d => ({ ...d, albedoMode: val as ConditionSet['albedoMode'] }))}
+                options={[{ value: 'constant', label: 'Constant' }, { value: 'monthly', label: 'Monthly' }]}
+              />
+              {draft.albedoMode === 'constant' ? (
+                <NumberInputWithUnit
+                  label="Albedo"
+                  value={draft.albedo}
+                  onChange={(val) => setDraft(d => ({ ...d, albedo: clampAlbedo(val) }))}
+                  unit=""
+                  min={0}
+                  max={1}
+                  step={0.01}
+                />
+              ) : (
+                <div className="grid grid-cols-2 gap-x-6">
+                  {MONTHS.map((m, i) => (
+                    <NumberInputWithUnit
+                      key={m}
+                      label={m}
+                      value={draft.monthlyAlbedo[i] ?? 0.2}
+                      onChange={(val) => setDraft(d => {
+                        const monthlyAlbedo = d.monthlyAlbedo.slice();
+                        monthlyAlbedo[i] = clampAlbedo(val);
+                        return { ...d, monthlyAlbedo };
+                      })}
+                      unit=""
+                      min={0}
+                      max={1}
+                      step={0.01}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-end p-6 border-t bg-gray-50 space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-6 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-6 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors flex items-center space-x-2"
+              >
+                <Save className="w-4 h-4" />
+                <span>Save</span>
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConditionSetModal;
@@ -0,0 +1,599 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload, Trash2, Play, ChevronDown, ChevronRight, Plus, Edit } from 'lucide-react';
+import { Design, PlacedModule, ProjectData } from '../types/project';
+import type { Module, ParsedPAN } from '../types/library';
+import type { ConditionSet, SimulationResult, WeatherData, WeatherFile } from '../types/weather';
+import { supabase } from '../integrations/supabase/client';
+import { asJson, Tables } from '../integrations/supabase/types';
+import { parseWeatherFile } from '../utils/weather';
+import { mapDbToSimulation, simulateArrays, SimulationArray } from '../utils/simulation';
+import { layoutSegmentModules, resolveModuleDims, segmentTiltGroups } from '../utils/autoLayout';
+import { fetchSegments } from '../integrations/supabase/repository';
+import { mapDbToKeepout, segmentObstacles } from '../utils/keepouts';
+import { mapDbToTree } from '../utils/trees';
+import { trackerGeometry } from '../utils/tracker';
+import { capPlacedModules } from '../utils/layoutCap';
+import { projectTimeZone } from '../utils/timeZone';
+import { TRANSPOSITION_MODELS } from '../utils/transposition';
+import { singleDiodeParamsFromPAN } from '../utils/singleDiode';
+import SelectField from './SelectField';
+import ConditionSetModal from './ConditionSetModal';
+
+interface ConditionsTabProps {
+  project: ProjectData;
+  designs: Design[];
+  readOnly?: boolean; // view-only access: no uploads, edits or simulation runs
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Weather file rows are listed without their records
+const mapDbToWeatherFile = (row: Omit<Tables<'weather_files'>, 'records' | 'elevation'>): WeatherFile => ({
+  id: row.id,
+  project_id: row.project_id,
+  name: row.name,
+  format: row.format as WeatherFile['format'],
+  latitude: row.latitude,
+  longitude: row.longitude,
+  tzOffset: Number(row.tz_offset ?? 0),
+  recordCount: row.record_count ?? 0,
+  created_at: row.created_at,
+});
+
+const mapDbToConditionSet = (row: Tables<'condition_sets'>): ConditionSet => ({
+  id: row.id,
+  project_id: row.project_id,
+  name: row.name,
+  transpositionModel: (row.transposition_model ?? 'perez') as ConditionSet['transpositionModel'],
+  albedoMode: row.albedo_mode === 'monthly' ? 'monthly' : 'constant',
+  albedo: Number(row.albedo ?? 0.2),
+  monthlyAlbedo: Array.isArray(row.monthly_albedo) && row.monthly_albedo.length === 12
+    ? row.monthly_albedo.map(Number)
+    : new Array(12).fill(Number(row.albedo ?? 0.2)),
+  created_at: row.created_at,
+});
+
+const ConditionsTab: React.FC<ConditionsTabProps> = ({ project, designs, readOnly = false }) => {
+  const [weatherFiles, setWeatherFiles] = useState<WeatherFile[]>([]);
+  const [selectedWeatherId, setSelectedWeatherId] = useState<string>('');
+  const [conditionSets, setConditionSets] = useState<ConditionSet[]>([]);
+  const [selectedConditionSetId, setSelectedConditionSetId] = useState<string>('');
+  const [conditionSetModal, setConditionSetModal] = useState<{ open: boolean; editing: ConditionSet | null }>({ open: false, editing: null });
+  const [simulations, setSimulations] = useState<Record<string, SimulationResult>>({});
+  const [runningDesignId, setRunningDesignId] = useState<string | null>(null);
+  const [expandedDesignId, setExpandedDesignId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Hourly records are large; load them once per weather file on demand
+  const weatherCacheRef = useRef<Record<string, WeatherData>>({});
+
+  useEffect(() => {
+    const fetchWeatherFiles = async () => {
+      const { data, error } = await supabase
+        .from('weather_files')
+        .select('id, project_id, name, format, latitude, longitude, tz_offset, record_count, created_at')
+        .eq('project_id', project.id)
+        .order('created_at', { ascending: false });
+      if (error) {
+        console.error('Error fetching weather files', error);
+        return;
+      }
+      const files = (data || []).map(mapDbToWeatherFile);
+      setWeatherFiles(files);
+      setSelectedWeatherId(prev => prev || files[0]?.id || '');
+    };
+    fetchWeatherFiles();
+  }, [project.id]);
+
+  useEffect(() => {
+    const fetchConditionSets = async () => {
+      const { data, error } = await supabase
+        .from('condition_sets')
+        .select('*')
+        .eq('project_id', project.id)
+        .order('created_at', { ascending: true });
+      if (error) {
+        console.error('Error fetching condition sets', error);
+        return;
+      }
+      const sets = (data || []).map(mapDbToConditionSet);
+      setConditionSets(sets);
+      setSelectedConditionSetId(prev => prev || sets[0]?.id || '');
+    };
+    fetchConditionSets();
+  }, [project.id]);
+
+  useEffect(() => {
+    const ids = designs.map(d => d.id);
+    if (!ids.length) return;
+    const fetchSimulations = async () => {
+      const { data, error } = await supabase
+        .from('simulations')
+        .select('*')
+        .in('design_id', ids)
+        .order('created_at', { ascending: false });
+      if (error) {
+        console.error('Error fetching simulations', error);
+        return;
+      }
+      // Keep only the latest run per design
+      const latest: Record<string, SimulationResult> = {};
+      for (const row of data || []) {
+        if (!latest[row.design_id]) latest[row.design_id] = mapDbToSimulation(row);
+      }
+      setSimulations(latest);
+    };
+    fetchSimulations();
+  }, [designs]);
+
+  const onUploadWeather = async (file: File) => {
+    setIsUploading(true); setError(null);
+    try {
+      const text = await file.text();
+      const weather = parseWeatherFile(file.name, text);
+      const { data, error } = await supabase
+        .from('weather_files')
+        .insert({
+          project_id: project.id,
+          name: weather.name,
+          format: weather.format,
+          latitude: Number.isFinite(weather.latitude) ? weather.latitude : null,
+          longitude: Number.isFinite(weather.longitude) ? weather.longitude : null,
+          elevation: weather.elevation,
+          tz_offset: weather.tzOffset,
+          record_count: weather.records.length,
+          records: asJson(weather.records),
+        })
+        .select('id, project_id, name, format, latitude, longitude, tz_offset, record_count, created_at')
+        .single();
+      if (error) throw error;
+      const saved = mapDbToWeatherFile(data);
+      weatherCacheRef.current[saved.id] = weather;
+      setWeatherFiles(prev => [saved, ...prev]);
+      setSelectedWeatherId(saved.id);
+    } catch (e) {
+      setError((e instanceof Error && e.message) || 'Failed to parse or save weather file');
+      console.error(e);
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const onDeleteWeather = async (wf: WeatherFile) => {
+    const original = weatherFiles;
+    setWeatherFiles(prev => prev.filter(x => x.id !== wf.id));
+    if (selectedWeatherId === wf.id) setSelectedWeatherId(original.find(x => x.id !== wf.id)?.id || '');
+    const { error } = await supabase.from('weather_files').delete().eq('id', wf.id);
+    if (error) {
+      setError('Failed to delete weather file.');
+      console.error(error);
+      setWeatherFiles(original);
+    } else {
+      delete weatherCacheRef.current[wf.id];
+    }
+  };
+
+  const onSaveConditionSet = async (draft: Omit<ConditionSet, 'id' | 'project_id' | 'created_at'>) => {
+    setError(null);
+    const row = {
+      name: draft.name,
+      transposition_model: draft.transpositionModel,
+      albedo_mode: draft.albedoMode,
+      albedo: draft.albedo,
+      monthly_albedo: draft.monthlyAlbedo,
+    };
+    const editing = conditionSetModal.editing;
+    const { data, error } = editing
+      ? await supabase.from('condition_sets').update({ ...row, updated_at: new Date().toISOString() }).eq('id', editing.id).select().single()
+      : await supabase.from('condition_sets').insert({ ...row, project_id: project.id }).select().single();
+    if (error) {
+      setError('Failed to save condition set.');
+      console.error(error);
+      return;
+    }
+    const saved = mapDbToConditionSet(data);
+    setConditionSets(prev => editing ? prev.map(c => c.id === saved.id ? saved : c) : [...prev, saved]);
+    if (!editing) setSelectedConditionSetId(saved.id);
+    setConditionSetModal({ open: false, editing: null });
+  };
+
+  const onDeleteConditionSet = async (cs: ConditionSet) => {
+    const original = conditionSets;
+    setConditionSets(prev => prev.filter(x => x.id !== cs.id));
+    if (selectedConditionSetId === cs.id) setSelectedConditionSetId(original.find(x => x.id !== cs.id)?.id || '');
+    const { error } = await supabase.from('condition_sets').delete().eq('id', cs.id);
+    if (error) {
+      setError('Failed to delete condition set.');
+      console.error(error);
+      setConditionSets(original);
+    }
+  };
+
+  const loadWeather = async (wf: WeatherFile): Promise<WeatherData> => {
+    const cached = weatherCacheRef.current[wf.id];
+    if (cached) return cached;
+    const { data, error } = await supabase.from('weather_files').select('records, elevation').eq('id', wf.id).single();
+    if (error) throw error;
+    const weather: WeatherData = {
+      format: wf.format,
+      name: wf.name,
+      latitude: wf.latitude ?? NaN,
+      longitude: wf.longitude ?? NaN,
+      elevation: Number(data.elevation ?? 0),
+      tzOffset: wf.tzOffset,
+      records: Array.isArray(data.records) ? (data.records as unknown as WeatherData['records']) : [],
+    };
+    weatherCacheRef.current[wf.id] = weather;
+    return weather;
+  };
+
+  const runSimulation = async (design: Design) => {
+    const wf = weatherFiles.find(x => x.id === selectedWeatherId);
+    if (!wf) { setError('Upload or select a weather file first.'); return; }
+    if (!project.coordinates) { setError('Project has no coordinates.'); return; }
+    setRunningDesignId(design.id); setError(null);
+    try {
+      const weather = await loadWeather(wf);
+      const segments = (await fetchSegments(design.id)).filter(s => s.module);
+      const [
+        { data: keepoutRows, error: keepoutError },
+        { data: treeRows, error: treeError },
+        { data: electricalRow, error: electricalError },
+      ] = await Promise.all([
+        supabase.from('keepouts').select('*').eq('design_id', design.id),
+        supabase.from('trees').select('*').eq('design_id', design.id),
+        supabase.from('electrical_configs').select('inverter_lng, inverter_lat').eq('design_id', design.id).maybeSingle(),
+      ]);
+      if (keepoutError) throw keepoutError;
+      if (treeError) throw treeError;
+      if (electricalError) throw electricalError;
+      const keepouts = (keepoutRows || []).map(mapDbToKeepout);
+      const trees = (treeRows || []).map(mapDbToTree);
+      const moduleIds = Array.from(new Set(segments.map(s => s.module as string)));
+
+      const modules: Record<string, Module> = {};
+      const parsed: Record<string, ParsedPAN | undefined> = {};
+      if (moduleIds.length) {
+        const [{ data: modRows, error: modError }, { data: detailRows, error: detailError }] = await Promise.all([
+          supabase.from('modules').select('*').in('id', moduleIds),
+          supabase.from('module_details').select('module_id, parsed').in('module_id', moduleIds),
+        ]);
+        if (modError) throw modError;
+        if (detailError) throw detailError;
+        (modRows || []).forEach((m) => { modules[m.id] = m; });
+        (detailRows || []).forEach((d) => { parsed[d.module_id] = (d.parsed ?? undefined) as ParsedPAN | undefined; });
+      }
+
+      const pnomById: Record<string, number> = {};
+      const uncapped: Record<string, PlacedModule[]> = {};
+      for (const seg of segments) {
+        const id = seg.module as string;
+        pnomById[id] = parsed[id]?.pnom ?? modules[id]?.pnom ?? 0;
+        uncapped[seg.id] = modules[id]
+          ? layoutSegmentModules(seg, resolveModuleDims(modules[id], parsed[id]), segmentObstacles(seg, keepouts))
+          : [];
+      }
+      const placedModules = capPlacedModules(uncapped, {
+        segments,
+        pnom: pnomById,
+        site: { ...project.coordinates, timeZone: projectTimeZone(project) },
+        keepouts,
+        trees,
+        inverterLocation: electricalRow?.inverter_lng != null && electricalRow.inverter_lat != null
+          ? [electricalRow.inverter_lng, electricalRow.inverter_lat]
+          : null,
+      });
+
+      // One array per tilt group, since each group faces its own plane
+      const arrays: SimulationArray[] = [];
+      for (const seg of segments) {
+        const id = seg.module as string;
+        const pnom = pnomById[id];
+        if (!pnom) continue;
+        const groups = segmentTiltGroups(seg);
+        groups.forEach((g, group) => {
+          const moduleCount = placedModules[seg.id].filter(m => m.group === group).length;
+          if (!moduleCount) return;
+          arrays.push({
+            segmentId: seg.id,
+            group,
+            description: groups.length > 1 ? `${seg.description} (${g.moduleTilt}°/${g.moduleAzimuth}°)` : seg.description,
+            tilt: g.moduleTilt,
+            azimuth: g.moduleAzimuth,
+            tracker: trackerGeometry(seg),
+            moduleCount,
+            pnom,
+            tempCoeffPmax: parsed[id]?.temp_coeff_pmax ?? -0.004,
+            diode: singleDiodeParamsFromPAN(parsed[id]),
+          });
+        });
+      }
+      if (!arrays.length) throw new Error(`${design.name} has no placed modules to simulate.`);
+
+      const conditions = conditionSets.find(c => c.id === selectedConditionSetId) || null;
+      const result = simulateArrays(weather, project.coordinates, arrays, {
+        transpositionModel: conditions?.transpositionModel,
+        albedo: conditions ? (conditions.albedoMode === 'monthly' ? conditions.monthlyAlbedo : conditions.albedo) : undefined,
+      });
+      const { data: saved, error: saveError } = await supabase
+        .from('simulations')
+        .insert({
+          design_id: design.id,
+          weather_file_id: wf.id,
+          condition_set_id: conditions?.id ?? null,
+          transposition_model: result.transpositionModel,
+          annual_kwh: result.annualKwh,
+          monthly_kwh: result.monthlyKwh,
+          dc_kwp: result.dcKwp,
+          specific_yield: result.specificYield,
+          performance_ratio: result.performanceRatio,
+          segments: asJson(result.segments),
+        })
+        .select()
+        .single();
+      if (saveError) throw saveError;
+      setSimulations(prev => ({ ...prev, [design.id]: mapDbToSimulation(saved) }));
+      setExpandedDesignId(design.id);
+    } catch (e) {
+      setError((e instanceof Error && e.message) || 'Simulation failed');
+      console.error(e);
+    } finally {
+      setRunningDesignId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Weather</h3>
+            <p className="text-sm text-gray-600">Typical-year hourly weather used for energy simulation (EPW, TMY3 CSV or PVGIS JSON).</p>
+          </div>
+          {!readOnly && (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
+              className="bg-cyan-500 text-white px-4 py-2 rounded-lg hover:bg-cyan-600 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <Upload className="w-4 h-4" />
+              <span>{isUploading ? 'Uploading...' : 'Upload'}</span>
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".epw,.csv,.json"
+            className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) onUploadWeather(f); }}
+          />
+        </div>
+
+        {error && <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>}
+
+        <div className="bg-white border rounded-lg overflow-hidden">
+          {weatherFiles.length === 0 ? (
+            <div className="text-center p-8 text-gray-500">No weather files uploaded yet.</div>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-700">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">Name</th>
+                  <th className="px-4 py-2 text-left font-medium">Format</th>
+                  <th className="px-4 py-2 text-left font-medium">Location</th>
+                  <th className="px-4 py-2 text-right font-medium">Hours</th>
+                  <th className="px-4 py-2 text-right font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {weatherFiles.map(wf => (
+                  <tr key={wf.id} className="border-t">
+                    <td className="px-4 py-2 text-gray-900">{wf.name}</td>
+                    <td className="px-4 py-2 text-gray-600">{wf.format}</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {wf.latitude != null && wf.longitude != null ? `${Number(wf.latitude).toFixed(3)}, ${Number(wf.longitude).toFixed(3)}` : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">{wf.recordCount}</td>
+                    <td className="px-4 py-2 text-right">
+                      {!readOnly && (
+                        <button onClick={() => onDeleteWeather(wf)} className="p-2 text-gray-500 hover:text-red-600 rounded-md hover:bg-gray-100">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Condition Sets</h3>
+            <p className="text-sm text-gray-600">Transposition model and ground albedo used to turn horizontal irradiance into plane-of-array irradiance.</p>
+          </div>
+          {!readOnly && (
+            <button
+              onClick={() => setConditionSetModal({ open: true, editing: null })}
+              className="bg-cyan-500 text-white px-4 py-2 rounded-lg hover:bg-cyan-600 transition-colors flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New</span>
+            </button>
+          )}
+        </div>
+        <div className="bg-white border rounded-lg overflow-hidden">
+          {conditionSets.length === 0 ? (
+            <div className="text-center p-8 text-gray-500">No condition sets yet. Simulations default to Perez with 0.20 albedo.</div>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-700">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">Name</th>
+                  <th className="px-4 py-2 text-left font-medium">Transposition</th>
+                  <th className="px-4 py-2 text-left font-medium">Albedo</th>
+                  <th className="px-4 py-2 text-right font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conditionSets.map(cs => (
+                  <tr key={cs.id} className="border-t">
+                    <td className="px-4 py-2 text-gray-900">{cs.name}</td>
+                    <td className="px-4 py-2 text-gray-600">{TRANSPOSITION_MODELS.find(m => m.value === cs.transpositionModel)?.label || cs.transpositionModel}</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {cs.albedoMode === 'monthly'
+                        ? `Monthly ${Math.min(...cs.monthlyAlbedo).toFixed(2)}–${Math.max(...cs.monthlyAlbedo).toFixed(2)}`
+                        : cs.albedo.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {!readOnly && (
+                        <>
+                          <button onClick={() => setConditionSetModal({ open: true, editing: cs })} className="p-2 text-gray-500 hover:text-blue-600 rounded-md hover:bg-gray-100">
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => onDeleteConditionSet(cs)} className="p-2 text-gray-500 hover:text-red-600 rounded-md hover:bg-gray-100">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Energy Yield</h3>
+          <p className="text-sm text-gray-600">Hourly simulation of every field segment over the selected weather year.</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl">
+          <SelectField
+            label="Weather File"
+            id="weather-file"
+            value={selectedWeatherId}
+            onChange={setSelectedWeatherId}
+            options={weatherFiles.map(wf => ({ value: wf.id, label: `${wf.name} (${wf.format})` }))}
+          />
+          <SelectField
+            label="Condition Set"
+            id="condition-set"
+            value={selectedConditionSetId}
+            onChange={setSelectedConditionSetId}
+            options={conditionSets.map(cs => ({ value: cs.id, label: cs.name }))}
+          />
+        </div>
+
+        <div className="bg-white border rounded-lg overflow-hidden">
+          <div className="bg-gray-50 px-6 py-3 border-b">
+            <div className="grid grid-cols-6 gap-4 text-sm font-medium text-gray-700">
+              <div className="col-span-2">Design</div>
+              <div className="text-right">DC Size</div>
+              <div className="text-right">Annual Energy</div>
+              <div className="text-right">Specific Yield / PR</div>
+              <div className="text-right">Actions</div>
+            </div>
+          </div>
+          {designs.length === 0 ? (
+            <div className="text-center p-8 text-gray-500">No designs to simulate.</div>
+          ) : designs.map(design => {
+            const sim = simulations[design.id];
+            const expanded = expandedDesignId === design.id && !!sim;
+            const maxMonth = sim ? Math.max(1, ...sim.monthlyKwh) : 1;
+            return (
+              <div key={design.id} className="px-6 py-4 border-b last:border-b-0">
+                <div className="grid grid-cols-6 gap-4 items-center text-sm">
+                  <button
+                    onClick={() => setExpandedDesignId(expanded ? null : design.id)}
+                    disabled={!sim}
+                    className="col-span-2 flex items-center space-x-1 text-left font-medium text-gray-900 disabled:cursor-default"
+                  >
+                    {sim ? (expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />) : <span className="w-4" />}
+                    <span>{design.name}</span>
+                  </button>
+                  <div className="text-right text-gray-600">{sim ? `${sim.dcKwp.toFixed(2)} kWp` : '-'}</div>
+                  <div className="text-right text-gray-600">{sim ? `${Math.round(sim.annualKwh).toLocaleString()} kWh` : '-'}</div>
+                  <div className="text-right text-gray-600">{sim ? `${Math.round(sim.specificYield)} kWh/kWp · ${(sim.performanceRatio * 100).toFixed(1)}%` : '-'}</div>
+                  <div className="flex justify-end">
+                    {!readOnly && <button
+                      onClick={() => runSimulation(design)}
+                      disabled={runningDesignId !== null || !selectedWeatherId}
+                      className="px-3 py-1.5 text-sm border rounded-md text-gray-700 hover:bg-gray-100 flex items-center space-x-1 disabled:opacity-50"
+                    >
+                      <Play className="w-3 h-3" />
+                      <span>{runningDesignId === design.id ? 'Running...' : sim ? 'Re-run' : 'Run'}</span>
+                    </button>}
+                  </div>
+                </div>
+                {expanded && sim && (
+                  <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-800 mb-2">Monthly Energy (kWh)</h4>
+                      <div className="flex items-end h-32 space-x-1">
+                        {sim.monthlyKwh.map((kwh, i) => (
+                          <div key={i} className="flex-1 flex flex-col items-center justify-end h-full" title={`${MONTHS[i]}: ${Math.round(kwh).toLocaleString()} kWh`}>
+                            <div className="w-full bg-orange-400 rounded-t" style={{ height: `${(kwh / maxMonth) * 100}%` }} />
+                            <span className="text-[10px] text-gray-500 mt-1">{MONTHS[i][0]}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-800 mb-2">Field Segments</h4>
+                      <table className="min-w-full text-xs">
+                        <thead className="text-gray-600">
+                          <tr>
+                            <th className="py-1 text-left font-medium">Segment</th>
+                            <th className="py-1 text-right font-medium">Modules</th>
+                            <th className="py-1 text-right font-medium">Beam</th>
+                            <th className="py-1 text-right font-medium">Sky</th>
+                            <th className="py-1 text-right font-medium">Ground</th>
+                            <th className="py-1 text-right font-medium">POA</th>
+                            <th className="py-1 text-right font-medium">Energy (kWh)</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {sim.segments.map(s => (
+                            <tr key={`${s.segmentId}:${s.group ?? 0}`} className="border-t">
+                              <td className="py-1 text-gray-800">{s.description}</td>
+                              <td className="py-1 text-right text-gray-600">{s.moduleCount}</td>
+                              <td className="py-1 text-right text-gray-600">{s.beamKwhM2 != null ? Math.round(s.beamKwhM2).toLocaleString() : '-'}</td>
+                              <td className="py-1 text-right text-gray-600">{s.skyDiffuseKwhM2 != null ? Math.round(s.skyDiffuseKwhM2).toLocaleString() : '-'}</td>
+                              <td className="py-1 text-right text-gray-600">{s.groundKwhM2 != null ? Math.round(s.groundKwhM2).toLocaleString() : '-'}</td>
+                              <td className="py-1 text-right text-gray-600">{Math.round(s.poaKwhM2).toLocaleString()}</td>
+                              <td className="py-1 text-right text-gray-600">{Math.round(s.annualKwh).toLocaleString()}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <p className="mt-2 text-xs text-gray-500">
+                        Plane-of-array insolation in kWh/m² ({TRANSPOSITION_MODELS.find(m => m.value === sim.transpositionModel)?.label || sim.transpositionModel})
+                        {sim.created_at && ` · simulated ${new Date(sim.created_at).toLocaleString()}`}
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <ConditionSetModal
+        isOpen={conditionSetModal.open}
+        initial={conditionSetModal.editing}
+        onClose={() => setConditionSetModal({ open: false, editing: null })}
+        onSubmit={onSaveConditionSet}
+      />
+    </div>
+  );
+};
+
+export default ConditionsTab;
@@ -1,15 +1,16 @@
 import React from 'react';
-import { Plus, FolderOpen, Trash2 } from 'lucide-react';
+import { Plus, FolderOpen, Trash2, Users } from 'lucide-react';
 import { ProjectData } from '../types/project';
 
 interface DashboardHomeProps {
   onCreateProject: () => void;
   projects: ProjectData[];
+  sharedProjects?: ProjectData[]; // from other organizations, shared with the user
   onDeleteProject: (id: string) => void;
   onSelectProject: (project: ProjectData) => void;
 }
 
-const DashboardHome: React.FC<DashboardHomeProps> = ({ onCreateProject, projects, onDeleteProject, onSelectProject }) => {
+const DashboardHome: React.FC<DashboardHomeProps> = ({ onCreateProject, projects, sharedProjects = [], onDeleteProject, onSelectProject }) => {
   return (
     <div className="max-w-7xl mx-auto p-6">
       {/* Welcome Section */}
@@ -96,6 +97,34 @@ const DashboardHome: React.FC<DashboardHomeProps> = ({ onCreateProject, projects
           )}
         </div>
       </div>
+
+      {sharedProjects.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border mt-6">
+          <div className="p-6 border-b">
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+              <Users className="w-5 h-5 mr-2 text-orange-500" />
+              Shared with Me
+            </h2>
+          </div>
+          <ul className="p-6 space-y-4">
+            {sharedProjects.map(project => (
+              <li
+                key={project.id}
+                onClick={() => onSelectProject(project)}
+                className="p-4 border rounded-lg hover:bg-gray-50 transition-colors cursor-pointer"
+              >
+                <div className="flex justify-between items-center">
+                  <div>
+                    <p className="font-semibold text-gray-800">{project.projectName}</p>
+                    <p className="text-sm text-gray-500">{project.address}</p>
+                  </div>
+                  <span className="text-sm text-gray-500 capitalize">{project.sharedRole}</span>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 };
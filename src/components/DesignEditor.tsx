@@ -1,25 +1,46 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import * as maptalks from 'maptalks';
 import * as turf from '@turf/turf';
-// Sun position for shadow direction/length
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-ignore
-import * as SunCalc from 'suncalc';
-import { ProjectData, Design, FieldSegment } from '../types/project';
-import type { Module } from '../types/library';
-import { ArrowLeft, Check, RotateCcw, RotateCw, Settings, LayoutGrid, Crosshair, GitBranch, PlusCircle, Plus, Trash2, Loader2 } from 'lucide-react';
-import { formatArea, formatDistance } from '../utils/mapUtils';
+import { ProjectData, Design, FieldSegment, PlacedModule, ElectricalConfig, Keepout, Tree, DesignSnapshot, LayoutStats } from '../types/project';
+import type { Module, Inverter } from '../types/library';
+import { ArrowLeft, Check, RotateCcw, RotateCw, Settings, LayoutGrid, Crosshair, GitBranch, PlusCircle, Plus, Trash2, Loader2, History, WifiOff, Eye, ClipboardList } from 'lucide-react';
+import { formatArea, formatDistance, feetToMeters } from '../utils/mapUtils';
+import { dec22ThisYear, mapDbToSegment } from '../utils/fieldSegments';
+import { getGeometryShell, layoutSegmentModules, resolveModuleDims, segmentLayoutArea } from '../utils/autoLayout';
+import { keepoutBaseSegment, keepoutFootprint, keepoutRing, mapDbToKeepout, segmentObstacles } from '../utils/keepouts';
+import { analysisWindow, ShadowJob, shadowJobKey } from '../utils/shadowJobs';
+import { createShadowWorkerClient, ShadowWorkerClient } from '../utils/shadowWorkerClient';
+import { projectTimeZone } from '../utils/timeZone';
+import { crownLevels, mapDbToTree, treeCrown } from '../utils/trees';
+import { moduleShadingKey, ShadingProgress, ShadingResult } from '../utils/shading';
+import { createShadingWorkerClient, shadingSceneKey, ShadingWorkerClient } from '../utils/shadingWorkerClient';
+import { mapDbToSnapshot, snapshotRestoreArgs } from '../utils/snapshots';
+import { assignStrings, moduleParamsFromParsed, StringingModuleParams } from '../utils/stringing';
+import { buildBillOfMaterials } from '../utils/billOfMaterials';
+import { capPlacedModules, LayoutCapContext, SHADING_RANK_STEP_HOURS, shadingRankScene } from '../utils/layoutCap';
 import CreateFieldSegmentPanel from './CreateFieldSegmentPanel';
 import FieldSegmentPanel from './FieldSegmentPanel';
+import ElectricalPanel from './ElectricalPanel';
+import KeepoutPanel from './KeepoutPanel';
+import TreePanel from './TreePanel';
+import SnapshotsPanel from './SnapshotsPanel';
+import BomPanel from './BomPanel';
 import { supabase } from '../integrations/supabase/client';
+import { asJson, TablesInsert } from '../integrations/supabase/types';
+import { deleteSegment, fetchSegments, insertSegment, restoreSegmentRow, updateSegment } from '../integrations/supabase/repository';
+import { useCommandHistory } from '../hooks/useCommandHistory';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { SegmentChange, useDesignCollaboration } from '../hooks/useDesignCollaboration';
+import { clearSyncConflicts } from '../integrations/supabase/offlineSync';
 
 interface DesignEditorProps {
   project: ProjectData;
   design: Design;
   onBack: () => void;
+  readOnly?: boolean; // view-only: no drawing, editing, deleting or saving
 }
 
-type EditorTool = 'none' | 'draw' | 'edit' | 'delete';
+type EditorTool = 'none' | 'draw' | 'draw-keepout' | 'draw-tree' | 'place-inverter' | 'edit' | 'delete';
 type SavingStatus = 'idle' | 'saving' | 'saved' | 'error';
 
 const SNAP_DISTANCE_PX = 15;
@@ -32,10 +53,20 @@ const defaultSymbol = {
 };
 const closingSymbol = { ...defaultSymbol, lineColor: '#22c55e' };
 
+// Module fill by annual shading loss (0..1)
+const SHADING_LEGEND: Array<{ max: number; color: string; label: string }> = [
+  { max: 0.02, color: '#16a34a', label: '< 2%' },
+  { max: 0.05, color: '#84cc16', label: '2–5%' },
+  { max: 0.1, color: '#facc15', label: '5–10%' },
+  { max: 0.2, color: '#f97316', label: '10–20%' },
+  { max: Infinity, color: '#dc2626', label: '> 20%' },
+];
+const shadingLossColor = (loss: number) => (SHADING_LEGEND.find(b => loss < b.max) ?? SHADING_LEGEND[SHADING_LEGEND.length - 1]).color;
+
 const defaultGhostSymbol = { 'markerType': 'ellipse' as const, 'markerFill': '#22c55e', 'markerWidth': 10, 'markerHeight': 10, 'markerLineWidth': 0 };
 const snapGhostSymbol = { 'markerType': 'ellipse' as const, 'markerFill': '#22c55e', 'markerWidth': 14, 'markerHeight': 14, 'markerLineWidth': 2, 'markerLineColor': '#ffffff' };
 
-const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack }) => {
+const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack, readOnly = false }) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<maptalks.Map | null>(null);
   
@@ -51,16 +82,34 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
   const [isSavingNewSegment, setIsSavingNewSegment] = useState(false);
   const [isCtrlDown, setIsCtrlDown] = useState(false);
   const [showShadows, setShowShadows] = useState(true);
+  // Analysis dates/times are wall-clock times at the site, not in the browser's zone
+  const siteTimeZone = useMemo(() => projectTimeZone(project), [project]);
+  const [shadowProgress, setShadowProgress] = useState<{ done: number; total: number } | null>(null);
+  const [showModuleShading, setShowModuleShading] = useState(false);
+  const [moduleShading, setModuleShading] = useState<ShadingResult | null>(null);
+  const [shadingProgress, setShadingProgress] = useState<ShadingProgress | null>(null);
   const [modules, setModules] = useState<Array<Module & { id: string }>>([]);
-
-  // Default shadow analysis date: Dec 22 of the current year
-  const dec22ThisYear = useCallback(() => {
-    const y = new Date().getFullYear();
-    const d = new Date(y, 11, 22); // month is 0-based
-    const mm = String(d.getMonth() + 1).padStart(2, '0');
-    const dd = String(d.getDate()).padStart(2, '0');
-    return `${y}-${mm}-${dd}`;
-  }, []);
+  const [keepouts, setKeepouts] = useState<Keepout[]>([]);
+  const [selectedKeepoutId, setSelectedKeepoutId] = useState<string | null>(null);
+  const [keepoutShape, setKeepoutShape] = useState<Keepout['shape']>('polygon');
+  const keepoutDirtyRef = useRef(false);
+  const keepoutDebounceRef = useRef<NodeJS.Timeout | null>(null);
+  const [trees, setTrees] = useState<Tree[]>([]);
+  const [selectedTreeId, setSelectedTreeId] = useState<string | null>(null);
+  const treeDirtyRef = useRef(false);
+  const treeDebounceRef = useRef<NodeJS.Timeout | null>(null);
+  const [inverters, setInverters] = useState<Array<Inverter & { id: string }>>([]);
+  const [electricalConfig, setElectricalConfig] = useState<ElectricalConfig>({
+    design_id: design.id,
+    inverterId: null,
+    recordLowTemp: -10,
+    highTemp: 40,
+    stringLength: null,
+    inverterLocation: null,
+  });
+  const electricalDirtyRef = useRef(false);
+  const electricalDebounceRef = useRef<NodeJS.Timeout | null>(null);
+  const [snapshots, setSnapshots] = useState<DesignSnapshot[]>([]);
 
   const drawToolRef = useRef<maptalks.DrawTool | null>(null);
   const segmentLayerRef = useRef<maptalks.VectorLayer | null>(null);
@@ -70,6 +119,11 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
   const shadowsLayerRef = useRef<maptalks.VectorLayer | null>(null);
   const setbackLayerRef = useRef<maptalks.VectorLayer | null>(null);
   const modulesLayerRef = useRef<maptalks.VectorLayer | null>(null);
+  const keepoutsLayerRef = useRef<maptalks.VectorLayer | null>(null);
+  const treesLayerRef = useRef<maptalks.VectorLayer | null>(null);
+  const inverterLayerRef = useRef<maptalks.VectorLayer | null>(null);
+  // What the shared DrawTool is currently creating (read inside its event handlers)
+  const drawTargetRef = useRef<'segment' | 'keepout' | 'tree' | 'inverter'>('segment');
   
   const ghostMarkerRef = useRef<maptalks.Marker | null>(null);
   const tempLabelRef = useRef<maptalks.Label | null>(null);
@@ -88,8 +142,87 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
     fieldSegmentsRef.current = fieldSegments;
   }, [fieldSegments]);
 
-  // Cache of module dimensions (meters). Keys: module_id
+  // Undo/redo for field segments. History steps persist first, then update local state.
+  const history = useCommandHistory();
+  const { push: pushHistory } = history; // stable across renders, unlike the history object
+  const syncStatus = useSyncStatus();
+  const segmentDirtyRef = useRef(false);
+
+  // Live segment changes from other editors of this design. The segment this client holds is
+  // skipped: its local state is at least as new (remote updates there are our own echoes).
+  const ownedSegmentIdRef = useRef<string | null>(null);
+  const handleRemoteSegmentChange = useCallback((change: SegmentChange) => {
+    if (change.eventType === 'DELETE') {
+      const id = change.old.id;
+      if (!id) return;
+      setFieldSegments(prev => prev.filter(s => s.id !== id));
+      setSelectedSegmentId(prev => prev === id ? null : prev);
+      return;
+    }
+    const segment = mapDbToSegment(change.new);
+    if (change.eventType === 'UPDATE' && segment.id === ownedSegmentIdRef.current) return;
+    setFieldSegments(prev => prev.some(s => s.id === segment.id)
+      ? prev.map(s => s.id === segment.id ? segment : s)
+      : [...prev, segment].sort((a, b) => String(a.created_at).localeCompare(String(b.created_at))));
+  }, []);
+  const collaboration = useDesignCollaboration({
+    designId: design.id,
+    // Viewers follow along without holding (locking) what they select
+    selectedSegmentId: readOnly ? null : selectedSegmentId,
+    onSegmentChange: handleRemoteSegmentChange,
+  });
+  const selectedSegmentLock = selectedSegmentId ? collaboration.locks[selectedSegmentId] : undefined;
+  useEffect(() => {
+    ownedSegmentIdRef.current = selectedSegmentLock ? null : selectedSegmentId;
+  }, [selectedSegmentId, selectedSegmentLock]);
+  const applySegmentPatch = useCallback(async (id: string, patch: Partial<FieldSegment>) => {
+    await updateSegment(id, patch);
+    setFieldSegments(prev => prev.map(s => s.id === id ? { ...s, ...patch } : s));
+  }, []);
+  const restoreSegment = useCallback(async (segment: FieldSegment) => {
+    await restoreSegmentRow(segment);
+    setFieldSegments(prev => prev.some(s => s.id === segment.id)
+      ? prev
+      : [...prev, segment].sort((a, b) => String(a.created_at).localeCompare(String(b.created_at))));
+  }, []);
+  const removeSegment = useCallback(async (id: string) => {
+    await deleteSegment(id);
+    setFieldSegments(prev => prev.filter(s => s.id !== id));
+    setSelectedSegmentId(prev => prev === id ? null : prev);
+  }, []);
+
+  // Store an edited outline and record it for undo (edit-end can report the same shape twice)
+  const commitSegmentGeometry = useCallback(async (id: string, geometry: unknown, area: number) => {
+    if (readOnly) return;
+    const before = fieldSegmentsRef.current.find(s => s.id === id);
+    if (!before || JSON.stringify(before.geometry) === JSON.stringify(geometry)) return;
+    const previous = { geometry: before.geometry, area: before.area };
+    fieldSegmentsRef.current = fieldSegmentsRef.current.map(s => s.id === id ? { ...s, geometry, area } : s);
+    setFieldSegments(prev => prev.map(s => s.id === id ? { ...s, geometry, area } : s));
+    pushHistory({
+      label: 'Edit segment shape',
+      segmentId: id,
+      undo: () => applySegmentPatch(id, previous),
+      redo: () => applySegmentPatch(id, { geometry, area }),
+    });
+    try {
+      await updateSegment(id, { geometry, area });
+    } catch (e) {
+      console.error('Error saving edited geometry', e);
+    }
+  }, [pushHistory, applySegmentPatch, readOnly]);
+  const keepoutsRef = useRef(keepouts);
+  useEffect(() => {
+    keepoutsRef.current = keepouts;
+  }, [keepouts]);
+  const treesRef = useRef(trees);
+  useEffect(() => {
+    treesRef.current = trees;
+  }, [trees]);
+
+  // Cache of module dimensions (meters) and parsed PAN details. Keys: module_id
   const [moduleDims, setModuleDims] = useState<Record<string, { width: number; height: number }>>({});
+  const [moduleParsed, setModuleParsed] = useState<Record<string, any>>({});
   const ensureModuleDims = useCallback(async (moduleId: string | null | undefined) => {
     if (!moduleId) return;
     if (moduleDims[moduleId]) return;
@@ -101,35 +234,11 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
         .single();
       
       if (error) throw error;
+      setModuleParsed((prev) => ({ ...prev, [moduleId]: (extras as any)?.parsed ?? null }));
 
-      let len = (extras as any)?.parsed?.length_m;
-      let wid = (extras as any)?.parsed?.width_m;
-
-      // Fallbacks if extras missing or invalid
-      if (!(typeof len === 'number' && isFinite(len)) || !(typeof wid === 'number' && isFinite(wid))) {
-        const mod = modules.find(m => m.id === moduleId);
-        const name = `${mod?.manufacturer || ''} ${mod?.model || ''}`.trim().toLowerCase();
-        // Known model mappings (extend as needed)
-        const known: Array<{ test: (n: string) => boolean; w: number; h: number }> = [
-          { test: (n) => n.includes('jinko') && (n.includes('jkm 260p-60') || n.includes('jkm260p-60')), w: 0.992, h: 1.65 },
-        ];
-        const hit = known.find(k => k.test(name));
-        if (hit) {
-          wid = hit.w; len = hit.h;
-        } else if (mod?.area && isFinite(mod.area)) {
-          // Infer from area with typical 60-cell aspect ratio ~1.66 (L/W)
-          const ratio = 1.66;
-          const area = mod.area as number; // m^2
-          const height = Math.sqrt(area * ratio);
-          const width = area / height;
-          wid = width; len = height;
-        }
-      }
-
-      // Final guards
-      const width = (typeof wid === 'number' && isFinite(wid)) ? wid : 1.1; // m
-      const height = (typeof len === 'number' && isFinite(len)) ? len : 1.7; // m
-      setModuleDims((prev) => ({ ...prev, [moduleId]: { width, height } }));
+      const mod = modules.find(m => m.id === moduleId);
+      const dims = resolveModuleDims(mod, (extras as any)?.parsed);
+      setModuleDims((prev) => ({ ...prev, [moduleId]: dims }));
     } catch {
       setModuleDims((prev) => ({ ...prev, [moduleId]: { width: 1.1, height: 1.7 } }));
     }
@@ -268,7 +377,7 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
 
   // Begin editing of a selected polygon
   const beginEditSelected = useCallback(() => {
-    if (!selectedSegmentId || !segmentLayerRef.current) return;
+    if (readOnly || !selectedSegmentId || !segmentLayerRef.current) return;
     const geom = segmentLayerRef.current.getGeometryById(selectedSegmentId) as any;
     if (!geom || typeof geom.startEdit !== 'function') return;
     try {
@@ -282,7 +391,7 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
         try { updateDistanceLabels(geom, selectedSegmentId); } catch {}
       });
     } catch {}
-  }, [selectedSegmentId, updateDistanceLabels]);
+  }, [readOnly, selectedSegmentId, updateDistanceLabels]);
 
   // Finish editing and persist geometry changes
   const endEditSelected = useCallback(async () => {
@@ -294,69 +403,56 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
     // Update labels one final time
     try { updateDistanceLabels(geom, selectedSegmentId); } catch {}
     // Persist updated geometry and area
-    const updatedGeometry = geom.toJSON();
-    const updatedArea = geom.getArea?.() || 0;
-    setFieldSegments(prev => prev.map(s => s.id === selectedSegmentId ? { ...s, geometry: updatedGeometry, area: updatedArea } : s));
-    try {
-      await supabase.from('field_segments').update({ geometry: updatedGeometry, area: updatedArea }).eq('id', selectedSegmentId);
-    } catch (e) {
-      console.error('Error saving edited geometry', e);
-    }
-  }, [selectedSegmentId, updateDistanceLabels]);
-
-  // Helper: map DB row (snake_case) to FieldSegment (camelCase)
-  const mapDbToSegment = useCallback((row: any): FieldSegment => ({
-    id: row.id,
-    design_id: row.design_id,
-    geometry: row.geometry,
-    area: row.area,
-    description: row.description,
-    module: row.module,
-    racking: row.racking,
-    surfaceHeight: row.surface_height ?? 0,
-    rackingHeight: row.racking_height ?? 0,
-  parapetHeight: row.parapet_height ?? 0,
-    moduleAzimuth: row.module_azimuth ?? 180,
-    moduleTilt: row.module_tilt ?? 10,
-  // sun & shadows
-  spanRise: row.span_rise ?? 1.4,
-  gcr: row.gcr ?? 0.81,
-  timeOfDay: row.time_of_day ?? '10:00',
-  analysisDate: row.analysis_date ?? dec22ThisYear(),
-  startTime: row.start_time ?? '10:00',
-  endTime: row.end_time ?? '16:00',
-    frameSizeUp: row.frame_size_up ?? 1,
-    frameSizeWide: row.frame_size_wide ?? 1,
-    defaultOrientation: row.default_orientation ?? 'Landscape',
-    rowSpacing: row.row_spacing ?? 2,
-    moduleSpacing: row.module_spacing ?? 0.041,
-    frameSpacing: row.frame_spacing ?? 0,
-    setback: row.setback ?? 4,
-    alignment: row.alignment ?? 'center',
-    created_at: row.created_at,
-    updated_at: row.updated_at,
-  }), [dec22ThisYear]);
+    await commitSegmentGeometry(selectedSegmentId, geom.toJSON(), geom.getArea?.() || 0);
+  }, [selectedSegmentId, updateDistanceLabels, commitSegmentGeometry]);
 
   // Fetch initial data
   useEffect(() => {
-    const fetchSegments = async () => {
+    const loadSegments = async () => {
         setIsLoading(true);
-        const { data, error } = await supabase
-            .from('field_segments')
-            .select('*')
-            .eq('design_id', design.id)
-            .order('created_at', { ascending: true });
-        
-        if (error) {
+        try {
+            setFieldSegments(await fetchSegments(design.id));
+        } catch (error) {
             console.error("Error fetching field segments", error);
-        } else {
-            const mapped = (data || []).map(mapDbToSegment);
-            setFieldSegments(mapped);
         }
         setIsLoading(false);
     };
-    fetchSegments();
-  }, [design.id, mapDbToSegment]);
+    loadSegments();
+  }, [design.id]);
+
+  // Fetch keepout obstructions for this design
+  useEffect(() => {
+    const fetchKeepouts = async () => {
+      const { data, error } = await supabase
+        .from('keepouts')
+        .select('*')
+        .eq('design_id', design.id)
+        .order('created_at', { ascending: true });
+      if (error) {
+        console.error("Error fetching keepouts", error);
+      } else {
+        setKeepouts((data || []).map(mapDbToKeepout));
+      }
+    };
+    fetchKeepouts();
+  }, [design.id]);
+
+  // Fetch tree obstructions for this design
+  useEffect(() => {
+    const fetchTrees = async () => {
+      const { data, error } = await supabase
+        .from('trees')
+        .select('*')
+        .eq('design_id', design.id)
+        .order('created_at', { ascending: true });
+      if (error) {
+        console.error("Error fetching trees", error);
+      } else {
+        setTrees((data || []).map(mapDbToTree));
+      }
+    };
+    fetchTrees();
+  }, [design.id]);
 
   // Load available modules from Supabase so the panel can list them
   useEffect(() => {
@@ -372,6 +468,56 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
     fetchModules();
   }, []);
 
+  // Load the inverter library and this design's electrical configuration
+  useEffect(() => {
+    const fetchElectrical = async () => {
+      try {
+        const { data, error } = await supabase.from('inverters').select('*');
+        if (error) throw error;
+        setInverters(data as Array<Inverter & { id: string }>);
+      } catch (e) {
+        console.error("Failed to load inverters", e);
+      }
+      const { data: row, error } = await supabase
+        .from('electrical_configs')
+        .select('*')
+        .eq('design_id', design.id)
+        .maybeSingle();
+      if (error) {
+        console.error("Error fetching electrical config", error);
+      } else if (row) {
+        setElectricalConfig({
+          id: row.id,
+          design_id: row.design_id,
+          inverterId: row.inverter_id ?? null,
+          recordLowTemp: row.record_low_temp ?? -10,
+          highTemp: row.high_temp ?? 40,
+          stringLength: row.string_length ?? null,
+          inverterLocation: row.inverter_lng != null && row.inverter_lat != null ? [row.inverter_lng, row.inverter_lat] : null,
+          updated_at: row.updated_at,
+        });
+      }
+    };
+    fetchElectrical();
+  }, [design.id]);
+
+  // Fetch saved snapshots of this design (newest first)
+  useEffect(() => {
+    const fetchSnapshots = async () => {
+      const { data, error } = await supabase
+        .from('design_snapshots')
+        .select('*')
+        .eq('design_id', design.id)
+        .order('created_at', { ascending: false });
+      if (error) {
+        console.error("Error fetching snapshots", error);
+      } else {
+        setSnapshots((data || []).map(mapDbToSnapshot));
+      }
+    };
+    fetchSnapshots();
+  }, [design.id]);
+
   // Preload dimensions for any selected modules in current segments
   useEffect(() => {
     const ids = Array.from(new Set(fieldSegments.map((s) => s.module).filter(Boolean))) as string[];
@@ -423,6 +569,23 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
   });
   }, [fieldSegments, updateDistanceLabels]);
 
+  // Outline segments held by other editors in their colour (restyled in place, so an ongoing
+  // shape edit isn't interrupted by presence updates)
+  useEffect(() => {
+    const outlineLayer = outlineLayerRef.current;
+    if (!outlineLayer) return;
+    fieldSegments.forEach((segment) => {
+      const outline = outlineLayer.getGeometryById(`${segment.id}-outline`) as any;
+      const holder = collaboration.locks[segment.id];
+      outline?.setSymbol?.({
+        lineColor: holder ? holder.color : '#9a3412',
+        lineWidth: holder ? 4 : 2,
+        polygonOpacity: 0,
+        lineOpacity: 1,
+      });
+    });
+  }, [fieldSegments, collaboration.locks]);
+
   // Build altitude walls with 3D coordinates (no Three.js)
   useEffect(() => {
     const segmentLayer = segmentLayerRef.current;
@@ -474,211 +637,91 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
     });
   }, [fieldSegments]);
 
-  // Build time-based ground shadows (projecting the top polygon by sun vector)
+  // Shadow worker for this editor; results are cached by job inputs across re-renders
+  const shadowClientRef = useRef<ShadowWorkerClient | null>(null);
+  useEffect(() => {
+    shadowClientRef.current = createShadowWorkerClient();
+    return () => {
+      shadowClientRef.current?.dispose();
+      shadowClientRef.current = null;
+    };
+  }, []);
+
+  // Build time-based ground shadows in the worker, drawing each obstruction's result as it arrives
   useEffect(() => {
     const shadowsLayer = shadowsLayerRef.current;
-    const map = mapInstanceRef.current;
-    if (!shadowsLayer || !map) return;
+    const client = shadowClientRef.current;
+    if (!shadowsLayer || !client) return;
     shadowsLayer.clear();
+    setShadowProgress(null);
     if (!showShadows) {
       try { shadowsLayer.hide(); } catch {}
       return;
     }
     try { shadowsLayer.show(); } catch {}
 
-  // Use the same lighter transparent color for all shadow types (natural look)
-  const SHADOW_RGBA = 'rgba(0,0,0,0.01)';
-  const wallShadowSymbol = { polygonFill: SHADOW_RGBA, polygonOpacity: 1, lineOpacity: 0, lineWidth: 0 } as any;
-  const roofShadowSymbol = { polygonFill: SHADOW_RGBA, polygonOpacity: 1, lineOpacity: 0, lineWidth: 0 } as any;
-  const baseShadowSymbol = { polygonFill: SHADOW_RGBA, polygonOpacity: 1, lineOpacity: 0, lineWidth: 0 } as any;
-  const aggShadowSymbol = { polygonFill: SHADOW_RGBA, polygonOpacity: 1, lineOpacity: 0, lineWidth: 0 } as any;
-
     const { coordinates } = project || {} as any;
     const lat = coordinates?.lat; const lng = coordinates?.lng;
     if (typeof lat !== 'number' || typeof lng !== 'number') return;
 
-    const toDateAtTime = (dateStr?: string, timeStr?: string) => {
-      const base = dateStr ? new Date(dateStr) : new Date();
-      // If time missing, default to noon
-      const [hh = '12', mm = '00'] = (timeStr || '12:00').split(':');
-      const d = new Date(base.getFullYear(), base.getMonth(), base.getDate(), parseInt(hh), parseInt(mm), 0);
-      return d;
-    };
+    // Use the same lighter transparent color for all shadow types (natural look)
+    const SHADOW_RGBA = 'rgba(0,0,0,0.01)';
+    const shadowSymbol = { polygonFill: SHADOW_RGBA, polygonOpacity: 1, lineOpacity: 0, lineWidth: 0 } as any;
 
-  // Helpers: prefer explicit Start Time, and optional End Time
-  const getStartTime = (seg: any) => (seg?.startTime || seg?.timeOfDay || '10:00');
-  // Default end time fallback ensures interval shadows appear even if DB field is missing
-  const getEndTime = (seg: any) => (seg?.endTime || '16:00');
-  const parseHHmmToMinutes = (t: string) => {
-    const [h, m] = (t || '').split(':').map((n) => parseInt(n));
-    if (isNaN(h)) return 0;
-    return h * 60 + (isNaN(m) ? 0 : m);
-  };
+    const jobs: ShadowJob[] = [];
+    const addJob = (job: Omit<ShadowJob, 'key' | 'timeZone'>) => {
+      const full = { ...job, timeZone: siteTimeZone };
+      jobs.push({ ...full, key: shadowJobKey(full) });
+    };
 
     fieldSegments.forEach((segment) => {
-      const geom = maptalks.Geometry.fromJSON(segment.geometry as { [key: string]: any } | { [key: string]: any }[]) as any;
-      const poly = Array.isArray(geom) ? geom[0] : geom;
-      if (!poly || !poly.getShell) return;
-      const shell: maptalks.Coordinate[] = poly.getShell();
-
-      // Build turf polygons for a given time
-      const buildTurfPolysAtTime = (timeStr: string): any[] => {
-        const out: any[] = [];
-        const dateStr = (segment as any).analysisDate || dec22ThisYear();
-        const dt = toDateAtTime(dateStr, timeStr);
-
-        let sunAz = 0; let sunAlt = 0;
-        try {
-          const pos = (SunCalc as any).getPosition?.(dt, lat, lng) || SunCalc.getPosition(dt, lat, lng);
-          sunAz = pos.azimuth || 0;
-          sunAlt = pos.altitude || 0;
-        } catch {}
-        if (sunAlt <= 0) return out;
-
-        const feet = (segment as any).surfaceHeight ?? (segment as any).surface_height ?? 0;
-        const rackingFeet = (segment as any).rackingHeight ?? (segment as any).racking_height ?? 0;
-        const parapetFeet = (segment as any).parapetHeight ?? (segment as any).parapet_height ?? 0;
-        const segHeightM = (feet + rackingFeet + parapetFeet) * 0.3048;
-        if (!isFinite(segHeightM) || segHeightM <= 0) return out;
-
-        const rawLen = segHeightM / Math.tan(sunAlt);
-        const segShadowLen = Math.max(0, Math.min(500, rawLen));
-        const sunBearingFromNorth = ((sunAz * 180 / Math.PI) + 180 + 360) % 360;
-        const shadowBearing = (sunBearingFromNorth + 180) % 360;
-
-        // Base poly
-        const baseRing: [number, number][] = shell.map((c) => [c.x, c.y]);
-        const basePoly = turf.polygon([baseRing[0][0] !== baseRing[baseRing.length - 1][0] || baseRing[0][1] !== baseRing[baseRing.length - 1][1] ? [...baseRing, baseRing[0]] as any : baseRing as any]);
-        out.push(basePoly);
-
-        // Shifted ring
-        const shiftedRing: [number, number][] = shell.map((c) => {
-          const dest = turf.destination([c.x, c.y] as any, segShadowLen, shadowBearing, { units: 'meters' });
-          return dest.geometry.coordinates as [number, number];
-        });
-        const roofPoly = turf.polygon([shiftedRing[0][0] !== shiftedRing[shiftedRing.length - 1][0] || shiftedRing[0][1] !== shiftedRing[shiftedRing.length - 1][1] ? [...shiftedRing, shiftedRing[0]] as any : shiftedRing as any]);
-        out.push(roofPoly);
-
-        // Wall quads (include closing edge)
-        for (let i = 0; i < shell.length; i++) {
-          const ni = (i + 1) % shell.length;
-          const a = shell[i];
-          const b = shell[ni];
-          const [axp, ayp] = shiftedRing[i];
-          const [bxp, byp] = shiftedRing[ni];
-          const ring: [number, number][] = [
-            [a.x, a.y], [b.x, b.y], [bxp, byp], [axp, ayp], [a.x, a.y]
-          ];
-          out.push(turf.polygon([ring]));
-        }
-        return out;
-      };
-
-      const drawAtTime = (timeStr: string) => {
-        const dateStr = (segment as any).analysisDate || dec22ThisYear();
-        const dt = toDateAtTime(dateStr, timeStr);
-
-        let sunAz = 0;
-        let sunAlt = 0;
-        try {
-          const pos = (SunCalc as any).getPosition?.(dt, lat, lng) || SunCalc.getPosition(dt, lat, lng);
-          sunAz = pos.azimuth || 0;
-          sunAlt = pos.altitude || 0;
-        } catch {}
-        if (sunAlt <= 0) return;
-
-        const feet = (segment as any).surfaceHeight ?? (segment as any).surface_height ?? 0;
-        const rackingFeet = (segment as any).rackingHeight ?? (segment as any).racking_height ?? 0;
-        const parapetFeet = (segment as any).parapetHeight ?? (segment as any).parapet_height ?? 0;
-        const segHeightM = (feet + rackingFeet + parapetFeet) * 0.3048;
-        if (!isFinite(segHeightM) || segHeightM <= 0) return;
-
-        const rawLen = segHeightM / Math.tan(sunAlt);
-        const segShadowLen = Math.max(0, Math.min(500, rawLen));
-        const sunBearingFromNorth = ((sunAz * 180 / Math.PI) + 180 + 360) % 360;
-        const shadowBearing = (sunBearingFromNorth + 180) % 360;
-
-        const basePoly = new maptalks.Polygon([shell.map((c) => new maptalks.Coordinate(c.x, c.y))], { symbol: baseShadowSymbol });
-        basePoly.setProperties?.({ ...(basePoly.getProperties?.() || {}), altitude: 0 });
-        shadowsLayer.addGeometry(basePoly);
-
-        const shiftedRing: [number, number][] = shell.map((c) => {
-          const pt = turf.point([c.x, c.y]);
-          const dest = turf.destination(pt, segShadowLen, shadowBearing, { units: 'meters' });
-          const [dx, dy] = dest.geometry.coordinates as [number, number];
-          return [dx, dy];
-        });
-        const roofShadowPoly = new maptalks.Polygon([shiftedRing.map(([x, y]) => new maptalks.Coordinate(x, y))], { symbol: roofShadowSymbol });
-        roofShadowPoly.setProperties?.({ ...(roofShadowPoly.getProperties?.() || {}), altitude: 0 });
-        shadowsLayer.addGeometry(roofShadowPoly);
-
-        for (let i = 0; i < shell.length; i++) {
-          const ni = (i + 1) % shell.length;
-          const a = shell[i];
-          const b = shell[ni];
-          const [axp, ayp] = shiftedRing[i];
-          const [bxp, byp] = shiftedRing[ni];
-          const quadRing = [
-            new maptalks.Coordinate(a.x, a.y),
-            new maptalks.Coordinate(b.x, b.y),
-            new maptalks.Coordinate(bxp, byp),
-            new maptalks.Coordinate(axp, ayp),
-            new maptalks.Coordinate(a.x, a.y),
-          ];
-          const quad = new maptalks.Polygon([quadRing], { symbol: wallShadowSymbol });
-          quad.setProperties?.({ ...(quad.getProperties?.() || {}), altitude: 0 });
-          shadowsLayer.addGeometry(quad);
-        }
-      };
+      const shell = getGeometryShell(segment.geometry);
+      if (!shell) return;
+      const feet = (segment as any).surfaceHeight ?? (segment as any).surface_height ?? 0;
+      const rackingFeet = (segment as any).rackingHeight ?? (segment as any).racking_height ?? 0;
+      const parapetFeet = (segment as any).parapetHeight ?? (segment as any).parapet_height ?? 0;
+      const segHeightM = (feet + rackingFeet + parapetFeet) * 0.3048;
+      addJob({ lat, lng, ...analysisWindow(segment), stepMinutes: 1, altitude: 0, prism: { shell, heightM: segHeightM } });
+    });
 
-      // Build aggregated union across intervals between start and end (hourly)
-  const startTs = getStartTime(segment as any);
-  const endTs = getEndTime(segment as any);
-      let minutesStart = parseHHmmToMinutes(startTs || '10:00');
-      let minutesEnd = endTs ? parseHHmmToMinutes(endTs) : minutesStart;
-      if (minutesEnd < minutesStart) [minutesStart, minutesEnd] = [minutesEnd, minutesStart];
-  const STEP = 1; // minutes per step (per-minute)
-  let agg: any | null = null;
-      for (let m = minutesStart; m <= minutesEnd; m += STEP) {
-        const hh = String(Math.floor(m / 60)).padStart(2, '0');
-        const mm = String(m % 60).padStart(2, '0');
-        const ts = `${hh}:${mm}`;
-        const polys = buildTurfPolysAtTime(ts);
-        for (const p of polys) {
-          try {
-            agg = agg ? (turf.union as any)(agg, p) : p;
-          } catch {}
-        }
-      }
-      if (agg) {
-        const geom = agg.geometry;
-        const addMp = (coords: any[][]) => {
-          const rings = coords.map((ring) => ring.map(([x, y]: [number, number]) => new maptalks.Coordinate(x, y)));
-          const poly = new maptalks.Polygon(rings, { symbol: aggShadowSymbol });
-          poly.setProperties?.({ ...(poly.getProperties?.() || {}), altitude: 0 });
-          shadowsLayer.addGeometry(poly);
-        };
-        if (geom.type === 'Polygon') {
-          addMp(geom.coordinates as any);
-        } else if (geom.type === 'MultiPolygon') {
-          for (const part of geom.coordinates as any[]) addMp(part);
-        }
-      }
+    // Keepouts shade the surface they sit on, using that segment's analysis window
+    keepouts.forEach((keepout) => {
+      const shell = keepoutRing(keepout);
+      if (!shell) return;
+      const base = keepoutBaseSegment(keepout, fieldSegments);
+      addJob({
+        lat, lng, ...analysisWindow(base ?? fieldSegments[0]), stepMinutes: 1,
+        altitude: feetToMeters(base?.surfaceHeight ?? 0),
+        prism: { shell, heightM: feetToMeters(keepout.height || 0) },
+      });
+    });
 
-      // Draw each hour's shadow between start and end (inclusive)
-      for (let m = minutesStart; m <= minutesEnd; m += STEP) {
-        const hh = String(Math.floor(m / 60)).padStart(2, '0');
-        const mm = String(m % 60).padStart(2, '0');
-        const ts = `${hh}:${mm}`;
-        drawAtTime(ts);
-      }
+    // Tree crowns use the first segment's window; crown hulls are heavier than prism quads, so step 5 minutes
+    trees.forEach((tree) => {
+      addJob({ lat, lng, ...analysisWindow(fieldSegments[0]), stepMinutes: 5, altitude: 0, tree });
     });
 
-    try { shadowsLayer.bringToBack(); } catch {}
-  }, [fieldSegments, showShadows, project, dec22ThisYear]);
+    if (!jobs.length) return;
+    const addPolygon = (rings: [number, number][][], altitude: number, symbol: any) => {
+      const poly = new maptalks.Polygon(rings.map((ring) => ring.map(([x, y]) => new maptalks.Coordinate(x, y))), { symbol });
+      poly.setProperties?.({ ...(poly.getProperties?.() || {}), altitude });
+      shadowsLayer.addGeometry(poly);
+    };
+    let done = 0;
+    setShadowProgress({ done, total: jobs.length });
+    return client.run(jobs, (result) => {
+      const symbol = result.opacity < 1 ? { ...shadowSymbol, polygonOpacity: result.opacity } : shadowSymbol;
+      result.aggregate.forEach((rings) => addPolygon(rings, result.altitude, symbol));
+      result.steps.forEach((rings) => addPolygon(rings, result.altitude, symbol));
+      try { shadowsLayer.bringToBack(); } catch {}
+      done += 1;
+      setShadowProgress({ done, total: jobs.length });
+    }, () => setShadowProgress(null));
+  }, [fieldSegments, keepouts, trees, showShadows, project, siteTimeZone]);
 
   const handleMouseMove = useCallback((e: any) => {
-    if (activeTool !== 'draw' || !mapInstanceRef.current || !drawToolRef.current) return;
+    if ((activeTool !== 'draw' && activeTool !== 'draw-keepout') || !mapInstanceRef.current || !drawToolRef.current) return;
+    if ((drawToolRef.current as any).getMode?.() !== 'polygon') return;
     const map = mapInstanceRef.current;
     const drawTool = drawToolRef.current as any;
     const mouseCoord = e.coordinate;
@@ -864,6 +907,62 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
         labelLayerRef.current.removeGeometry(tempGeometries);
       }
       if (!e.geometry) return;
+      if (drawTargetRef.current === 'inverter') {
+        drawingIdRef.current = null;
+        const c = e.geometry.getCoordinates?.();
+        setActiveTool('none');
+        if (!c || typeof c.x !== 'number' || typeof c.y !== 'number') return;
+        electricalDirtyRef.current = true;
+        setElectricalConfig(prev => ({ ...prev, inverterLocation: [c.x, c.y] }));
+        return;
+      }
+      if (drawTargetRef.current === 'tree') {
+        drawingIdRef.current = null;
+        const c = e.geometry.getCoordinates?.();
+        setActiveTool('none');
+        if (!c || typeof c.x !== 'number' || typeof c.y !== 'number') return;
+        const { data: insertedTree, error: treeError } = await supabase.from('trees').insert({
+          design_id: design.id,
+          lng: c.x,
+          lat: c.y,
+          description: `Tree ${treesRef.current.length + 1}`,
+          total_height: 30,
+          canopy_height: 20,
+          canopy_radius: 10,
+          canopy_shape: 'round',
+          monthly_transparency: new Array(12).fill(0),
+        }).select().single();
+        if (treeError) {
+          console.error("Error creating tree:", treeError);
+        } else if (insertedTree) {
+          const mapped = mapDbToTree(insertedTree);
+          setTrees(prev => [...prev, mapped]);
+          setSelectedKeepoutId(null);
+          setSelectedTreeId(mapped.id);
+        }
+        return;
+      }
+      if (drawTargetRef.current === 'keepout') {
+        drawingIdRef.current = null;
+        const isCircle = e.geometry instanceof maptalks.Circle;
+        const { data: insertedKeepout, error: keepoutError } = await supabase.from('keepouts').insert({
+          design_id: design.id,
+          shape: isCircle ? 'circle' : 'polygon',
+          geometry: e.geometry.toJSON(),
+          description: `Keepout ${keepoutsRef.current.length + 1}`,
+          height: 3,
+          setback: 0,
+        }).select().single();
+        setActiveTool('none');
+        if (keepoutError) {
+          console.error("Error creating keepout:", keepoutError);
+        } else if (insertedKeepout) {
+          const mapped = mapDbToKeepout(insertedKeepout);
+          setKeepouts(prev => [...prev, mapped]);
+          setSelectedKeepoutId(mapped.id);
+        }
+        return;
+      }
       // Re-render labels on the finalized, closed geometry (includes closing edge)
       try {
         if (drawingIdRef.current) {
@@ -874,24 +973,24 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
       setIsSavingNewSegment(true);
       drawingIdRef.current = null;
 
-  const newSegmentData: any = {
+      const newSegmentData: TablesInsert<'field_segments'> = {
         design_id: design.id,
         geometry: e.geometry.toJSON(),
         area: e.geometry.getArea(),
         description: `Field Segment ${fieldSegmentsRef.current.length + 1}`,
         module: null,
         racking: 'Fixed Tilt Racking',
-        surface_height: 0, // default to 30 ft for immediate visibility
+        surface_height: 0,
         racking_height: 0,
-  parapet_height: 0,
+        parapet_height: 0,
         module_azimuth: 180,
         module_tilt: 10,
-  span_rise: 1.4,
-  gcr: 0.81,
-  time_of_day: '10:00',
-  analysis_date: dec22ThisYear(),
-  start_time: '10:00',
-  end_time: '16:00',
+        span_rise: 1.4,
+        gcr: 0.81,
+        time_of_day: '10:00',
+        analysis_date: dec22ThisYear(),
+        start_time: '10:00',
+        end_time: '16:00',
         frame_size_up: 1,
         frame_size_wide: 1,
         default_orientation: 'Landscape',
@@ -901,39 +1000,23 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
         setback: 4,
         alignment: 'center',
       };
-      const stripSun = (obj: any) => {
-        const { span_rise, gcr, time_of_day, analysis_date, start_time, end_time, parapet_height, ...rest } = obj || {};
-        return rest;
-      };
 
-      let insertedSegment: any = null;
-      let error: any = null;
-      try {
-        const res = await supabase.from('field_segments').insert(newSegmentData).select().single();
-        insertedSegment = (res as any).data;
-        error = (res as any).error;
-      } catch (err) {
-        error = err;
-      }
-      if (error && String(error.message || error.details || '').toLowerCase().includes('column')) {
-        const res2 = await supabase.from('field_segments').insert(stripSun(newSegmentData)).select().single();
-        insertedSegment = (res2 as any).data;
-        error = (res2 as any).error;
-      }
+      const created = await insertSegment(newSegmentData).catch((error) => {
+        console.error("Error creating field segment:", error);
+        return null;
+      });
 
       setIsSavingNewSegment(false);
       setActiveTool('none');
 
-  if (error) {
-        console.error("Error creating field segment:", error);
-      } else if (insertedSegment) {
-        const mapped = mapDbToSegment(insertedSegment);
-        setFieldSegments(prev => [...prev, mapped]);
-        setSelectedSegmentId(mapped.id);
+      if (created) {
+        setFieldSegments(prev => [...prev, created]);
+        setSelectedSegmentId(created.id);
+        pushHistory({ label: 'Create segment', segmentId: created.id, undo: () => removeSegment(created.id), redo: () => restoreSegment(created) });
       }
       })();
     });
-  }, [updateDistanceLabels, design.id, dec22ThisYear, mapDbToSegment]);
+  }, [updateDistanceLabels, design.id, pushHistory, removeSegment, restoreSegment]);
 
   useEffect(() => {
     if (mapContainerRef.current && !mapInstanceRef.current && project.coordinates) {
@@ -955,11 +1038,17 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
   wallsLayerRef.current = new maptalks.VectorLayer('fieldWalls', { enableAltitude: true }).addTo(map);
   setbackLayerRef.current = new maptalks.VectorLayer('setbacks', { enableAltitude: true }).addTo(map);
   modulesLayerRef.current = new maptalks.VectorLayer('modules', { enableAltitude: true }).addTo(map);
+  keepoutsLayerRef.current = new maptalks.VectorLayer('keepouts', { enableAltitude: true }).addTo(map);
+  treesLayerRef.current = new maptalks.VectorLayer('trees', { enableAltitude: true }).addTo(map);
+  inverterLayerRef.current = new maptalks.VectorLayer('inverter').addTo(map);
   // Layer order: walls below top fill, outline above all
   try { shadowsLayerRef.current.bringToBack(); } catch {}
   segmentLayerRef.current.bringToFront();
   try { setbackLayerRef.current.bringToFront(); } catch {}
   try { modulesLayerRef.current.bringToFront(); } catch {}
+  try { keepoutsLayerRef.current.bringToFront(); } catch {}
+  try { treesLayerRef.current.bringToFront(); } catch {}
+  try { inverterLayerRef.current.bringToFront(); } catch {}
   outlineLayerRef.current.bringToFront();
   // Keep labels above everything else (z-index-like) without moving them
   try { labelLayerRef.current.bringToFront(); } catch {}
@@ -974,17 +1063,119 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
     }
   }, [project.coordinates, setupDrawingListeners]);
 
-  // Helper to convert maptalks polygon to turf polygon (ensuring closed ring)
-  const toTurfPolygon = (poly: maptalks.Polygon) => {
-    const shell = poly.getShell();
-    const ring: [number, number][] = shell.map((c) => [c.x, c.y]);
-    if (ring.length && (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1])) {
-      ring.push([ring[0][0], ring[0][1]]);
-    }
-    return turf.polygon([ring]);
-  };
+  // Keepout footprints (with setback) overlapping each segment
+  const segmentKeepouts = useMemo(() => {
+    const out: Record<string, any[]> = {};
+    fieldSegments.forEach((segment) => { out[segment.id] = segmentObstacles(segment, keepouts); });
+    return out;
+  }, [fieldSegments, keepouts]);
+
+  // Module nameplate (W) by module id, preferring the parsed PAN value
+  const modulePnom = useMemo(() => {
+    const out: Record<string, number> = {};
+    modules.forEach((m) => { out[m.id] = moduleParamsFromParsed(m, moduleParsed[m.id])?.pnom ?? m.pnom ?? 0; });
+    return out;
+  }, [modules, moduleParsed]);
+
+  // Auto-layout placements per segment (recomputed when segments, keepouts or module dimensions change)
+  const layoutModules = useMemo(() => {
+    const out: Record<string, PlacedModule[]> = {};
+    fieldSegments.forEach((segment) => {
+      const dims = segment.module ? moduleDims[segment.module] : undefined;
+      out[segment.id] = dims ? layoutSegmentModules(segment, dims, segmentKeepouts[segment.id]) : [];
+    });
+    return out;
+  }, [fieldSegments, moduleDims, segmentKeepouts]);
+
+  const capContext = useMemo((): LayoutCapContext => {
+    const { lat, lng } = project.coordinates ?? {};
+    return {
+      segments: fieldSegments,
+      pnom: modulePnom,
+      site: typeof lat === 'number' && typeof lng === 'number' ? { lat, lng, timeZone: siteTimeZone } : null,
+      keepouts,
+      trees,
+      inverterLocation: electricalConfig.inverterLocation,
+    };
+  }, [fieldSegments, modulePnom, project.coordinates, siteTimeZone, keepouts, trees, electricalConfig.inverterLocation]);
 
-  const meters = (ft: number) => (Number.isFinite(ft) ? ft * 0.3048 : 0);
+  // Segments whose max kWp drops the most shaded modules are ranked in their own shading worker;
+  // until the ranking for the current layout arrives they drop in row order
+  const rankClientRef = useRef<ShadingWorkerClient | null>(null);
+  useEffect(() => {
+    rankClientRef.current = createShadingWorkerClient();
+    return () => {
+      rankClientRef.current?.dispose();
+      rankClientRef.current = null;
+    };
+  }, []);
+
+  const rankScene = useMemo(() => shadingRankScene(layoutModules, capContext), [layoutModules, capContext]);
+  const rankSceneKey = useMemo(() => (rankScene ? shadingSceneKey(rankScene, SHADING_RANK_STEP_HOURS) : null), [rankScene]);
+  const [shadingRanks, setShadingRanks] = useState<{ key: string; loss: Record<string, number> } | null>(null);
+
+  useEffect(() => {
+    const client = rankClientRef.current;
+    if (!rankScene || !rankSceneKey || !client) return;
+    return client.run(rankScene, SHADING_RANK_STEP_HOURS, {
+      onResult: (result) => {
+        const loss: Record<string, number> = {};
+        result.modules.forEach((m) => { loss[moduleShadingKey(m)] = m.shadingLoss; });
+        setShadingRanks({ key: rankSceneKey, loss });
+      },
+      onError: (err) => console.error('Error ranking modules by shading:', err),
+    });
+  }, [rankScene, rankSceneKey]);
+
+  // Placements trimmed to each segment's max kWp
+  const placedModules = useMemo(() => capPlacedModules(layoutModules, {
+    ...capContext,
+    shadingLoss: shadingRanks && shadingRanks.key === rankSceneKey ? shadingRanks.loss : null,
+  }), [layoutModules, capContext, shadingRanks, rankSceneKey]);
+
+  // Module shading worker for the overlay; a change cancels the run it supersedes
+  const shadingClientRef = useRef<ShadingWorkerClient | null>(null);
+  useEffect(() => {
+    shadingClientRef.current = createShadingWorkerClient();
+    return () => {
+      shadingClientRef.current?.dispose();
+      shadingClientRef.current = null;
+    };
+  }, []);
+
+  // Annual per-module shading, recalculated (debounced) in the worker while the overlay is on
+  useEffect(() => {
+    const { lat, lng } = (project?.coordinates || {}) as any;
+    const client = shadingClientRef.current;
+    setShadingProgress(null);
+    if (!showModuleShading || !client || typeof lat !== 'number' || typeof lng !== 'number') return;
+    setShadingProgress({ done: 0, total: 0 });
+    let cancelRun: (() => void) | null = null;
+    const timer = setTimeout(() => {
+      cancelRun = client.run({ lat, lng, timeZone: siteTimeZone, segments: fieldSegments, placedModules, keepouts, trees }, 1, {
+        onProgress: setShadingProgress,
+        onResult: (result) => {
+          setModuleShading(result);
+          setShadingProgress(null);
+        },
+        onError: (err) => {
+          console.error("Error calculating module shading:", err);
+          setModuleShading(null);
+          setShadingProgress(null);
+        },
+      });
+    }, 600);
+    return () => {
+      clearTimeout(timer);
+      cancelRun?.();
+    };
+  }, [showModuleShading, fieldSegments, placedModules, keepouts, trees, project, siteTimeZone]);
+
+  const moduleShadingByKey = useMemo(() => {
+    const out: Record<string, number> = {};
+    moduleShading?.modules.forEach(m => { out[moduleShadingKey(m)] = m.shadingLoss; });
+    return out;
+  }, [moduleShading]);
 
   // Render setback overlay and auto-layout modules for each segment
   useEffect(() => {
@@ -998,221 +1189,468 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
   const setbackSymbol = { lineColor: '#f59e0b', lineWidth: 1, lineDasharray: [6, 6], polygonFill: '#fef08a', polygonOpacity: 0.45 } as any;
     const moduleSymbol = { lineColor: '#111827', lineWidth: 1, polygonFill: '#374151', polygonOpacity: 0.85 } as any;
 
-    // Build rotated rectangle given local X/Y bearings
-    const buildRotatedRect = (center: any, halfW: number, halfH: number, bearingX: number, bearingY: number): any => {
-      const minusX = turf.destination(center, halfW, (bearingX + 180) % 360, { units: 'meters' });
-      const plusX = turf.destination(center, halfW, bearingX, { units: 'meters' });
-      const tl = turf.destination(minusX, halfH, bearingY, { units: 'meters' });
-      const bl = turf.destination(minusX, halfH, (bearingY + 180) % 360, { units: 'meters' });
-      const tr = turf.destination(plusX, halfH, bearingY, { units: 'meters' });
-      const br = turf.destination(plusX, halfH, (bearingY + 180) % 360, { units: 'meters' });
-      return turf.polygon([[
-        tl.geometry.coordinates as any,
-        tr.geometry.coordinates as any,
-        br.geometry.coordinates as any,
-        bl.geometry.coordinates as any,
-        tl.geometry.coordinates as any,
-      ]]);
-    };
-
     fieldSegments.forEach((segment) => {
-      const geom = maptalks.Geometry.fromJSON(segment.geometry as any) as any;
-      const poly = Array.isArray(geom) ? (geom[0] as maptalks.Polygon) : (geom as maptalks.Polygon);
-      if (!poly || !poly.getShell) return;
-
-      // Draw setback overlay (inset polygon)
-      const turfPoly = toTurfPolygon(poly);
-      const inset = (() => {
-        try {
-          const sb = meters(segment.setback || 0);
-          if (!isFinite(sb) || sb <= 0) return turfPoly;
-          const buff = turf.buffer(turfPoly, -sb, { units: 'meters' });
-          if (!buff) return turfPoly;
-          // Handle MultiPolygon by taking the largest area piece
-          if (buff.geometry.type === 'MultiPolygon') {
-            let maxA = -Infinity; let best: any = null;
-            for (const coords of buff.geometry.coordinates) {
-              const p = turf.polygon(coords as any);
-              const a = turf.area(p);
-              if (a > maxA) { maxA = a; best = p; }
-            }
-            return best || turfPoly;
-          }
-          return buff as any;
-        } catch { return turfPoly; }
-      })();
+      // keep same altitude as segment surface
+      const z = feetToMeters(segment.surfaceHeight ?? 0);
 
+      // Draw setback overlay (inset polygon with keepouts cut out)
+      const inset = segmentLayoutArea(segment, segmentKeepouts[segment.id]);
       try {
-        const ring = (inset.geometry as any).coordinates[0] as [number, number][];
-        const insetPoly = new maptalks.Polygon([ring.map(([x, y]) => new maptalks.Coordinate(x, y))], { symbol: setbackSymbol });
-        // keep same altitude as segment surface
-        const feet = (segment as any).surfaceHeight ?? (segment as any).surface_height ?? 0;
-        const z = meters(feet);
-        insetPoly.setProperties?.({ ...(insetPoly.getProperties?.() || {}), altitude: z });
-        setbackLayer.addGeometry(insetPoly);
+        if (inset) {
+          const parts = inset.geometry.type === 'MultiPolygon' ? inset.geometry.coordinates : [inset.geometry.coordinates];
+          for (const rings of parts as [number, number][][][]) {
+            const insetPoly = new maptalks.Polygon(rings.map((ring) => ring.map(([x, y]) => new maptalks.Coordinate(x, y))), { symbol: setbackSymbol });
+            insetPoly.setProperties?.({ ...(insetPoly.getProperties?.() || {}), altitude: z });
+            setbackLayer.addGeometry(insetPoly);
+          }
+        }
       } catch {}
 
-      // If there is no module selected, skip placement
-      const moduleId = segment.module as string | null;
-      if (!moduleId) return;
-      const dims = moduleDims[moduleId];
-      if (!dims) return; // will render after dims load
-
-  const isPortrait = (segment.defaultOrientation || 'Landscape') === 'Portrait';
-  const moduleW = Math.max(0, isPortrait ? dims.height : dims.width);
-  const moduleH = Math.max(0, isPortrait ? dims.width : dims.height);
-  const moduleSpacing = (() => {
-    const msFtRaw = Number((segment as any).moduleSpacing);
-    const msFt = isFinite(msFtRaw) && msFtRaw > 0 ? msFtRaw : 0.02; // DEFAULT_GAP (ft)
-    return Math.max(0, meters(msFt));
-  })();
-  const frameSpacing = Math.max(0, meters(Number(segment.frameSpacing ?? 0) || 0));
-  const rowSpacing = Math.max(0, meters(Number(segment.rowSpacing ?? 0) || 0));
-  const sizeWide = Math.max(1, Math.floor(Number(segment.frameSizeWide ?? 1)));
-  const sizeUp = Math.max(1, Math.floor(Number(segment.frameSizeUp ?? 1)));
-  const moduleAz = Math.max(0, ((Number(segment.moduleAzimuth ?? 0) % 360) + 360) % 360);
-  // Local axes bearings
-  const bearingY = moduleAz; // along module height (azimuth)
-  const bearingX = (moduleAz + 90) % 360; // across rows
-  const frameW = sizeWide * moduleW + (sizeWide - 1) * moduleSpacing;
-  const frameH = sizeUp * moduleH + (sizeUp - 1) * moduleSpacing;
-  const stepX = frameW + frameSpacing;
-  const stepY = frameH + rowSpacing;
-
-      // Compute oriented extents in local coordinates (bearingX, bearingY)
-      const origin = turf.centroid(inset);
-      const ringCoords = ((inset.geometry as any).coordinates?.[0] || []) as [number, number][];
-      let minProjX = Infinity, maxProjX = -Infinity, minProjY = Infinity, maxProjY = -Infinity;
-      const toRad = Math.PI / 180;
-      for (const [px, py] of ringCoords) {
-        const p = turf.point([px, py]);
-        const d = turf.distance(origin, p);
-        const br = turf.bearing(origin, p);
-        const dx = d * Math.cos((br - bearingX) * toRad);
-        const dy = d * Math.cos((br - bearingY) * toRad);
-        if (dx < minProjX) minProjX = dx;
-        if (dx > maxProjX) maxProjX = dx;
-        if (dy < minProjY) minProjY = dy;
-        if (dy > maxProjY) maxProjY = dy;
+      for (const placed of placedModules[segment.id] || []) {
+        const coords = placed.ring.map(([x, y]) => new maptalks.Coordinate(x, y));
+        const loss = showModuleShading ? moduleShadingByKey[moduleShadingKey(placed)] : undefined;
+        const mpoly = new maptalks.Polygon([coords], { symbol: loss === undefined ? moduleSymbol : { ...moduleSymbol, polygonFill: shadingLossColor(loss) } });
+        mpoly.setProperties?.({ ...(mpoly.getProperties?.() || {}), altitude: z });
+        modulesLayer.addGeometry(mpoly);
       }
-      const widthM = Math.max(0, maxProjX - minProjX);
-      const heightM = Math.max(0, maxProjY - minProjY);
-      const shift = (pt: any, dist: number, brg: number) => turf.destination(pt, Math.abs(dist), dist >= 0 ? brg : (brg + 180) % 360, { units: 'meters' });
-      const southWest = shift(shift(origin, minProjY, bearingY), minProjX, bearingX);
-
-      // Start alignment across X using bbox width (approximate)
-      const leftoverX = Math.max(0, widthM - frameW);
-      let marginX = 0;
-      const align = (segment.alignment || 'center');
-      if (align === 'center') marginX = (leftoverX % stepX) / 2;
-      else if (align === 'right') marginX = (leftoverX % stepX);
-      else if (align === 'justify') marginX = (leftoverX % stepX) / 2;
-
-      const startNorth = frameH / 2;
-      const startEast = marginX + frameW / 2;
-
-      for (let yOff = startNorth; yOff <= heightM - frameH / 2 + 1e-6; yOff += stepY) {
-        const frameRowBase = turf.destination(southWest, yOff, bearingY, { units: 'meters' });
-        for (let xOff = startEast; xOff <= widthM - frameW / 2 + 1e-6; xOff += stepX) {
-          const frameCenter = turf.destination(frameRowBase, xOff, bearingX, { units: 'meters' });
-          // top-left of frame
-          const frameTopLeft = turf.destination(
-            turf.destination(frameCenter, frameW / 2, (bearingX + 180) % 360, { units: 'meters' }),
-            frameH / 2, bearingY, { units: 'meters' }
-          );
-          for (let r = 0; r < sizeUp; r++) {
-            for (let c = 0; c < sizeWide; c++) {
-              const xIn = c * (moduleW + moduleSpacing) + moduleW / 2;
-              const yIn = r * (moduleH + moduleSpacing) + moduleH / 2;
-              const alongX = turf.destination(frameTopLeft, xIn, bearingX, { units: 'meters' });
-              const center = turf.destination(alongX, yIn, (bearingY + 180) % 360, { units: 'meters' });
-              const rect = buildRotatedRect(center, moduleW / 2, moduleH / 2, bearingX, bearingY);
-              try {
-                if (turf.booleanWithin(rect, inset as any)) {
-                  const coords = (rect.geometry.coordinates[0] as [number, number][]).map(([x, y]) => new maptalks.Coordinate(x, y));
-                  const mpoly = new maptalks.Polygon([coords], { symbol: moduleSymbol });
-                  const feet = (segment as any).surfaceHeight ?? (segment as any).surface_height ?? 0;
-                  mpoly.setProperties?.({ ...(mpoly.getProperties?.() || {}), altitude: meters(feet) });
-                  modulesLayer.addGeometry(mpoly);
-                }
-              } catch {}
-            }
-          }
+    });
+  }, [fieldSegments, placedModules, segmentKeepouts, showModuleShading, moduleShadingByKey]);
+
+  // Render keepouts as extruded obstructions on the surface they sit on
+  useEffect(() => {
+    const keepoutsLayer = keepoutsLayerRef.current;
+    if (!keepoutsLayer) return;
+    keepoutsLayer.clear();
+
+    const topSymbol = { lineColor: '#7f1d1d', lineWidth: 2, polygonFill: '#ef4444', polygonOpacity: 0.55 } as any;
+    const selectedTopSymbol = { ...topSymbol, lineColor: '#facc15', lineWidth: 3 };
+    const sideSymbol = { polygonFill: '#b91c1c', polygonOpacity: 0.7, lineColor: '#7f1d1d', lineWidth: 1 } as any;
+    const setbackSymbol = { lineColor: '#ef4444', lineWidth: 1, lineDasharray: [4, 4], polygonOpacity: 0 } as any;
+
+    keepouts.forEach((keepout) => {
+      const ring = keepoutRing(keepout);
+      if (!ring) return;
+      const base = keepoutBaseSegment(keepout, fieldSegments);
+      const z0 = feetToMeters(base?.surfaceHeight ?? 0);
+      const z1 = z0 + feetToMeters(keepout.height || 0);
+
+      const top = new maptalks.Polygon([ring.map(([x, y]) => new maptalks.Coordinate(x, y))], { symbol: keepout.id === selectedKeepoutId ? selectedTopSymbol : topSymbol });
+      top.setId?.(keepout.id);
+      top.setProperties?.({ ...(top.getProperties?.() || {}), altitude: z1 });
+      top.on('click', () => { setSelectedTreeId(null); setSelectedKeepoutId(keepout.id); setActiveSidebarTab('keepouts'); });
+      keepoutsLayer.addGeometry(top);
+
+      if (z1 > z0) {
+        for (let i = 0; i < ring.length; i++) {
+          const a = ring[i];
+          const b = ring[(i + 1) % ring.length];
+          if (a[0] === b[0] && a[1] === b[1]) continue;
+          const side = new maptalks.Polygon([[
+            new maptalks.Coordinate(a[0], a[1], z1),
+            new maptalks.Coordinate(b[0], b[1], z1),
+            new maptalks.Coordinate(b[0], b[1], z0),
+            new maptalks.Coordinate(a[0], a[1], z0),
+            new maptalks.Coordinate(a[0], a[1], z1),
+          ]], { symbol: sideSymbol });
+          keepoutsLayer.addGeometry(side);
+        }
+      }
+
+      if (keepout.setback > 0) {
+        const fp = keepoutFootprint(keepout);
+        const fpRing = (fp?.geometry as any)?.coordinates?.[0] as [number, number][] | undefined;
+        if (fpRing) {
+          const sb = new maptalks.Polygon([fpRing.map(([x, y]) => new maptalks.Coordinate(x, y))], { symbol: setbackSymbol });
+          sb.setProperties?.({ ...(sb.getProperties?.() || {}), altitude: z0 });
+          keepoutsLayer.addGeometry(sb);
+        }
+      }
+    });
+  }, [keepouts, fieldSegments, selectedKeepoutId]);
+
+  // Render trees in 3D: a square trunk up to the crown, then the crown as stacked rings joined by quads
+  useEffect(() => {
+    const treesLayer = treesLayerRef.current;
+    if (!treesLayer) return;
+    treesLayer.clear();
+
+    const trunkSymbol = { polygonFill: '#78350f', polygonOpacity: 0.9, lineColor: '#451a03', lineWidth: 1 } as any;
+    const crownSymbol = { polygonFill: '#16a34a', polygonOpacity: 0.55, lineColor: '#14532d', lineWidth: 0.5 } as any;
+    const selectedCrownSymbol = { ...crownSymbol, lineColor: '#facc15', lineWidth: 1.5 };
+    const RING_STEPS = 16;
+
+    const ringAt = (center: [number, number], radius: number) =>
+      (turf.circle(center, Math.max(0.01, radius), { steps: RING_STEPS, units: 'meters' }).geometry.coordinates[0] as [number, number][]).slice(0, RING_STEPS);
+    const quad = (a: [number, number], b: [number, number], za: number, c: [number, number], d: [number, number], zc: number, symbol: any) =>
+      new maptalks.Polygon([[
+        new maptalks.Coordinate(a[0], a[1], za),
+        new maptalks.Coordinate(b[0], b[1], za),
+        new maptalks.Coordinate(c[0], c[1], zc),
+        new maptalks.Coordinate(d[0], d[1], zc),
+        new maptalks.Coordinate(a[0], a[1], za),
+      ]], { symbol });
+
+    trees.forEach((tree) => {
+      const { bottom, radius } = treeCrown(tree);
+      const select = () => { setSelectedKeepoutId(null); setSelectedTreeId(tree.id); setActiveSidebarTab('keepouts'); };
+
+      if (bottom > 0) {
+        const trunk = ringAt(tree.position, Math.max(0.15, radius * 0.08)).filter((_, i) => i % (RING_STEPS / 4) === 0);
+        for (let i = 0; i < trunk.length; i++) {
+          const a = trunk[i];
+          const b = trunk[(i + 1) % trunk.length];
+          treesLayer.addGeometry(quad(a, b, bottom, b, a, 0, trunkSymbol));
+        }
+      }
+
+      const levels = crownLevels(tree).sort((a, b) => a.z - b.z);
+      const rings = levels.map((l) => ringAt(tree.position, l.radius));
+      const symbol = tree.id === selectedTreeId ? selectedCrownSymbol : crownSymbol;
+      for (let k = 0; k + 1 < levels.length; k++) {
+        if (levels[k + 1].z <= levels[k].z) continue;
+        for (let i = 0; i < RING_STEPS; i++) {
+          const ni = (i + 1) % RING_STEPS;
+          const face = quad(rings[k][i], rings[k][ni], levels[k].z, rings[k + 1][ni], rings[k + 1][i], levels[k + 1].z, symbol);
+          face.on('click', select);
+          treesLayer.addGeometry(face);
         }
       }
     });
-  }, [fieldSegments, moduleDims, meters, toTurfPolygon]);
+  }, [trees, selectedTreeId]);
+
+  // Inverter location marker
+  useEffect(() => {
+    const layer = inverterLayerRef.current;
+    if (!layer) return;
+    layer.clear();
+    const location = electricalConfig.inverterLocation;
+    if (!location) return;
+    const marker = new maptalks.Marker(location, {
+      symbol: [
+        { markerType: 'square', markerFill: '#0891b2', markerLineColor: '#ffffff', markerLineWidth: 2, markerWidth: 18, markerHeight: 18 },
+        { textName: 'INV', textFill: '#ffffff', textSize: 8, textWeight: 'bold' },
+      ],
+    } as any);
+    marker.on('click', () => setActiveSidebarTab('electrical'));
+    layer.addGeometry(marker);
+  }, [electricalConfig.inverterLocation]);
 
   const clearCurrentShape = () => {
     if (drawToolRef.current) (drawToolRef.current as any).endDraw?.();
   };
 
   const handleDeleteSegment = async (segmentId: string) => {
+    if (readOnly || collaboration.locks[segmentId]) return;
     const originalSegments = [...fieldSegments];
+    const deleted = originalSegments.find(s => s.id === segmentId);
     setFieldSegments(prev => prev.filter(s => s.id !== segmentId));
     setSelectedSegmentId(null);
-    const { error } = await supabase.from('field_segments').delete().eq('id', segmentId);
-    if (error) {
+    try {
+      await deleteSegment(segmentId);
+    } catch (error) {
       console.error("Error deleting segment:", error);
       setFieldSegments(originalSegments);
+      return;
+    }
+    if (deleted) {
+      pushHistory({ label: 'Delete segment', segmentId, undo: () => restoreSegment(deleted), redo: () => removeSegment(segmentId) });
     }
   };
 
   const handleUpdateSegment = (id: string, data: Partial<FieldSegment>) => {
+    if (readOnly || collaboration.locks[id]) return;
+    const before = fieldSegments.find(seg => seg.id === id);
+    segmentDirtyRef.current = true;
     setFieldSegments(prev => prev.map(seg => seg.id === id ? { ...seg, ...data } : seg));
+    if (!before) return;
+    const keys = Object.keys(data) as Array<keyof FieldSegment>;
+    const previous = Object.fromEntries(keys.map(k => [k, before[k]])) as Partial<FieldSegment>;
+    pushHistory({
+      label: 'Edit segment',
+      mergeKey: `segment:${id}:${keys.slice().sort().join(',')}`,
+      segmentId: id,
+      undo: () => applySegmentPatch(id, previous),
+      redo: () => applySegmentPatch(id, data),
+    });
   };
 
+  // Collaborator holding the segment the next undo/redo would change. Locks are presence-only
+  // (client-side, nothing in the database enforces them), so a held step stays on its stack until
+  // they move on rather than overwriting their edits.
+  const undoLock = history.undoSegmentId ? collaboration.locks[history.undoSegmentId] : undefined;
+  const redoLock = history.redoSegmentId ? collaboration.locks[history.redoSegmentId] : undefined;
+
+  // Run an undo/redo step, reflecting its persistence in the saving indicator
+  const runHistoryStep = useCallback(async (direction: 'undo' | 'redo') => {
+    if (readOnly || isEditingShape) return; // finish the vertex edit first; it becomes its own step
+    if (direction === 'undo' ? undoLock : redoLock) return;
+    const step = direction === 'undo' ? history.undo : history.redo;
+    setSavingStatus('saving');
+    try {
+      const applied = await step();
+      setSavingStatus(applied ? 'saved' : 'idle');
+      if (applied) setTimeout(() => setSavingStatus('idle'), 2000);
+    } catch {
+      setSavingStatus('error');
+    }
+  }, [readOnly, isEditingShape, undoLock, redoLock, history.undo, history.redo]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their native undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      e.preventDefault();
+      runHistoryStep(e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [runHistoryStep]);
+
   const selectedSegment = fieldSegments.find(s => s.id === selectedSegmentId);
+  const selectedKeepout = keepouts.find(k => k.id === selectedKeepoutId);
+
+  const handleUpdateKeepout = (id: string, data: Partial<Keepout>) => {
+    if (readOnly) return;
+    keepoutDirtyRef.current = true;
+    setKeepouts(prev => prev.map(k => k.id === id ? { ...k, ...data } : k));
+  };
+
+  const selectedTree = trees.find(t => t.id === selectedTreeId);
+
+  const handleUpdateTree = (id: string, data: Partial<Tree>) => {
+    if (readOnly) return;
+    treeDirtyRef.current = true;
+    setTrees(prev => prev.map(t => t.id === id ? { ...t, ...data } : t));
+  };
+
+  const handleDeleteTree = async (treeId: string) => {
+    if (readOnly) return;
+    const originalTrees = [...trees];
+    setTrees(prev => prev.filter(t => t.id !== treeId));
+    setSelectedTreeId(null);
+    const { error } = await supabase.from('trees').delete().eq('id', treeId);
+    if (error) {
+      console.error("Error deleting tree:", error);
+      setTrees(originalTrees);
+    }
+  };
 
-  // Debounced auto-save effect
+  const handleDeleteKeepout = async (keepoutId: string) => {
+    if (readOnly) return;
+    const originalKeepouts = [...keepouts];
+    setKeepouts(prev => prev.filter(k => k.id !== keepoutId));
+    setSelectedKeepoutId(null);
+    const { error } = await supabase.from('keepouts').delete().eq('id', keepoutId);
+    if (error) {
+      console.error("Error deleting keepout:", error);
+      setKeepouts(originalKeepouts);
+    }
+  };
+
+  const startDrawing = (target: 'segment' | 'keepout' | 'tree' | 'inverter') => {
+    if (readOnly) return;
+    drawTargetRef.current = target;
+    setActiveTool(target === 'keepout' ? 'draw-keepout' : target === 'tree' ? 'draw-tree' : target === 'inverter' ? 'place-inverter' : 'draw');
+  };
+
+  const handleUpdateElectrical = (data: Partial<ElectricalConfig>) => {
+    if (readOnly) return;
+    electricalDirtyRef.current = true;
+    setElectricalConfig(prev => ({ ...prev, ...data }));
+  };
+
+  // String sizing and MPPT assignment for the placed layout
+  const stringingResult = useMemo(() => {
+    const inverter = inverters.find(i => i.id === electricalConfig.inverterId);
+    if (!inverter) return null;
+    const params: Record<string, StringingModuleParams | null> = {};
+    modules.forEach(m => { params[m.id] = moduleParamsFromParsed(m, moduleParsed[m.id]); });
+    return assignStrings(fieldSegments, placedModules, params, inverter, electricalConfig);
+  }, [inverters, modules, moduleParsed, fieldSegments, placedModules, electricalConfig]);
+
+  // Module count and DC nameplate of the placed layout, overall and per segment
+  const layoutStats = useMemo<LayoutStats>(() => {
+    const stats: LayoutStats = { moduleCount: 0, kwp: 0, segments: {} };
+    fieldSegments.forEach((segment) => {
+      const pnom = segment.module ? modulePnom[segment.module] ?? 0 : 0;
+      const moduleCount = placedModules[segment.id]?.length ?? 0;
+      const kwp = (moduleCount * pnom) / 1000;
+      stats.segments[segment.id] = { moduleCount, kwp };
+      stats.moduleCount += moduleCount;
+      stats.kwp += kwp;
+    });
+    return stats;
+  }, [fieldSegments, modulePnom, placedModules]);
+
+  const billOfMaterials = useMemo(() => buildBillOfMaterials({
+    segments: fieldSegments,
+    placedModules,
+    modules: Object.fromEntries(modules.map(m => [m.id, m])),
+    moduleDims,
+    inverter: inverters.find(i => i.id === electricalConfig.inverterId) ?? null,
+    stringing: stringingResult,
+    inverterLocation: electricalConfig.inverterLocation,
+  }), [fieldSegments, placedModules, modules, moduleDims, inverters, electricalConfig.inverterId, electricalConfig.inverterLocation, stringingResult]);
+
+  // The live design in snapshot form (compare target, and the payload of a new snapshot)
+  const currentSnapshot = useMemo<DesignSnapshot>(() => ({
+    id: 'current',
+    design_id: design.id,
+    name: 'Current design',
+    segments: fieldSegments,
+    keepouts,
+    trees,
+    electrical: electricalConfig,
+    stats: layoutStats,
+    created_at: new Date().toISOString(),
+  }), [design.id, fieldSegments, keepouts, trees, electricalConfig, layoutStats]);
+
+  const handleCreateSnapshot = async (name: string) => {
+    if (readOnly) return;
+    const { segments, keepouts, trees, electrical, stats } = currentSnapshot;
+    const { data, error } = await supabase
+      .from('design_snapshots')
+      .insert({ design_id: design.id, name, segments: asJson(segments), keepouts: asJson(keepouts), trees: asJson(trees), electrical: asJson(electrical), stats: asJson(stats) })
+      .select()
+      .single();
+    if (error) {
+      console.error("Error saving snapshot:", error);
+      throw error;
+    }
+    setSnapshots(prev => [mapDbToSnapshot(data), ...prev]);
+  };
+
+  const handleDeleteSnapshot = async (snapshotId: string) => {
+    if (readOnly) return;
+    const originalSnapshots = [...snapshots];
+    setSnapshots(prev => prev.filter(s => s.id !== snapshotId));
+    const { error } = await supabase.from('design_snapshots').delete().eq('id', snapshotId);
+    if (error) {
+      console.error("Error deleting snapshot:", error);
+      setSnapshots(originalSnapshots);
+    }
+  };
+
+  // Replace the live design with a snapshot; the RPC swaps all rows in one transaction
+  const handleRestoreSnapshot = async (snapshot: DesignSnapshot) => {
+    if (readOnly) return;
+    [debounceTimeoutRef, keepoutDebounceRef, treeDebounceRef, electricalDebounceRef].forEach(ref => {
+      if (ref.current) clearTimeout(ref.current);
+    });
+    setSavingStatus('saving');
+    const { error } = await supabase.rpc('restore_design_snapshot', snapshotRestoreArgs(snapshot));
+    if (error) {
+      console.error("Error restoring snapshot:", error);
+      setSavingStatus('error');
+      throw error;
+    }
+    segmentDirtyRef.current = false;
+    keepoutDirtyRef.current = false;
+    treeDirtyRef.current = false;
+    electricalDirtyRef.current = false;
+    setSelectedSegmentId(null);
+    setSelectedKeepoutId(null);
+    setSelectedTreeId(null);
+    setFieldSegments(snapshot.segments);
+    setKeepouts(snapshot.keepouts);
+    setTrees(snapshot.trees);
+    setElectricalConfig(snapshot.electrical ? { ...snapshot.electrical, inverterLocation: snapshot.electrical.inverterLocation ?? null, design_id: design.id } : {
+      design_id: design.id,
+      inverterId: null,
+      recordLowTemp: -10,
+      highTemp: 40,
+      stringLength: null,
+      inverterLocation: null,
+    });
+    // Earlier steps refer to rows the restore replaced
+    history.clear();
+    setSavingStatus('saved');
+    setTimeout(() => setSavingStatus('idle'), 2000);
+  };
+
+  // Debounced auto-save of the electrical configuration (only after a user edit)
   useEffect(() => {
-    if (!selectedSegment) return;
+    if (readOnly || !electricalDirtyRef.current) return;
+    if (electricalDebounceRef.current) clearTimeout(electricalDebounceRef.current);
 
-    if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
-    
     setSavingStatus('saving');
 
-    debounceTimeoutRef.current = setTimeout(async () => {
-      const { id, created_at, updated_at, design_id, geometry, area, ...rest } = selectedSegment;
-      const payload = {
-          description: rest.description,
-          module: rest.module,
-          racking: rest.racking,
-          surface_height: rest.surfaceHeight,
-          racking_height: rest.rackingHeight,
-          parapet_height: rest.parapetHeight,
-          module_azimuth: rest.moduleAzimuth,
-          module_tilt: rest.moduleTilt,
-          span_rise: rest.spanRise,
-          gcr: rest.gcr,
-          time_of_day: rest.timeOfDay,
-          analysis_date: rest.analysisDate,
-          start_time: rest.startTime,
-          end_time: rest.endTime,
-          frame_size_up: rest.frameSizeUp,
-          frame_size_wide: rest.frameSizeWide,
-          default_orientation: rest.defaultOrientation,
-          row_spacing: rest.rowSpacing,
-          module_spacing: rest.moduleSpacing,
-          frame_spacing: rest.frameSpacing,
-          setback: rest.setback,
-          alignment: rest.alignment
-      };
+    electricalDebounceRef.current = setTimeout(async () => {
+      const { error } = await supabase.from('electrical_configs').upsert({
+        design_id: design.id,
+        inverter_id: electricalConfig.inverterId,
+        record_low_temp: electricalConfig.recordLowTemp,
+        high_temp: electricalConfig.highTemp,
+        string_length: electricalConfig.stringLength,
+        inverter_lng: electricalConfig.inverterLocation?.[0] ?? null,
+        inverter_lat: electricalConfig.inverterLocation?.[1] ?? null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'design_id' });
+      if (error) {
+        console.error("Error saving electrical config:", error);
+        setSavingStatus('error');
+      } else {
+        setSavingStatus('saved');
+        setTimeout(() => setSavingStatus('idle'), 2000);
+      }
+    }, 1500);
 
-      const stripSun = (obj: any) => {
-        const { span_rise, gcr, time_of_day, analysis_date, start_time, end_time, parapet_height, ...rest } = obj || {};
-        return rest;
-      };
+    return () => {
+      if (electricalDebounceRef.current) clearTimeout(electricalDebounceRef.current);
+    };
+  }, [electricalConfig, design.id, readOnly]);
+
+  // Debounced auto-save of the selected keepout (only after a user edit)
+  useEffect(() => {
+    if (readOnly || !selectedKeepout || !keepoutDirtyRef.current) return;
+    if (keepoutDebounceRef.current) clearTimeout(keepoutDebounceRef.current);
+
+    setSavingStatus('saving');
 
-      let updErr: any = null;
-      let res: any = await supabase.from('field_segments').update(payload).eq('id', selectedSegment.id);
-      updErr = (res as any).error;
-      if (updErr && String(updErr.message || updErr.details || '').toLowerCase().includes('column')) {
-        res = await supabase.from('field_segments').update(stripSun(payload)).eq('id', selectedSegment.id);
-        updErr = (res as any).error;
+    keepoutDebounceRef.current = setTimeout(async () => {
+      keepoutDirtyRef.current = false;
+      const { error } = await supabase.from('keepouts').update({
+        description: selectedKeepout.description,
+        height: selectedKeepout.height,
+        setback: selectedKeepout.setback,
+        updated_at: new Date().toISOString(),
+      }).eq('id', selectedKeepout.id);
+      if (error) {
+        console.error("Error updating keepout:", error);
+        setSavingStatus('error');
+      } else {
+        setSavingStatus('saved');
+        setTimeout(() => setSavingStatus('idle'), 2000);
       }
-      if (updErr) {
-  console.error("Error updating segment:", updErr);
+    }, 1500);
+
+    return () => {
+      if (keepoutDebounceRef.current) clearTimeout(keepoutDebounceRef.current);
+    };
+  }, [selectedKeepout, readOnly]);
+
+  // Debounced auto-save of the selected tree (only after a user edit)
+  useEffect(() => {
+    if (readOnly || !selectedTree || !treeDirtyRef.current) return;
+    if (treeDebounceRef.current) clearTimeout(treeDebounceRef.current);
+
+    setSavingStatus('saving');
+
+    treeDebounceRef.current = setTimeout(async () => {
+      treeDirtyRef.current = false;
+      const { error } = await supabase.from('trees').update({
+        description: selectedTree.description,
+        total_height: selectedTree.totalHeight,
+        canopy_height: selectedTree.canopyHeight,
+        canopy_radius: selectedTree.canopyRadius,
+        canopy_shape: selectedTree.canopyShape,
+        monthly_transparency: selectedTree.monthlyTransparency,
+        updated_at: new Date().toISOString(),
+      }).eq('id', selectedTree.id);
+      if (error) {
+        console.error("Error updating tree:", error);
         setSavingStatus('error');
       } else {
         setSavingStatus('saved');
@@ -1220,10 +1658,36 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
       }
     }, 1500);
 
+    return () => {
+      if (treeDebounceRef.current) clearTimeout(treeDebounceRef.current);
+    };
+  }, [selectedTree, readOnly]);
+
+  // Debounced auto-save of the selected segment (only after a user edit)
+  useEffect(() => {
+    if (readOnly || !selectedSegment || !segmentDirtyRef.current) return;
+
+    if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
+    
+    setSavingStatus('saving');
+
+    debounceTimeoutRef.current = setTimeout(async () => {
+      segmentDirtyRef.current = false;
+      const { id, created_at, updated_at, design_id, geometry, area, ...rest } = selectedSegment;
+      try {
+        await updateSegment(id, rest);
+        setSavingStatus('saved');
+        setTimeout(() => setSavingStatus('idle'), 2000);
+      } catch (error) {
+        console.error("Error updating segment:", error);
+        setSavingStatus('error');
+      }
+    }, 1500);
+
     return () => {
       if (debounceTimeoutRef.current) clearTimeout(debounceTimeoutRef.current);
     };
-  }, [selectedSegment]);
+  }, [selectedSegment, readOnly]);
 
   useEffect(() => {
     const map = mapInstanceRef.current;
@@ -1235,6 +1699,13 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
       map.getContainer().style.cursor = 'crosshair';
       map.on('mousemove', handleMouseMove);
       drawTool.setMode('Polygon').enable();
+    } else if (activeTool === 'draw-keepout' && !isCtrlDown) {
+      map.getContainer().style.cursor = 'crosshair';
+      map.on('mousemove', handleMouseMove);
+      drawTool.setMode(keepoutShape === 'circle' ? 'Circle' : 'Polygon').enable();
+    } else if ((activeTool === 'draw-tree' || activeTool === 'place-inverter') && !isCtrlDown) {
+      map.getContainer().style.cursor = 'crosshair';
+      drawTool.setMode('Point').enable();
     }
     // Attach edit handlers to existing polygons
     segmentLayer.getGeometries().forEach((geom: any) => {
@@ -1249,10 +1720,7 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
         });
         geom.on('editend', async () => {
           try { updateDistanceLabels(geom, selectedSegmentId!); } catch {}
-          const updatedGeometry = geom.toJSON();
-          const updatedArea = geom.getArea?.() || 0;
-          setFieldSegments(prev => prev.map(s => s.id === selectedSegmentId ? { ...s, geometry: updatedGeometry, area: updatedArea } : s));
-          try { await supabase.from('field_segments').update({ geometry: updatedGeometry, area: updatedArea }).eq('id', selectedSegmentId); } catch {}
+          await commitSegmentGeometry(selectedSegmentId!, geom.toJSON(), geom.getArea?.() || 0);
         });
       } else {
         try { if (geom.isEditing()) geom.endEdit(); } catch {}
@@ -1270,16 +1738,29 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
       if (ghostMarkerRef.current) ghostMarkerRef.current.remove();
       clearCurrentShape();
     };
-  }, [activeTool, isCtrlDown, handleMouseMove, isEditingShape, selectedSegmentId, updateDistanceLabels]);
+  }, [activeTool, isCtrlDown, handleMouseMove, isEditingShape, selectedSegmentId, updateDistanceLabels, keepoutShape, commitSegmentGeometry]);
 
   const sidebarTabs = [
     { id: 'mechanical', label: 'Mechanical', icon: LayoutGrid },
     { id: 'keepouts', label: 'Keepouts', icon: Crosshair },
     { id: 'electrical', label: 'Electrical', icon: GitBranch },
+    { id: 'materials', label: 'Materials', icon: ClipboardList },
+    { id: 'snapshots', label: 'Snapshots', icon: History },
     { id: 'advanced', label: 'Advanced', icon: PlusCircle },
   ];
 
   const renderSavingStatus = () => {
+    if (readOnly) return <><Eye className="w-4 h-4" /><span>View only</span></>;
+    const changes = (n: number) => `${n} pending change${n === 1 ? '' : 's'}`;
+    if (syncStatus.conflicts > 0) {
+      return (
+        <button onClick={clearSyncConflicts} title="Some changes made offline were discarded because the same fields were changed on the server. Reload to see the server version." className="text-amber-600 hover:underline">
+          {syncStatus.conflicts} offline change{syncStatus.conflicts === 1 ? '' : 's'} not applied
+        </button>
+      );
+    }
+    if (!syncStatus.online) return <><WifiOff className="w-4 h-4" /><span>Offline — {changes(syncStatus.pending)}</span></>;
+    if (syncStatus.pending > 0) return <><Loader2 className="w-4 h-4 animate-spin" /><span>Syncing {changes(syncStatus.pending)}...</span></>;
     switch(savingStatus) {
       case 'saving': return <><Loader2 className="w-4 h-4 animate-spin" /><span>Saving...</span></>;
       case 'saved': return <><Check className="w-4 h-4" /><span>Saved</span></>;
@@ -1303,7 +1784,50 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
                 onChange={(e) => setShowShadows(e.target.checked)}
               />
               <span>Field Segment Shadows</span>
+              {showShadows && shadowProgress && (
+                <span className="flex items-center space-x-1 text-xs text-gray-500">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  <span>{shadowProgress.done}/{shadowProgress.total}</span>
+                </span>
+              )}
             </label>
+            <p className="text-xs text-gray-500 ml-6">Times in site time ({siteTimeZone})</p>
+            <label htmlFor="toggle-module-shading" className="flex items-center space-x-2 text-sm text-gray-800 mt-1">
+              <input
+                id="toggle-module-shading"
+                type="checkbox"
+                className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                checked={showModuleShading}
+                onChange={(e) => setShowModuleShading(e.target.checked)}
+              />
+              <span>Module Shading</span>
+              {showModuleShading && shadingProgress && (
+                <span className="flex items-center space-x-1 text-xs text-gray-500">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  {shadingProgress.total > 0 && <span>{Math.round((shadingProgress.done / shadingProgress.total) * 100)}%</span>}
+                </span>
+              )}
+            </label>
+            {showModuleShading && moduleShading && (
+              <div className="mt-2 p-2 bg-gray-50 rounded-md text-xs text-gray-700">
+                <div className="flex justify-between">
+                  <span>Annual shading loss</span>
+                  <span className="font-semibold">{(moduleShading.shadingLoss * 100).toFixed(1)}%</span>
+                </div>
+                <div className="flex justify-between mb-2">
+                  <span>Solar access</span>
+                  <span className="font-semibold">{(moduleShading.solarAccess * 100).toFixed(1)}%</span>
+                </div>
+                <div className="flex flex-wrap gap-x-3 gap-y-1">
+                  {SHADING_LEGEND.map(b => (
+                    <span key={b.label} className="flex items-center space-x-1">
+                      <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: b.color }} />
+                      <span>{b.label}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
 
           {activeTool === 'draw' ? (
@@ -1323,22 +1847,29 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
               onStartEdit={beginEditSelected}
               onStopEdit={endEditSelected}
               moduleOptions={modules.map(m => ({ value: m.id, label: `${m.manufacturer} ${m.model}` }))}
+              stats={layoutStats.segments[selectedSegment.id]}
+              moduleDims={selectedSegment.module ? moduleDims[selectedSegment.module] : undefined}
+              site={project.coordinates ? { ...project.coordinates, timeZone: siteTimeZone } : undefined}
+              lockedBy={selectedSegmentLock}
+              readOnly={readOnly}
             />
           ) : (
             <>
               <div className="flex justify-between items-center mb-3">
                 <h3 className="font-bold text-gray-800">Field Segments</h3>
-                <button onClick={() => setActiveTool('draw')} className="bg-orange-500 text-white px-3 py-1 rounded-md text-sm font-semibold hover:bg-orange-600 flex items-center space-x-1">
-                  <Plus className="w-4 h-4" />
-                  <span>New</span>
-                </button>
+                {!readOnly && (
+                  <button onClick={() => startDrawing('segment')} className="bg-orange-500 text-white px-3 py-1 rounded-md text-sm font-semibold hover:bg-orange-600 flex items-center space-x-1">
+                    <Plus className="w-4 h-4" />
+                    <span>New</span>
+                  </button>
+                )}
               </div>
               <div className="border-t pt-4">
                 {isLoading ? (
                   <div className="text-center py-6 text-sm text-gray-500">Loading...</div>
                 ) : fieldSegments.length === 0 ? (
                   <div className="text-center py-6 text-sm text-gray-500">
-                    <a href="#" onClick={(e) => { e.preventDefault(); setActiveTool('draw'); }} className="text-blue-600 hover:underline">Add a field segment</a> to get started
+                    {readOnly ? 'No field segments' : <><a href="#" onClick={(e) => { e.preventDefault(); startDrawing('segment'); }} className="text-blue-600 hover:underline">Add a field segment</a> to get started</>}
                   </div>
                 ) : (
                   <div className="space-y-2">
@@ -1348,10 +1879,17 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
                         onClick={() => setSelectedSegmentId(seg.id)}
                         className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded-md hover:bg-gray-100 cursor-pointer"
                       >
-                        <span>{seg.description}</span>
-                        <button onClick={(e) => { e.stopPropagation(); handleDeleteSegment(seg.id); }} className="p-1 text-gray-500 hover:text-red-600 rounded-full hover:bg-red-100">
-                          <Trash2 className="w-4 h-4" />
-                        </button>
+                        <span className="flex items-center space-x-2">
+                          {collaboration.locks[seg.id] && (
+                            <span title={`${collaboration.locks[seg.id].name} is editing`} className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: collaboration.locks[seg.id].color }} />
+                          )}
+                          <span>{seg.description}</span>
+                        </span>
+                        {!readOnly && (
+                          <button onClick={(e) => { e.stopPropagation(); handleDeleteSegment(seg.id); }} disabled={!!collaboration.locks[seg.id]} className="p-1 text-gray-500 hover:text-red-600 rounded-full hover:bg-red-100 disabled:opacity-40 disabled:cursor-not-allowed">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -1362,28 +1900,174 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
         </>
       );
     } else if (activeSidebarTab === 'keepouts') {
+      if (activeTool === 'draw-keepout') {
+        return (
+          <div className="p-4 h-full flex flex-col">
+            <h3 className="font-bold text-gray-800 mb-2">Create New Keepout</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {keepoutShape === 'circle'
+                ? 'Click the center of the obstruction on the map and drag out its radius.'
+                : 'Click on the map to outline the obstruction. Modules are never placed on a keepout.'}
+            </p>
+            <div className="flex space-x-2 mb-4">
+              <button onClick={() => setActiveTool('none')} className="flex-1 px-3 py-2 bg-gray-200 text-gray-800 rounded-md text-sm font-semibold hover:bg-gray-300 flex items-center justify-center space-x-2">
+                <ArrowLeft className="w-4 h-4" />
+                <span>Back</span>
+              </button>
+              <button onClick={clearCurrentShape} className="flex-1 px-3 py-2 bg-gray-200 text-gray-800 rounded-md text-sm font-semibold hover:bg-gray-300 flex items-center justify-center space-x-2">
+                <Trash2 className="w-4 h-4" />
+                <span>Clear Shape</span>
+              </button>
+            </div>
+          </div>
+        );
+      }
+      if (activeTool === 'draw-tree') {
+        return (
+          <div className="p-4 h-full flex flex-col">
+            <h3 className="font-bold text-gray-800 mb-2">Place New Tree</h3>
+            <p className="text-sm text-gray-600 mb-4">Click the trunk position on the map. Crown size and seasonal transparency can be set afterwards.</p>
+            <button onClick={() => setActiveTool('none')} className="px-3 py-2 bg-gray-200 text-gray-800 rounded-md text-sm font-semibold hover:bg-gray-300 flex items-center justify-center space-x-2">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Back</span>
+            </button>
+          </div>
+        );
+      }
+      if (selectedTree) {
+        return (
+          <TreePanel
+            tree={selectedTree}
+            onBack={() => setSelectedTreeId(null)}
+            onDelete={handleDeleteTree}
+            onUpdate={handleUpdateTree}
+            readOnly={readOnly}
+          />
+        );
+      }
+      if (selectedKeepout) {
+        return (
+          <KeepoutPanel
+            keepout={selectedKeepout}
+            onBack={() => setSelectedKeepoutId(null)}
+            onDelete={handleDeleteKeepout}
+            onUpdate={handleUpdateKeepout}
+            readOnly={readOnly}
+          />
+        );
+      }
       return (
         <>
           <div className="flex justify-between items-center mb-3">
             <h3 className="font-bold text-gray-800">Keepouts</h3>
-            <div className="flex space-x-2"> {/* Added a div to group buttons */}
-              <button onClick={() => alert('Add Keepout functionality coming soon!')} className="bg-orange-500 text-white px-3 py-1 rounded-md text-sm font-semibold hover:bg-orange-600 flex items-center space-x-1">
+            {!readOnly && <div className="flex space-x-2"> {/* Added a div to group buttons */}
+              <button onClick={() => startDrawing('keepout')} className="bg-orange-500 text-white px-3 py-1 rounded-md text-sm font-semibold hover:bg-orange-600 flex items-center space-x-1">
                 <Plus className="w-4 h-4" />
                 <span>Keepout</span>
               </button>
-              <button onClick={() => alert('Add Tree functionality coming soon!')} className="bg-orange-500 text-white px-3 py-1 rounded-md text-sm font-semibold hover:bg-orange-600 flex items-center space-x-1">
+              <button onClick={() => startDrawing('tree')} className="bg-orange-500 text-white px-3 py-1 rounded-md text-sm font-semibold hover:bg-orange-600 flex items-center space-x-1">
                 <Plus className="w-4 h-4" />
                 <span>Tree</span>
               </button>
-            </div>
+            </div>}
           </div>
+          {!readOnly && <div className="flex items-center space-x-2 mb-3 text-sm">
+            <span className="text-gray-600">Shape:</span>
+            {(['polygon', 'circle'] as const).map(shape => (
+              <button
+                key={shape}
+                onClick={() => setKeepoutShape(shape)}
+                className={`px-2 py-1 rounded-md border ${keepoutShape === shape ? 'bg-orange-100 border-orange-400 text-orange-700' : 'border-gray-300 text-gray-600 hover:bg-gray-100'}`}
+              >
+                {shape === 'polygon' ? 'Polygon' : 'Circle'}
+              </button>
+            ))}
+          </div>}
           <div className="border-t pt-4">
-            <div className="text-center py-6 text-sm text-gray-500">
-              <a href="#" onClick={(e) => { e.preventDefault(); alert('Add Keepout functionality coming soon!'); }} className="text-blue-600 hover:underline">Add a keepout</a> to get started
-            </div>
+            {keepouts.length === 0 ? (
+              <div className="text-center py-6 text-sm text-gray-500">
+                {readOnly ? 'No keepouts' : <><a href="#" onClick={(e) => { e.preventDefault(); startDrawing('keepout'); }} className="text-blue-600 hover:underline">Add a keepout</a> to get started</>}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {keepouts.map((k) => (
+                  <div
+                    key={k.id}
+                    onClick={() => { setSelectedTreeId(null); setSelectedKeepoutId(k.id); }}
+                    className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded-md hover:bg-gray-100 cursor-pointer"
+                  >
+                    <span>{k.description} <span className="text-xs text-gray-500">({k.height} ft)</span></span>
+                    {!readOnly && (
+                      <button onClick={(e) => { e.stopPropagation(); handleDeleteKeepout(k.id); }} className="p-1 text-gray-500 hover:text-red-600 rounded-full hover:bg-red-100">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
+          {trees.length > 0 && (
+            <div className="border-t pt-4 mt-4">
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Trees</h4>
+              <div className="space-y-2">
+                {trees.map((t) => (
+                  <div
+                    key={t.id}
+                    onClick={() => { setSelectedKeepoutId(null); setSelectedTreeId(t.id); }}
+                    className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded-md hover:bg-gray-100 cursor-pointer"
+                  >
+                    <span>{t.description} <span className="text-xs text-gray-500">({t.totalHeight} ft)</span></span>
+                    {!readOnly && (
+                      <button onClick={(e) => { e.stopPropagation(); handleDeleteTree(t.id); }} className="p-1 text-gray-500 hover:text-red-600 rounded-full hover:bg-red-100">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </>
       );
+    } else if (activeSidebarTab === 'electrical') {
+      if (activeTool === 'place-inverter') {
+        return (
+          <div className="p-4 h-full flex flex-col">
+            <h3 className="font-bold text-gray-800 mb-2">Place Inverter</h3>
+            <p className="text-sm text-gray-600 mb-4">Click where the inverter is mounted. Wire runs and the "farthest from inverter" layout priority are measured from here.</p>
+            <button onClick={() => setActiveTool('none')} className="px-3 py-2 bg-gray-200 text-gray-800 rounded-md text-sm font-semibold hover:bg-gray-300 flex items-center justify-center space-x-2">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Back</span>
+            </button>
+          </div>
+        );
+      }
+      return (
+        <ElectricalPanel
+          config={electricalConfig}
+          inverters={inverters}
+          segments={fieldSegments}
+          moduleLabels={Object.fromEntries(modules.map(m => [m.id, `${m.manufacturer} ${m.model}`]))}
+          result={stringingResult}
+          onUpdate={handleUpdateElectrical}
+          onPlaceInverter={() => startDrawing('inverter')}
+          readOnly={readOnly}
+        />
+      );
+    } else if (activeSidebarTab === 'materials') {
+      return <BomPanel lines={billOfMaterials} fileName={`${project.projectName} - ${design.name} BOM`} />;
+    } else if (activeSidebarTab === 'snapshots') {
+      return (
+        <SnapshotsPanel
+          snapshots={snapshots}
+          current={currentSnapshot}
+          onCreate={handleCreateSnapshot}
+          onDelete={handleDeleteSnapshot}
+          onRestore={handleRestoreSnapshot}
+          readOnly={readOnly}
+        />
+      );
     } else {
       return (
         <div className="text-center py-12 text-gray-500">
@@ -1405,16 +2089,42 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
           </div>
           <div className="flex items-center justify-between text-sm">
             <div className="flex items-center space-x-1 text-gray-500 h-5">{renderSavingStatus()}</div>
-            <div className="flex items-center space-x-2">
-              <button className="p-1 text-gray-500 hover:text-gray-800"><RotateCcw className="w-4 h-4" /></button>
-              <button className="p-1 text-gray-500 hover:text-gray-800"><RotateCw className="w-4 h-4" /></button>
+            <div className="flex items-center -space-x-1" title="Also in this design">
+              {collaboration.others.map(c => (
+                <span
+                  key={c.clientId}
+                  title={c.name}
+                  className="w-6 h-6 rounded-full border-2 border-white text-[10px] font-semibold text-white flex items-center justify-center"
+                  style={{ backgroundColor: c.color }}
+                >
+                  {c.name.split(/\s+/).map(w => w[0]).join('').slice(0, 2).toUpperCase()}
+                </span>
+              ))}
             </div>
+            {!readOnly && <div className="flex items-center space-x-2">
+              <button
+                onClick={() => runHistoryStep('undo')}
+                disabled={!history.canUndo || isEditingShape || !!undoLock}
+                title={undoLock ? `${undoLock.name} is editing this segment` : history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+                className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => runHistoryStep('redo')}
+                disabled={!history.canRedo || isEditingShape || !!redoLock}
+                title={redoLock ? `${redoLock.name} is editing this segment` : history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+                className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <RotateCw className="w-4 h-4" />
+              </button>
+            </div>}
           </div>
         </div>
 
         {/* Tabs - always visible */}
         <div className="p-4 border-b">
-          <div className="grid grid-cols-2 gap-2">
+          <div className="grid grid-cols-3 gap-2">
             {sidebarTabs.map(tab => (
               <button key={tab.id} onClick={() => setActiveSidebarTab(tab.id)} className={`flex flex-col items-center justify-center p-2 rounded-lg transition-colors ${activeSidebarTab === tab.id ? 'bg-orange-100 text-orange-600' : 'hover:bg-gray-100'}`}>
                 <tab.icon className="w-6 h-6 mb-1" />
@@ -1431,7 +2141,7 @@ const DesignEditor: React.FC<DesignEditorProps> = ({ project, design, onBack })
 
         {/* Footer - always visible */}
         <div className="p-4 border-t text-sm text-gray-600 font-medium">
-          0 Modules, 0 p
+          {layoutStats.moduleCount} Modules, {layoutStats.kwp.toFixed(2)} kWp
         </div>
       </div>
       <div className="flex-1 relative">
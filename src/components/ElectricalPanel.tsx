@@ -0,0 +1,148 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, MapPin } from 'lucide-react';
+import { ElectricalConfig, FieldSegment } from '../types/project';
+import type { Inverter } from '../types/library';
+import type { StringingResult } from '../utils/stringing';
+import SelectField from './SelectField';
+import NumberInputWithUnit from './NumberInputWithUnit';
+
+interface ElectricalPanelProps {
+  config: ElectricalConfig;
+  inverters: Array<Inverter & { id: string }>;
+  segments: FieldSegment[];
+  moduleLabels: Record<string, string>;
+  result: StringingResult | null;
+  onUpdate: (data: Partial<ElectricalConfig>) => void;
+  onPlaceInverter: () => void; // pick the inverter location on the map
+  readOnly?: boolean;
+}
+
+const ElectricalPanel: React.FC<ElectricalPanelProps> = ({ config, inverters, segments, moduleLabels, result, onUpdate, onPlaceInverter, readOnly = false }) => {
+  const inverter = inverters.find(i => i.id === config.inverterId) || null;
+
+  return (
+    <fieldset disabled={readOnly} className="space-y-4">
+      <h3 className="font-bold text-gray-800">Stringing</h3>
+      <SelectField
+        label="Inverter"
+        id="inverter"
+        value={config.inverterId || ''}
+        onChange={(val) => onUpdate({ inverterId: val || null })}
+        options={inverters.map(i => ({ value: i.id, label: `${i.manufacturer} ${i.model}` }))}
+      />
+      {inverter && (
+        <div className="p-2 text-xs text-gray-700 border rounded bg-gray-50">
+          {inverter.pnom_ac != null ? `${(inverter.pnom_ac / 1000).toFixed(1)} kWac` : '- kWac'}
+          {' · '}{inverter.mppt_count ?? 1} MPPT
+          {' · '}{inverter.vmpp_min ?? '-'}–{inverter.vmpp_max ?? '-'} V window
+          {' · '}{inverter.vdc_max ?? '-'} V max
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-sm text-gray-700">Inverter Location</span>
+          <div className="flex space-x-1">
+            <button type="button" onClick={onPlaceInverter} className="px-2 py-1 border rounded-md text-xs font-semibold text-gray-700 hover:bg-gray-100 flex items-center space-x-1">
+              <MapPin className="w-3 h-3" />
+              <span>{config.inverterLocation ? 'Move' : 'Place on Map'}</span>
+            </button>
+            {config.inverterLocation && (
+              <button type="button" onClick={() => onUpdate({ inverterLocation: null })} className="px-2 py-1 border rounded-md text-xs font-semibold text-gray-700 hover:bg-gray-100">
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          {config.inverterLocation
+            ? `${config.inverterLocation[1].toFixed(6)}, ${config.inverterLocation[0].toFixed(6)}`
+            : 'Not placed. Wire runs are measured to the center of the array.'}
+        </p>
+      </div>
+
+      <div>
+        <NumberInputWithUnit label="Record Low Temp" value={config.recordLowTemp} onChange={(val) => onUpdate({ recordLowTemp: val })} unit="°C" />
+        <NumberInputWithUnit label="High Design Temp" value={config.highTemp} onChange={(val) => onUpdate({ highTemp: val })} unit="°C" />
+        <NumberInputWithUnit label="Modules / String" value={config.stringLength ?? 0} onChange={(val) => onUpdate({ stringLength: val > 0 ? Math.floor(val) : null })} unit="" min={0} />
+        <p className="text-xs text-gray-500">Leave modules per string at 0 to use the longest string the inverter allows.</p>
+      </div>
+
+      {!inverter ? (
+        <div className="text-center py-6 text-sm text-gray-500">Select an inverter to size strings.</div>
+      ) : result && (
+        <>
+          <div className="pt-4 border-t">
+            <h4 className="font-semibold text-gray-800 mb-2">String Sizing</h4>
+            {Object.keys(result.sizing).length === 0 ? (
+              <p className="text-sm text-gray-500">No placed modules to string yet.</p>
+            ) : (
+              <div className="space-y-1 text-sm">
+                {Object.entries(result.sizing).map(([moduleId, s]) => (
+                  <div key={moduleId} className="p-2 bg-gray-50 rounded-md">
+                    <div className="font-medium text-gray-800">{moduleLabels[moduleId] || 'Module'}</div>
+                    <div className="text-gray-600">{s.minModules} – {s.maxModules} modules per string</div>
+                    <div className="text-xs text-gray-500">Voc cold {s.vocCold.toFixed(1)} V · Vmp hot {s.vmpHot.toFixed(1)} V · {s.maxParallelPerMppt} string(s)/MPPT</div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="pt-4 border-t">
+            <h4 className="font-semibold text-gray-800 mb-2">Summary</h4>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="text-gray-600">Inverters</div><div className="text-right font-medium">{result.inverters.length}</div>
+              <div className="text-gray-600">Strings</div><div className="text-right font-medium">{result.strings.length}</div>
+              <div className="text-gray-600">DC Nameplate</div><div className="text-right font-medium">{(result.dcPower / 1000).toFixed(2)} kWp</div>
+              <div className="text-gray-600">AC Nameplate</div><div className="text-right font-medium">{(result.acPower / 1000).toFixed(2)} kW</div>
+              <div className="text-gray-600">DC/AC Ratio</div><div className="text-right font-medium">{result.dcAcRatio != null ? result.dcAcRatio.toFixed(2) : '-'}</div>
+            </div>
+          </div>
+
+          {result.inverters.length > 0 && (
+            <div className="pt-4 border-t">
+              <h4 className="font-semibold text-gray-800 mb-2">Strings per Inverter</h4>
+              <div className="space-y-2">
+                {result.inverters.map(inv => (
+                  <div key={inv.index} className="p-2 bg-gray-50 rounded-md text-sm">
+                    <div className="flex justify-between">
+                      <span className="font-medium text-gray-800">Inverter {inv.index + 1}</span>
+                      <span className="text-gray-600">{inv.strings} strings · {(inv.dcPower / 1000).toFixed(2)} kWp</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {inv.mppts.map((m, i) => `MPPT ${i + 1}: ${m.strings}`).join(' · ')}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-2 text-xs text-gray-500">
+                {segments.filter(s => result.strings.some(st => st.segmentId === s.id)).map(s => `${s.description}: ${result.strings.filter(st => st.segmentId === s.id).length} strings`).join(' · ')}
+              </div>
+            </div>
+          )}
+
+          <div className="pt-4 border-t">
+            {result.violations.length === 0 ? (
+              <div className="flex items-center space-x-2 text-sm text-green-700">
+                <CheckCircle className="w-4 h-4" />
+                <span>All strings are within the inverter voltage window.</span>
+              </div>
+            ) : (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-xs text-red-700 space-y-1">
+                {result.violations.map((v, i) => (
+                  <div key={i} className="flex items-start space-x-1">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    <span>{v}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </fieldset>
+  );
+};
+
+export default ElectricalPanel;
@@ -1,10 +1,25 @@
-import React, { useState, useEffect } from 'react';
-import { FieldSegment } from '../types/project';
-import { formatArea } from '../utils/mapUtils';
-import { ArrowLeft, Send, Trash2, AlignLeft, AlignCenter, AlignRight, AlignJustify, Wrench, Sun } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { FieldSegment, Racking, TiltGroup } from '../types/project';
+import { formatArea, METERS_TO_FEET } from '../utils/mapUtils';
+import { ArrowLeft, Send, Trash2, AlignLeft, AlignCenter, AlignRight, AlignJustify, Wrench, Sun, X } from 'lucide-react';
 import FormField from './FormField';
 import SelectField from './SelectField';
 import NumberInputWithUnit from './NumberInputWithUnit';
+import { LAYOUT_PRIORITY_OPTIONS } from '../utils/layoutCap';
+import { ModuleDims, segmentFrameDepth } from '../utils/autoLayout';
+import { TRACKER_DEFAULT_GCR } from '../utils/tracker';
+import { linkedRowSpacing, RowSpacingField, rowSpacingLinked, solsticeRowSpacing } from '../utils/rowSpacing';
+
+const EAST_WEST_DEFAULT_TILT = 10;
+const EAST_WEST_MAX_TILT = 15;
+const TRACKER_MAX_GCR = 0.6;
+
+// Edits that change how rows are spaced; the module itself relinks once its size has loaded
+const ROW_GEOMETRY_FIELDS: Array<keyof FieldSegment> = [
+  'rowSpacing', 'spanRise', 'gcr', 'rowSpacingMode', 'racking', 'moduleTilt', 'moduleAzimuth',
+  'defaultOrientation', 'frameSizeUp', 'moduleSpacing', 'startTime', 'endTime',
+];
+const ROW_SPACING_FIELDS: Array<keyof FieldSegment> = ['rowSpacing', 'spanRise', 'gcr'];
 
 interface FieldSegmentPanelProps {
   segment: FieldSegment;
@@ -15,20 +30,95 @@ interface FieldSegmentPanelProps {
   onStartEdit?: () => void;
   onStopEdit?: () => void;
   moduleOptions?: Array<{ value: string; label: string }>;
+  stats?: { moduleCount: number; kwp: number }; // placed by the auto-layout
+  moduleDims?: ModuleDims; // of the selected module, for tracker pitch and linked row spacing
+  site?: { lat: number; lng: number; timeZone: string }; // for shade-free row spacing
+  lockedBy?: { name: string; color: string }; // another editor holds this segment; view only
+  readOnly?: boolean; // view-only access to the whole design
 }
 
-const FieldSegmentPanel: React.FC<FieldSegmentPanelProps> = ({ segment, onBack, onDelete, onUpdate, isEditing, onStartEdit, onStopEdit, moduleOptions = [] }) => {
+const FieldSegmentPanel: React.FC<FieldSegmentPanelProps> = ({ segment, onBack, onDelete, onUpdate, isEditing, onStartEdit, onStopEdit, moduleOptions = [], stats, moduleDims, site, lockedBy, readOnly = false }) => {
   const [formData, setFormData] = useState(segment);
   const [activeTab, setActiveTab] = useState<'configuration' | 'shadow'>('configuration');
+  const [showMaxKwp, setShowMaxKwp] = useState(false);
 
   useEffect(() => {
     setFormData(segment);
   }, [segment]);
 
+  // Keep row spacing, span/rise and GCR consistent with whichever was set (row spacing when
+  // something else changed), or with the solstice window
+  const withLinkedRows = (data: Partial<FieldSegment>, from: RowSpacingField = 'rowSpacing'): Partial<FieldSegment> => {
+    const next = { ...formData, ...data };
+    if (!moduleDims || !rowSpacingLinked(next)) return data;
+    if (next.rowSpacingMode === 'solstice') {
+      const rowSpacing = site ? solsticeRowSpacing(next, moduleDims, site) : null;
+      return rowSpacing === null ? data : { ...data, ...linkedRowSpacing({ ...next, rowSpacing }, moduleDims) };
+    }
+    return { ...data, ...linkedRowSpacing(next, moduleDims, from) };
+  };
+
   const handleUpdate = (field: keyof FieldSegment, value: any) => {
-    const updatedData = { ...formData, [field]: value };
-    setFormData(updatedData);
-    onUpdate(segment.id, { [field]: value });
+    const data = ROW_GEOMETRY_FIELDS.includes(field)
+      ? withLinkedRows({ [field]: value }, ROW_SPACING_FIELDS.includes(field) ? field as RowSpacingField : 'rowSpacing')
+      : { [field]: value };
+    setFormData({ ...formData, ...data });
+    onUpdate(segment.id, data);
+  };
+
+  // A newly chosen module's size arrives after the change; relink the rows once it does
+  const dimsRef = useRef({ id: segment.id, dims: moduleDims });
+  useEffect(() => {
+    const prev = dimsRef.current;
+    dimsRef.current = { id: segment.id, dims: moduleDims };
+    if (prev.id !== segment.id || prev.dims === moduleDims || readOnly || lockedBy) return;
+    const data = withLinkedRows({});
+    if (Object.entries(data).some(([key, value]) => formData[key as keyof FieldSegment] !== value)) {
+      setFormData({ ...formData, ...data });
+      onUpdate(segment.id, data);
+    }
+  }, [moduleDims, segment.id]);
+
+  const tiltGroups = formData.tiltGroups ?? [];
+  const eastWest = formData.racking === 'East-West';
+  const tracker = formData.racking === 'Single-Axis Tracker';
+  // Tracker pitch is the collector width over the GCR
+  const collectorWidthFt = moduleDims ? segmentFrameDepth(formData, moduleDims) * METERS_TO_FEET : null;
+  const rowsLinked = rowSpacingLinked(formData);
+  const solstice = rowsLinked && formData.rowSpacingMode === 'solstice';
+  const solsticeUnreachable = solstice && !!moduleDims && !!site && solsticeRowSpacing(formData, moduleDims, site) === null;
+
+  // East-west racking is a low-tilt product and trackers are usually one portrait module wide at a
+  // low GCR; start them at those settings
+  const handleRackingChange = (racking: Racking) => {
+    const data: Partial<FieldSegment> = { racking };
+    if (racking === 'East-West' && formData.moduleTilt > EAST_WEST_MAX_TILT) data.moduleTilt = EAST_WEST_DEFAULT_TILT;
+    if (racking === 'Single-Axis Tracker') {
+      data.defaultOrientation = 'Portrait';
+      if (!(formData.gcr > 0 && formData.gcr <= TRACKER_MAX_GCR)) data.gcr = TRACKER_DEFAULT_GCR;
+    }
+    const linked = withLinkedRows(data);
+    setFormData({ ...formData, ...linked });
+    onUpdate(segment.id, linked);
+  };
+
+  // A new group starts as the mirror image of the segment's tilt, the usual east-west split
+  const handleAddTiltGroup = () => {
+    handleUpdate('tiltGroups', [...tiltGroups, {
+      id: crypto.randomUUID(),
+      moduleTilt: formData.moduleTilt,
+      moduleAzimuth: (formData.moduleAzimuth + 180) % 360,
+      rowSpacing: formData.rowSpacing,
+      defaultOrientation: formData.defaultOrientation,
+    }]);
+  };
+
+  const handleUpdateTiltGroup = (id: string, data: Partial<TiltGroup>) => {
+    handleUpdate('tiltGroups', tiltGroups.map(g => g.id === id ? { ...g, ...data } : g));
+  };
+
+  const handleRemoveTiltGroup = (id: string) => {
+    handleUpdate('tiltGroups', tiltGroups.filter(g => g.id !== id));
   };
 
   const alignmentOptions = [
@@ -61,19 +151,89 @@ const FieldSegmentPanel: React.FC<FieldSegmentPanelProps> = ({ segment, onBack,
           label="Racking"
           id="racking"
           value={formData.racking}
-          onChange={(val) => handleUpdate('racking', val as 'Fixed Tilt Racking' | 'Flush Mount')}
+          onChange={(val) => handleRackingChange(val as Racking)}
           options={[
             { value: 'Fixed Tilt Racking', label: 'Fixed Tilt Racking' },
             { value: 'Flush Mount', label: 'Flush Mount' },
+            { value: 'East-West', label: 'East-West (Dome)' },
+            { value: 'Single-Axis Tracker', label: 'Single-Axis Tracker' },
           ]}
         />
 
         <NumberInputWithUnit label="Surface Height" value={formData.surfaceHeight} onChange={(val) => handleUpdate('surfaceHeight', val)} unit="ft" />
         <NumberInputWithUnit label="Racking Height" value={formData.rackingHeight} onChange={(val) => handleUpdate('rackingHeight', val)} unit="ft" />
         <NumberInputWithUnit label="Parapet Height" value={formData.parapetHeight || 0} onChange={(val) => handleUpdate('parapetHeight', val)} unit="ft" />
-        <NumberInputWithUnit label="Module Azimuth" value={formData.moduleAzimuth} onChange={(val) => handleUpdate('moduleAzimuth', val)} unit="°" />
-        <NumberInputWithUnit label="Module Tilt" value={formData.moduleTilt} onChange={(val) => handleUpdate('moduleTilt', val)} unit="°" />
-        <button className="text-sm text-blue-600 hover:underline">+ Add Independent Tilt</button>
+        {tracker ? (
+          <>
+            <NumberInputWithUnit label="Axis Azimuth" value={formData.trackerAxisAzimuth ?? 180} onChange={(val) => handleUpdate('trackerAxisAzimuth', val)} unit="°" />
+            <NumberInputWithUnit label="Max Rotation" value={formData.trackerMaxAngle ?? 60} onChange={(val) => handleUpdate('trackerMaxAngle', val)} unit="°" min={0} max={90} />
+            <NumberInputWithUnit label="Tracker Length" value={formData.trackerLength ?? 28} onChange={(val) => handleUpdate('trackerLength', Math.max(1, Math.round(val)))} unit="modules" min={1} />
+            <NumberInputWithUnit label="GCR" value={formData.gcr} onChange={(val) => handleUpdate('gcr', val)} unit="" min={0.05} max={1} step={0.01} />
+            {collectorWidthFt !== null && formData.gcr > 0 && (
+              <NumberInputWithUnit
+                label="Pitch"
+                value={Number((collectorWidthFt / formData.gcr).toFixed(2))}
+                onChange={(val) => { if (val > 0) handleUpdate('gcr', Number(Math.min(1, collectorWidthFt / val).toFixed(3))); }}
+                unit="ft"
+                step={0.1}
+              />
+            )}
+            <label htmlFor="backtracking" className="inline-flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                id="backtracking"
+                type="checkbox"
+                className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+                checked={formData.backtracking !== false}
+                onChange={(e) => handleUpdate('backtracking', e.target.checked)}
+              />
+              <span>Backtracking</span>
+            </label>
+            <p className="text-xs text-gray-500">
+              Horizontal trackers rotate east-west about the axis. With backtracking they turn back toward flat at low sun so rows don't shade each other.
+            </p>
+          </>
+        ) : (
+          <>
+            <NumberInputWithUnit label={eastWest ? 'Array Azimuth' : 'Module Azimuth'} value={formData.moduleAzimuth} onChange={(val) => handleUpdate('moduleAzimuth', val)} unit="°" />
+            <NumberInputWithUnit label="Module Tilt" value={formData.moduleTilt} onChange={(val) => handleUpdate('moduleTilt', val)} unit="°" />
+          </>
+        )}
+        {eastWest && (
+          <>
+            <NumberInputWithUnit label="Ridge Gap" value={formData.ridgeGap ?? 0.5} onChange={(val) => handleUpdate('ridgeGap', val)} unit="ft" min={0} step={0.1} />
+            <p className="text-xs text-gray-500">
+              Modules are placed in back-to-back pairs facing {(((formData.moduleAzimuth - 90) % 360) + 360) % 360}° and {(formData.moduleAzimuth + 90) % 360}°.
+              Row spacing is the aisle between pairs; the pair pitch follows from the tilt and ridge gap.
+            </p>
+          </>
+        )}
+        {!eastWest && !tracker && tiltGroups.map((g, i) => (
+          <div key={g.id} className="p-2 bg-gray-50 rounded-md space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-gray-700">Tilt Group {i + 2}</span>
+              <button onClick={() => handleRemoveTiltGroup(g.id)} className="p-1 text-gray-400 hover:text-red-600" title="Remove tilt group">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <NumberInputWithUnit label="Module Azimuth" value={g.moduleAzimuth} onChange={(val) => handleUpdateTiltGroup(g.id, { moduleAzimuth: val })} unit="°" />
+            <NumberInputWithUnit label="Module Tilt" value={g.moduleTilt} onChange={(val) => handleUpdateTiltGroup(g.id, { moduleTilt: val })} unit="°" />
+            <NumberInputWithUnit label="Row Spacing" value={g.rowSpacing} onChange={(val) => handleUpdateTiltGroup(g.id, { rowSpacing: val })} unit="ft" />
+            <SelectField
+              label="Orientation"
+              id={`orientation-${g.id}`}
+              value={g.defaultOrientation}
+              onChange={(val) => handleUpdateTiltGroup(g.id, { defaultOrientation: val as TiltGroup['defaultOrientation'] })}
+              options={[
+                { value: 'Landscape', label: 'Landscape (Horizontal)' },
+                { value: 'Portrait', label: 'Portrait (Vertical)' },
+              ]}
+            />
+          </div>
+        ))}
+        {!eastWest && !tracker && tiltGroups.length > 0 && (
+          <p className="text-xs text-gray-500">Rows alternate between the segment's tilt and each tilt group, in order.</p>
+        )}
+        {!eastWest && !tracker && <button onClick={handleAddTiltGroup} className="text-sm text-blue-600 hover:underline">+ Add Independent Tilt</button>}
       </div>
 
       <div className="mt-6 pt-4 border-t">
@@ -84,8 +244,12 @@ const FieldSegmentPanel: React.FC<FieldSegmentPanelProps> = ({ segment, onBack,
           <div className="flex items-center space-x-2">
             <input type="number" value={formData.frameSizeUp} onChange={(e) => handleUpdate('frameSizeUp', parseInt(e.target.value))} className="w-12 p-1 border rounded-md text-sm text-center" />
             <span className="text-sm text-gray-600">up</span>
-            <input type="number" value={formData.frameSizeWide} onChange={(e) => handleUpdate('frameSizeWide', parseInt(e.target.value))} className="w-12 p-1 border rounded-md text-sm text-center" />
-            <span className="text-sm text-gray-600">wide</span>
+            {!tracker && (
+              <>
+                <input type="number" value={formData.frameSizeWide} onChange={(e) => handleUpdate('frameSizeWide', parseInt(e.target.value))} className="w-12 p-1 border rounded-md text-sm text-center" />
+                <span className="text-sm text-gray-600">wide</span>
+              </>
+            )}
           </div>
         </div>
 
@@ -100,9 +264,14 @@ const FieldSegmentPanel: React.FC<FieldSegmentPanelProps> = ({ segment, onBack,
           ]}
         />
 
-        <NumberInputWithUnit label="Row Spacing" value={formData.rowSpacing} onChange={(val) => handleUpdate('rowSpacing', val)} unit="ft" />
+        {!tracker && (
+          <fieldset disabled={solstice}>
+            <NumberInputWithUnit label="Row Spacing" value={formData.rowSpacing} onChange={(val) => handleUpdate('rowSpacing', val)} unit="ft" />
+          </fieldset>
+        )}
+        {solstice && <p className="text-xs text-gray-500">Row spacing is kept shade-free on the winter solstice; see Sun timing & shadows.</p>}
         <NumberInputWithUnit label="Module Spacing" value={formData.moduleSpacing} onChange={(val) => handleUpdate('moduleSpacing', val)} unit="ft" step={0.001} />
-        <NumberInputWithUnit label="Frame Spacing" value={formData.frameSpacing} onChange={(val) => handleUpdate('frameSpacing', val)} unit="ft" />
+        <NumberInputWithUnit label={tracker ? 'Tracker Gap' : 'Frame Spacing'} value={formData.frameSpacing} onChange={(val) => handleUpdate('frameSpacing', val)} unit="ft" />
         <NumberInputWithUnit label="Setback" value={formData.setback} onChange={(val) => handleUpdate('setback', val)} unit="ft" />
 
         <div className="flex items-center justify-between">
@@ -127,8 +296,33 @@ const FieldSegmentPanel: React.FC<FieldSegmentPanelProps> = ({ segment, onBack,
     <div className="p-3 border rounded-md bg-white">
       <h4 className="font-semibold text-gray-800 mb-3">Sun timing & shadows</h4>
       <div className="space-y-2">
-        <NumberInputWithUnit label="Span / rise" value={formData.spanRise} onChange={(val) => handleUpdate('spanRise', val)} unit="" step={0.01} />
-        <NumberInputWithUnit label="GCR" value={formData.gcr} onChange={(val) => handleUpdate('gcr', val)} unit="" step={0.01} />
+        {rowsLinked && (
+          <SelectField
+            label="Row Spacing"
+            id="rowSpacingMode"
+            value={formData.rowSpacingMode ?? 'manual'}
+            onChange={(val) => handleUpdate('rowSpacingMode', val)}
+            options={[
+              { value: 'manual', label: 'Set by row spacing, span/rise or GCR' },
+              { value: 'solstice', label: 'Shade-free on the winter solstice' },
+            ]}
+          />
+        )}
+        <fieldset disabled={solstice}>
+          <NumberInputWithUnit label="Span / rise" value={formData.spanRise} onChange={(val) => handleUpdate('spanRise', val)} unit="" step={0.01} />
+          <NumberInputWithUnit label="GCR" value={formData.gcr} onChange={(val) => handleUpdate('gcr', val)} unit="" step={0.01} />
+        </fieldset>
+        {rowsLinked && !moduleDims && (
+          <p className="text-xs text-gray-500">Select a module to keep row spacing, span/rise and GCR in step.</p>
+        )}
+        {solstice && (
+          <p className="text-xs text-gray-500">
+            Rows are spaced so they don't shade each other between the start and end time on the winter solstice{site ? '' : ' (set the project location first)'}.
+          </p>
+        )}
+        {solsticeUnreachable && (
+          <p className="text-xs text-red-600">The sun is below the horizon during part of this window on the solstice; shorten it to compute a spacing.</p>
+        )}
         <div className="flex flex-col">
           <label className="text-sm text-gray-700 mb-1">Date</label>
           <input
@@ -176,26 +370,51 @@ const FieldSegmentPanel: React.FC<FieldSegmentPanelProps> = ({ segment, onBack,
           <ArrowLeft className="w-4 h-4 mr-1" />
           back to list
         </button>
-        <div className="flex items-center space-x-2">
+        {!readOnly && <div className="flex items-center space-x-2">
           <button
             onClick={isEditing ? onStopEdit : onStartEdit}
-            className={`p-2 rounded-md ${isEditing ? 'bg-green-600 text-white hover:bg-green-700' : 'text-gray-500 hover:text-gray-800 hover:bg-gray-200'}`}
+            disabled={!!lockedBy}
+            className={`p-2 rounded-md disabled:opacity-40 disabled:cursor-not-allowed ${isEditing ? 'bg-green-600 text-white hover:bg-green-700' : 'text-gray-500 hover:text-gray-800 hover:bg-gray-200'}`}
           >
             {isEditing ? 'Done Editing' : 'Edit Shape'}
           </button>
           <button className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-200 rounded-md">
             <Send className="w-5 h-5" />
           </button>
-          <button onClick={() => onDelete(segment.id)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-md">
+          <button onClick={() => onDelete(segment.id)} disabled={!!lockedBy} className="p-2 disabled:opacity-40 disabled:cursor-not-allowed text-red-500 hover:text-red-700 hover:bg-red-100 rounded-md">
             <Trash2 className="w-5 h-5" />
           </button>
-        </div>
+        </div>}
       </div>
 
       <h3 className="font-bold text-lg text-gray-800">{segment.description}</h3>
-      <p className="text-sm text-gray-600 mb-1">Modules: 0 (0.00 kW) <a href="#" className="text-blue-600 text-xs">(set max kWp)</a></p>
+      <p className="text-sm text-gray-600 mb-1">Modules: {stats?.moduleCount ?? 0} ({(stats?.kwp ?? 0).toFixed(2)} kW) <a href="#" onClick={(e) => { e.preventDefault(); setShowMaxKwp(v => !v); }} className="text-blue-600 text-xs">
+          {formData.maxKwp ? `(max ${formData.maxKwp} kWp)` : '(set max kWp)'}
+        </a>
+      </p>
       <p className="text-sm text-gray-600 mb-4">Area: {formatArea(segment.area)}</p>
 
+      {showMaxKwp && (
+        <fieldset disabled={readOnly || !!lockedBy} className="mb-4 p-2 bg-gray-50 rounded-md">
+          <NumberInputWithUnit label="Max DC Nameplate" value={formData.maxKwp ?? 0} onChange={(val) => handleUpdate('maxKwp', val > 0 ? val : null)} unit="kWp" min={0} step={0.1} />
+          <SelectField
+            label="Drop First"
+            id="layoutPriority"
+            value={formData.layoutPriority ?? 'row'}
+            onChange={(val) => handleUpdate('layoutPriority', val)}
+            options={LAYOUT_PRIORITY_OPTIONS}
+          />
+          <p className="text-xs text-gray-500">Leave at 0 for no limit. Shading needs project coordinates and distance a placed inverter; otherwise the last rows are dropped.</p>
+        </fieldset>
+      )}
+
+      {lockedBy && (
+        <div className="mb-4 p-2 text-xs rounded-md border bg-white flex items-center space-x-2">
+          <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: lockedBy.color }} />
+          <span>{lockedBy.name} is editing this segment. Changes are shown live; editing is disabled until they move on.</span>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex border-b mb-4">
         <button
@@ -214,10 +433,10 @@ const FieldSegmentPanel: React.FC<FieldSegmentPanelProps> = ({ segment, onBack,
         </button>
       </div>
 
-      <div className="flex-grow overflow-y-auto pr-2">
+      <fieldset disabled={readOnly || !!lockedBy} className={`flex-grow overflow-y-auto pr-2 ${lockedBy ? 'opacity-60' : ''}`}>
         {activeTab === 'configuration' && renderConfigurationTab()}
         {activeTab === 'shadow' && renderShadowTab()}
-      </div>
+      </fieldset>
     </div>
   );
 };
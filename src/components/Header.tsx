@@ -1,14 +1,16 @@
 import React from 'react';
 import { Sun } from 'lucide-react';
 import LibraryMenu from './LibraryMenu';
+import AccountMenu from './AccountMenu';
 
 interface HeaderProps {
   onOpenLibrary?: (page: 'modules' | 'inverters') => void;
   onHome?: () => void;
   currentView?: 'dashboard' | 'project' | 'modules' | 'inverters';
+  account?: React.ComponentProps<typeof AccountMenu>;
 }
 
-const Header: React.FC<HeaderProps> = ({ onOpenLibrary, onHome, currentView }) => {
+const Header: React.FC<HeaderProps> = ({ onOpenLibrary, onHome, currentView, account }) => {
   return (
     <header className="bg-gray-800 text-white p-4 shadow-lg">
       <div className="max-w-7xl mx-auto flex items-center justify-between">
@@ -40,6 +42,7 @@ const Header: React.FC<HeaderProps> = ({ onOpenLibrary, onHome, currentView }) =
           <button className="px-4 py-2 text-gray-300 hover:text-white transition-colors">
             Help
           </button>
+          {account && <AccountMenu {...account} />}
         </nav>
       </div>
     </header>
@@ -1,10 +1,590 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Inverter, InverterEfficiencyPoint } from '../types/library';
+import { supabase } from '../integrations/supabase/client';
+import { asJson } from '../integrations/supabase/types';
+
+type ParsedInverter = Partial<Inverter> & {
+  format?: 'OND' | 'CSV';
+  effic_max?: number | null;  // fraction
+  effic_euro?: number | null; // fraction
+  source?: string | null;
+  raw?: Record<string, string>;
+};
+
+const num = (s?: string | null) => {
+  if (s == null || String(s).trim() === '') return null;
+  const n = Number(String(s).replace(/[^0-9eE+\-.]/g, ''));
+  return Number.isNaN(n) ? null : n;
+};
+// Efficiencies are given either as % (98.5) or as a fraction (0.985)
+const pctToFrac = (n: number | null) => (n == null ? null : (n > 1.5 ? n / 100 : n));
+
+// PVsyst OND parser: key=value lines, with efficiency profiles in TCubicProfile blocks of Point_N=Pin,Pout
+function parseOND(text: string): ParsedInverter {
+  const kv: Record<string, string> = {};
+  const profiles: Record<string, Array<[number, number]>> = {};
+  let profile: string | null = null;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('*') || line.startsWith('//')) continue;
+    if (/^end of tcubicprofile/i.test(line)) { profile = null; continue; }
+    const m = line.match(/^([A-Za-z0-9_\-.]+)\s*=\s*(.*)$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+    if (/^profilpio/.test(key) && /tcubicprofile/i.test(value)) {
+      profile = key;
+      profiles[profile] = [];
+      continue;
+    }
+    if (profile && /^point_\d+$/.test(key)) {
+      const [pin, pout] = value.split(',').map((s) => num(s));
+      if (pin != null && pout != null) profiles[profile].push([pin, pout]);
+      continue;
+    }
+    kv[key] = value;
+  }
+
+  const manufacturer = kv['manufacturer'] || '';
+  const model = kv['model'] || '';
+  const pnomKw = num(kv['pnomconv']);
+  const pnom_ac = pnomKw != null ? pnomKw * 1000 : null;
+  const mppt_count = num(kv['nbmppt']) ?? 1;
+  const vmpp_min = num(kv['vmppmin']);
+  const vmpp_max = num(kv['vmppmax']);
+  const vdc_max = num(kv['vabsmax']) ?? num(kv['vmax']);
+  const imaxDc = num(kv['imaxdc']);
+  const imax_mppt = num(kv['imaxmppt']) ?? (imaxDc != null ? imaxDc / Math.max(1, mppt_count) : null);
+
+  // Prefer the profile at nominal voltage (V2), then the generic one
+  const points = profiles['profilpiov2'] || profiles['profilpio'] || profiles['profilpiov1'] || Object.values(profiles)[0] || [];
+  let efficiency_curve: InverterEfficiencyPoint[] | null = null;
+  if (pnom_ac && points.length) {
+    const valid = points.filter(([pin, pout]) => pin > 0 && pout > 0);
+    // Points are normally in W; some files store them in kW
+    const maxOut = Math.max(...valid.map(([, pout]) => pout));
+    const scale = maxOut < pnom_ac * 0.05 ? 1000 : 1;
+    efficiency_curve = valid.map(([pin, pout]) => ({
+      load: Number(((pout * scale) / pnom_ac).toFixed(4)),
+      efficiency: Number((pout / pin).toFixed(5)),
+    }));
+  }
+
+  return {
+    format: 'OND',
+    manufacturer,
+    model,
+    pnom_ac,
+    mppt_count,
+    vmpp_min,
+    vmpp_max,
+    vdc_max,
+    imax_mppt,
+    efficiency_curve,
+    effic_max: pctToFrac(num(kv['efficmax'])),
+    effic_euro: pctToFrac(num(kv['efficeuro'])),
+    source: kv['datasource'] || null,
+    raw: kv,
+  };
+}
+
+// Manufacturer CSV parser: accepts "Parameter,Value" rows or a header row followed by one data row
+function parseInverterCSV(text: string): ParsedInverter {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== '');
+  const delimiter = (lines[0] || '').includes(';') && !(lines[0] || '').includes(',') ? ';' : ',';
+  const split = (line: string) => {
+    const cells: string[] = [];
+    let cur = '';
+    let quoted = false;
+    for (const ch of line) {
+      if (ch === '"') quoted = !quoted;
+      else if (ch === delimiter && !quoted) { cells.push(cur.trim()); cur = ''; }
+      else cur += ch;
+    }
+    cells.push(cur.trim());
+    return cells;
+  };
+  const rows = lines.map(split);
+  const normalize = (k: string) => k.toLowerCase().replace(/%/g, 'pct').replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+  const kv: Record<string, string> = {};
+  if (rows.every((r) => r.filter(Boolean).length <= 2)) {
+    for (const [k, v] of rows) if (k) kv[normalize(k)] = v ?? '';
+  } else if (rows.length >= 2) {
+    rows[0].forEach((k, i) => { if (k) kv[normalize(k)] = rows[1][i] ?? ''; });
+  }
+
+  // Look up a value by alias; keys ending in _kw/_kva are scaled to W
+  const pick = (...aliases: string[]): number | null => {
+    for (const alias of aliases) {
+      for (const [k, v] of Object.entries(kv)) {
+        if (k === alias || k.startsWith(`${alias}_`)) {
+          const n = num(v);
+          if (n == null) continue;
+          return /_(kw|kva)$/.test(k) ? n * 1000 : n;
+        }
+      }
+    }
+    return null;
+  };
+  const str = (...aliases: string[]) => {
+    for (const alias of aliases) if (kv[alias]) return kv[alias];
+    return '';
+  };
+
+  let vmpp_min = pick('mppt_voltage_min', 'mppt_min_voltage', 'vmpp_min', 'min_mppt_voltage');
+  let vmpp_max = pick('mppt_voltage_max', 'mppt_max_voltage', 'vmpp_max', 'max_mppt_voltage');
+  // Ranges like "200-850" in a single "MPPT voltage range" cell
+  const rangeKey = Object.keys(kv).find((k) => k.includes('mppt') && k.includes('range'));
+  if (rangeKey && (vmpp_min == null || vmpp_max == null)) {
+    const parts = kv[rangeKey].split(/[-–~]|to/).map((s) => num(s)).filter((n): n is number => n != null);
+    if (parts.length === 2) [vmpp_min, vmpp_max] = [Math.min(...parts), Math.max(...parts)];
+  }
+
+  const curve: InverterEfficiencyPoint[] = [];
+  for (const [k, v] of Object.entries(kv)) {
+    const m = k.match(/^eff(?:iciency)?_(?:at_)?(\d+)_?(?:pct|percent)?$/);
+    const eff = pctToFrac(num(v));
+    if (m && eff != null) curve.push({ load: Number(m[1]) / 100, efficiency: eff });
+  }
+  curve.sort((a, b) => a.load - b.load);
+
+  return {
+    format: 'CSV',
+    manufacturer: str('manufacturer', 'brand', 'make'),
+    model: str('model', 'model_name', 'name'),
+    pnom_ac: pick('pnom_ac', 'rated_ac_power', 'nominal_ac_power', 'ac_power', 'pac'),
+    mppt_count: pick('mppt_count', 'number_of_mppts', 'mppts', 'nb_mppt') ?? 1,
+    vmpp_min,
+    vmpp_max,
+    vdc_max: pick('vdc_max', 'max_dc_voltage', 'max_input_voltage', 'maximum_dc_voltage'),
+    imax_mppt: pick('imax_mppt', 'max_input_current_per_mppt', 'max_current_per_mppt', 'max_input_current'),
+    efficiency_curve: curve.length ? curve : null,
+    effic_max: pctToFrac(pick('max_efficiency', 'efficiency_max', 'peak_efficiency')),
+    effic_euro: pctToFrac(pick('euro_efficiency', 'cec_efficiency', 'weighted_efficiency')),
+    source: str('source', 'datasource') || 'Manufacturer CSV',
+    raw: kv,
+  };
+}
+
+function parseInverterFile(name: string, text: string): ParsedInverter {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.ond')) return parseOND(text);
+  if (lower.endsWith('.csv')) return parseInverterCSV(text);
+  return /pvginverter|pnomconv/i.test(text) ? parseOND(text) : parseInverterCSV(text);
+}
+
+const fmt = (n: number | null | undefined, unit: string, digits = 0) => (n != null ? `${n.toFixed(digits)} ${unit}` : '-');
 
 const InvertersPage: React.FC = () => {
+  const [inverters, setInverters] = useState<Inverter[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [modalFiles, setModalFiles] = useState<Array<{ file: File; parsed?: ParsedInverter }>>([]);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [previewData, setPreviewData] = useState<null | { file?: File; parsed: ParsedInverter; text?: string }>(null);
+  const [showCurve, setShowCurve] = useState(true);
+  const [showRaw, setShowRaw] = useState(false);
+  const modalFileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadInverters = async () => {
+    setLoading(true); setError(null);
+    try {
+      const { data, error } = await supabase.from('inverters').select('*').order('created_at', { ascending: false });
+      if (error) throw error;
+      setInverters((data || []) as Inverter[]);
+    } catch (e) {
+      setError('Could not load inverters from Supabase.');
+      console.error('Loading inverters failed:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { loadInverters(); }, []);
+
+  const onUploadOne = async (file: File) => {
+    setLoading(true); setError(null);
+    let newInverterId: string | null = null;
+    try {
+      const text = await file.text();
+      const parsed = parseInverterFile(file.name, text);
+      if (!parsed.manufacturer || !parsed.model) {
+        throw new Error('Manufacturer and Model are required fields not found in the inverter file.');
+      }
+
+      const exists = inverters.some(i =>
+        i.manufacturer.trim().toLowerCase() === (parsed.manufacturer||'').trim().toLowerCase() &&
+        i.model.trim().toLowerCase() === (parsed.model||'').trim().toLowerCase()
+      );
+      if (exists) {
+        setError('This inverter already exists in the library.');
+        setLoading(false);
+        return;
+      }
+
+      const inv = {
+        manufacturer: parsed.manufacturer,
+        model: parsed.model,
+        pnom_ac: parsed.pnom_ac ?? null,
+        mppt_count: parsed.mppt_count ?? null,
+        vmpp_min: parsed.vmpp_min ?? null,
+        vmpp_max: parsed.vmpp_max ?? null,
+        vdc_max: parsed.vdc_max ?? null,
+        imax_mppt: parsed.imax_mppt ?? null,
+        efficiency_curve: asJson(parsed.efficiency_curve ?? null),
+      };
+
+      const { data: newInverter, error: inverterError } = await supabase.from('inverters').insert(inv).select().single();
+      if (inverterError) throw inverterError;
+
+      newInverterId = newInverter.id;
+
+      const { error: detailsError } = await supabase.from('inverter_details').insert({
+        inverter_id: newInverter.id,
+        parsed: asJson(parsed),
+        file_text: text
+      });
+
+      if (detailsError) {
+        throw new Error(`Failed to save inverter details: ${detailsError.message}`);
+      }
+
+      setInverters(prev => [newInverter as Inverter, ...prev]);
+
+    } catch (e) {
+      // If details failed to save, roll back the inverter creation for consistency
+      if (newInverterId) {
+        await supabase.from('inverters').delete().eq('id', newInverterId);
+      }
+      setError((e instanceof Error && e.message) || 'Failed to parse or save inverter file');
+      console.error(e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onChooseModalFiles = async (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+    const pending = Array.from(list).map(async (f) => {
+      try { const txt = await f.text(); return { file: f, parsed: parseInverterFile(f.name, txt) }; } catch { return { file: f }; }
+    });
+    const resolved = await Promise.all(pending);
+    setModalFiles(prev => [...prev, ...resolved]);
+  };
+
+  const onPreviewSaved = async (inv: Inverter) => {
+    if (!inv.id) return;
+    setPreviewData(null);
+    setPreviewOpen(true);
+    const fallback: ParsedInverter = { ...inv, source: 'Saved inverter' };
+    try {
+      const { data, error } = await supabase.from('inverter_details').select('parsed, file_text').eq('inverter_id', inv.id).maybeSingle();
+      if (error) throw error;
+      if (data && data.parsed) {
+        setPreviewData({ parsed: { ...(data.parsed as ParsedInverter), manufacturer: inv.manufacturer, model: inv.model }, text: (data.file_text as string) || undefined });
+      } else {
+        setPreviewData({ parsed: fallback });
+      }
+    } catch (e) {
+      setError('Could not load inverter details.');
+      console.error(e);
+      setPreviewData({ parsed: { ...fallback, source: 'Saved inverter (details failed to load)' } });
+    }
+  };
+
+  const onDeleteInverter = async (inv: Inverter) => {
+    if (!inv.id) return;
+    const originalInverters = inverters;
+    setInverters(prev => prev.filter(x => x.id !== inv.id));
+    try {
+      const { error } = await supabase.from('inverters').delete().eq('id', inv.id);
+      if (error) throw error;
+    } catch (e) {
+      setError('Failed to delete inverter.');
+      setInverters(originalInverters);
+      console.error(e);
+    }
+  };
+
   return (
     <div className="max-w-5xl mx-auto p-6">
-      <h2 className="text-2xl font-bold text-gray-900 mb-2">Inverters Library</h2>
-      <p className="text-gray-600">Coming soon. You can add inverter CSV or spec parsing here similarly.</p>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold text-gray-900">Inverters Library</h2>
+      </div>
+      <div className="mb-4">
+        <button
+          className="px-4 py-2 bg-amber-500 text-white rounded-md hover:bg-amber-600"
+          onClick={() => { setIsModalOpen(true); setModalFiles([]); }}
+        >
+          Upload Inverter
+        </button>
+      </div>
+      {error && <div className="mb-3 text-red-600 text-sm">{error}</div>}
+
+      {/* Modal popup for Upload/Preview */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/50" onClick={() => setIsModalOpen(false)} />
+          <div className="relative bg-white w-full max-w-7xl mx-4 rounded-lg shadow-xl">
+            <div className="px-4 py-3 border-b flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900">Upload Inverter</h3>
+              <button className="px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded" onClick={() => setIsModalOpen(false)}>×</button>
+            </div>
+            <div className="p-4">
+              <div className="mb-4 flex items-center flex-wrap gap-2">
+                <label className="px-4 py-2 bg-sky-500 text-white rounded-md hover:bg-sky-600 cursor-pointer">
+                  Select Files
+                  <input
+                    ref={modalFileInputRef}
+                    multiple
+                    type="file"
+                    accept=".ond,.OND,.csv,.CSV,.txt"
+                    className="hidden"
+                    onChange={(e) => onChooseModalFiles(e.target.files)}
+                  />
+                </label>
+                <button
+                  className="px-4 py-2 bg-amber-500 text-white rounded-md hover:bg-amber-600"
+                  onClick={async () => {
+                    if (modalFiles.length === 0) { setError('No files selected'); return; }
+                    for (const f of modalFiles) {
+                      await onUploadOne(f.file);
+                    }
+                    setIsModalOpen(false);
+                    setModalFiles([]);
+                  }}
+                >
+                  Save All Files
+                </button>
+                <button
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100"
+                  onClick={() => setModalFiles([])}
+                >
+                  Clear
+                </button>
+                <span className="ml-auto text-sm text-gray-500">{modalFiles.length} file(s) selected</span>
+              </div>
+
+              <div className="bg-white border rounded-lg overflow-hidden">
+                <div className="grid grid-cols-12 gap-4 px-4 py-2 bg-gray-50 text-sm font-medium text-gray-700 border-b">
+                  <div className="col-span-4">File</div>
+                  <div className="col-span-3">Details</div>
+                  <div className="col-span-3">Inverter</div>
+                  <div className="col-span-2">Actions</div>
+                </div>
+                <div className="max-h-64 overflow-y-auto overflow-x-hidden">
+                  {modalFiles.length === 0 ? (
+                    <div className="px-4 py-6 text-center text-gray-500 text-sm">No files selected. Use "Select Files" above.</div>
+                  ) : modalFiles.map((f, idx) => {
+                    const parsed = f.parsed || {};
+                    const mf = parsed.manufacturer || '-';
+                    const model = parsed.model || '-';
+                    return (
+                      <div key={idx} className="grid grid-cols-12 gap-4 px-4 py-3 border-b items-center text-sm hover:bg-gray-50">
+                        <div className="col-span-4">
+                          <div className="font-medium text-gray-800 whitespace-normal break-words">{f.file.name}</div>
+                          <div className="text-gray-500 text-xs">{(f.file.size/1024).toFixed(2)}KB</div>
+                        </div>
+                        <div className="col-span-3">
+                          <div><span className="font-semibold">Manufacturer:</span> {mf}</div>
+                          <div><span className="font-semibold">Model:</span> {model}</div>
+                          <div className="text-xs text-gray-500"><span className="font-semibold">Source:</span> {parsed.format === 'CSV' ? 'CSV sheet' : 'OND file'}</div>
+                        </div>
+                        <div className="col-span-3 whitespace-normal break-words">
+                          We'll add {mf !== '-' ? mf : 'Unknown'}, {model !== '-' ? model : 'Unknown'} to your database when saved.
+                        </div>
+                        <div className="col-span-2 flex items-center space-x-2 whitespace-nowrap">
+                          <button
+                            className="px-3 py-1 bg-amber-500 text-white rounded hover:bg-amber-600 text-sm"
+                            onClick={async () => {
+                              await onUploadOne(f.file);
+                              setModalFiles(prev => prev.filter((_, i) => i !== idx));
+                            }}
+                          >Upload</button>
+                          <button
+                            className="px-3 py-1 bg-sky-500 text-white rounded hover:bg-sky-600 text-sm"
+                            onClick={async () => {
+                              const txt = await f.file.text();
+                              setPreviewData({ file: f.file, parsed: f.parsed || parseInverterFile(f.file.name, txt), text: txt });
+                              setPreviewOpen(true);
+                            }}
+                          >Preview</button>
+                          <button
+                            title="Remove file"
+                            aria-label="Remove file"
+                            className="inline-flex items-center justify-center h-8 w-8 rounded-full border border-red-500 text-red-600 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-400"
+                            onClick={() => setModalFiles(prev => prev.filter((_, i) => i !== idx))}
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24" aria-hidden="true">
+                              <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 0V5a1 1 0 011-1h2a1 1 0 011 1v2m-7 0h10" />
+                            </svg>
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+            <div className="px-4 py-3 border-t flex items-center justify-end">
+              <button className="px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded text-sm" onClick={() => setIsModalOpen(false)}>Close</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Preview Modal */}
+      {previewOpen && previewData && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center">
+          <div className="absolute inset-0 bg-black/60" onClick={() => setPreviewOpen(false)} />
+          <div className="relative bg-white w-full max-w-7xl mx-4 rounded-lg shadow-xl">
+            <div className="px-4 py-2 border-b flex items-center justify-between bg-gray-100">
+              <div className="font-semibold text-gray-800">{previewData.parsed.format === 'CSV' ? 'CSV' : 'OND'} Characterization Upload</div>
+              <button className="px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded" onClick={() => setPreviewOpen(false)}>×</button>
+            </div>
+            <div className="p-4 space-y-4 max-h-[85vh] overflow-auto">
+              <div className="flex items-end justify-between gap-3">
+                <div className="text-sm text-gray-600">{previewData.file?.name || `${previewData.parsed.manufacturer ?? ''} ${previewData.parsed.model ?? ''}`.trim() || 'Saved Inverter'}</div>
+                {previewData.file && (
+                  <button className="px-3 py-1 bg-amber-500 text-white rounded text-sm" onClick={async () => { if (previewData.file) { await onUploadOne(previewData.file); } setPreviewOpen(false); }}>Upload Characterization</button>
+                )}
+              </div>
+
+              <div className="border rounded-lg overflow-hidden">
+                <div className="px-3 py-2 border-b bg-gray-50 font-medium">Inverter</div>
+                <div className="text-sm">
+                  {[
+                    ['Name', previewData.parsed.model || '-'],
+                    ['Manufacturer', previewData.parsed.manufacturer || '-'],
+                    ['AC Rating', previewData.parsed.pnom_ac != null ? `${(previewData.parsed.pnom_ac / 1000).toFixed(2)} kW` : '-'],
+                    ['MPPT Inputs', previewData.parsed.mppt_count != null ? String(previewData.parsed.mppt_count) : '-'],
+                    ['MPPT Voltage Window', (previewData.parsed.vmpp_min != null && previewData.parsed.vmpp_max != null) ? `${previewData.parsed.vmpp_min} – ${previewData.parsed.vmpp_max} V` : '-'],
+                    ['Max DC Voltage', fmt(previewData.parsed.vdc_max, 'V')],
+                    ['Max Current per MPPT', fmt(previewData.parsed.imax_mppt, 'A', 1)],
+                    ['Max Efficiency', previewData.parsed.effic_max != null ? `${(previewData.parsed.effic_max * 100).toFixed(2)}%` : '-'],
+                    ['Euro Efficiency', previewData.parsed.effic_euro != null ? `${(previewData.parsed.effic_euro * 100).toFixed(2)}%` : '-'],
+                    ['Source', previewData.parsed.source || '-'],
+                  ].map(([k, v], i) => (
+                    <div key={i} className={`grid grid-cols-5 ${i>0 ? 'border-t' : ''}`}>
+                      <div className="col-span-2 px-3 py-2 bg-gray-50 text-gray-600">{k}</div>
+                      <div className="col-span-3 px-3 py-2">{v}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div className="border rounded-lg overflow-hidden flex flex-col min-h-0">
+                  <div className="px-3 py-2 border-b bg-gray-50 flex items-center justify-between">
+                    <div className="font-medium">Efficiency Curve</div>
+                    <button className="text-sm text-sky-600 hover:underline" onClick={() => setShowCurve(v => !v)}>{showCurve ? 'Hide' : 'Show'}</button>
+                  </div>
+                  {showCurve && (
+                    <div className="max-h-[50vh] overflow-auto">
+                      {previewData.parsed.efficiency_curve?.length ? (
+                        <table className="min-w-full text-xs">
+                          <thead className="bg-gray-50">
+                            <tr>
+                              <th className="px-2 py-2 text-left">Load (% of Pnom AC)</th>
+                              <th className="px-2 py-2 text-right">Efficiency (%)</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {previewData.parsed.efficiency_curve.map((p, i) => (
+                              <tr key={i} className="border-t">
+                                <td className="px-2 py-2">{(p.load * 100).toFixed(1)}</td>
+                                <td className="px-2 py-2 text-right">{(p.efficiency * 100).toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      ) : (
+                        <div className="px-3 py-6 text-center text-sm text-gray-500">No efficiency curve in this file.</div>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {previewData.parsed.raw && (
+                  <div className="border rounded-lg overflow-hidden flex flex-col min-h-0">
+                    <div className="px-3 py-2 border-b bg-gray-50 flex items-center justify-between">
+                      <div className="font-medium">Raw Parameters</div>
+                      <button className="text-sm text-sky-600 hover:underline" onClick={() => setShowRaw(v => !v)}>{showRaw ? 'Hide' : 'Show'}</button>
+                    </div>
+                    {showRaw && (
+                      <div className="max-h-[50vh] overflow-auto">
+                        <div className="text-sm">
+                          {Object.entries(previewData.parsed.raw).map(([label, value], i) => (
+                            <div key={label} className={`grid grid-cols-5 border-t ${i % 2 === 1 ? 'bg-gray-50/60' : ''}`}>
+                              <div className="col-span-2 px-3 py-2 text-gray-600 break-words">{label}</div>
+                              <div className="col-span-3 px-3 py-2 break-words">{value}</div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Saved inverters table below */}
+      <div className="mt-6 bg-white border rounded-lg overflow-hidden">
+        <div className="px-4 py-2 bg-gray-50 text-sm font-medium text-gray-700 border-b">Saved Inverters</div>
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left">Manufacturer</th>
+              <th className="px-4 py-2 text-left">Model</th>
+              <th className="px-4 py-2 text-right">Pnom AC (kW)</th>
+              <th className="px-4 py-2 text-right">MPPTs</th>
+              <th className="px-4 py-2 text-right">MPPT Window (V)</th>
+              <th className="px-4 py-2 text-right">Vdc max (V)</th>
+              <th className="px-4 py-2 text-right">Imax/MPPT (A)</th>
+              <th className="px-4 py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr><td colSpan={8} className="px-4 py-6 text-center text-gray-500">Loading…</td></tr>
+            ) : inverters.length === 0 ? (
+              <tr><td colSpan={8} className="px-4 py-6 text-center text-gray-500">No saved inverters yet.</td></tr>
+            ) : (
+              inverters.map(inv => (
+                <tr key={inv.id} className="border-t">
+                  <td className="px-4 py-2">{inv.manufacturer}</td>
+                  <td className="px-4 py-2">{inv.model}</td>
+                  <td className="px-4 py-2 text-right">{inv.pnom_ac != null ? (inv.pnom_ac / 1000).toFixed(2) : '-'}</td>
+                  <td className="px-4 py-2 text-right">{inv.mppt_count ?? '-'}</td>
+                  <td className="px-4 py-2 text-right">{inv.vmpp_min != null && inv.vmpp_max != null ? `${inv.vmpp_min}–${inv.vmpp_max}` : '-'}</td>
+                  <td className="px-4 py-2 text-right">{inv.vdc_max ?? '-'}</td>
+                  <td className="px-4 py-2 text-right">{inv.imax_mppt != null ? Number(inv.imax_mppt).toFixed(1) : '-'}</td>
+                  <td className="px-4 py-2">
+                    <div className="flex items-center justify-end gap-2">
+                      <button title="Preview" aria-label="Preview" className="inline-flex items-center justify-center h-8 w-8 rounded-full border border-sky-500 text-sky-600 hover:bg-sky-50 focus:outline-none focus:ring-2 focus:ring-sky-400" onClick={() => onPreviewSaved(inv)}>
+                        <svg className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 12s3.75-6.75 9.75-6.75S21.75 12 21.75 12 18 18.75 12 18.75 2.25 12 2.25 12z" />
+                          <circle cx="12" cy="12" r="2.25"></circle>
+                        </svg>
+                      </button>
+                      <button title="Delete" aria-label="Delete" className="inline-flex items-center justify-center h-8 w-8 rounded-full border border-red-500 text-red-600 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-400" onClick={() => onDeleteInverter(inv)}>
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 0V5a1 1 0 011-1h2a1 1 0 011 1v2m-7 0h10" />
+                        </svg>
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { Keepout } from '../types/project';
+import { ArrowLeft, Trash2 } from 'lucide-react';
+import FormField from './FormField';
+import NumberInputWithUnit from './NumberInputWithUnit';
+
+interface KeepoutPanelProps {
+  keepout: Keepout;
+  onBack: () => void;
+  onDelete: (id: string) => void;
+  onUpdate: (id: string, data: Partial<Keepout>) => void;
+  readOnly?: boolean;
+}
+
+const KeepoutPanel: React.FC<KeepoutPanelProps> = ({ keepout, onBack, onDelete, onUpdate, readOnly = false }) => {
+  const [formData, setFormData] = useState(keepout);
+
+  useEffect(() => {
+    setFormData(keepout);
+  }, [keepout]);
+
+  const handleUpdate = <K extends keyof Keepout>(field: K, value: Keepout[K]) => {
+    setFormData({ ...formData, [field]: value });
+    onUpdate(keepout.id, { [field]: value });
+  };
+
+  return (
+    <div className="p-4 h-full flex flex-col bg-gray-50">
+      <div className="flex items-center justify-between mb-4">
+        <button onClick={onBack} className="text-sm text-blue-600 hover:underline flex items-center">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          back to list
+        </button>
+        {!readOnly && (
+          <button onClick={() => onDelete(keepout.id)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-md">
+            <Trash2 className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      <h3 className="font-bold text-lg text-gray-800">{keepout.description}</h3>
+      <p className="text-sm text-gray-600 mb-4">{keepout.shape === 'circle' ? 'Circular' : 'Polygon'} keepout</p>
+
+      <fieldset disabled={readOnly} className="space-y-4">
+        <FormField
+          label="Description"
+          id="keepout-description"
+          value={formData.description}
+          onChange={(val) => handleUpdate('description', val)}
+        />
+        <div>
+          <NumberInputWithUnit label="Height" value={formData.height} onChange={(val) => handleUpdate('height', Math.max(0, val))} unit="ft" min={0} />
+          <NumberInputWithUnit label="Setback" value={formData.setback} onChange={(val) => handleUpdate('setback', Math.max(0, val))} unit="ft" min={0} />
+        </div>
+        <p className="text-xs text-gray-500">
+          Height is measured from the surface the keepout sits on and drives its shadow. No modules are placed within the setback.
+        </p>
+      </fieldset>
+    </div>
+  );
+};
+
+export default KeepoutPanel;
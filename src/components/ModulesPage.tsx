@@ -1,20 +1,10 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { Module } from '../types/library';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Module, ParsedPAN } from '../types/library';
 import { supabase } from '../integrations/supabase/client';
+import { asJson } from '../integrations/supabase/types';
+import { computeRefCurrents, currentAtVoltage, ivCurve, maxPowerPoint, operatingPoint, singleDiodeParamsFromPAN, IVCurve } from '../utils/singleDiode';
 
 // Basic PAN parser (PVsyst-like): looks for key=value pairs in lines
-type ParsedPAN = Partial<Module> & {
-  technology?: string | null;
-  length_m?: number | null;
-  width_m?: number | null;
-  temp_coeff_pmax?: number | null; // per °C (e.g., -0.0045)
-  temp_coeff_voc?: number | null;  // per °C
-  temp_coeff_isc?: number | null;  // per °C
-  source?: string | null;
-  last_update?: string | null;
-  raw?: Record<string, string>;
-};
-
 // Improved PAN parser: supports more PVsyst-like keys and flexible units
 function parsePAN(text: string): ParsedPAN {
   const lines = text.split(/\r?\n/);
@@ -105,48 +95,6 @@ function parsePAN(text: string): ParsedPAN {
 
 // Helpers to render a curated set of RAW parameters matching the screenshot
 type RawRow = [label: string, value: string];
-// Estimate I0ref and Iphref using single-diode equations at STC when not present in the file.
-function computeRefCurrents(parsed: ParsedPAN): { i0ref?: number; iphref?: number } {
-  const raw = parsed.raw || {};
-  const num = (s?: string | null) => (s != null ? Number(String(s).replace(/[^0-9eE+\-.]/g, '')) : NaN);
-  const pickNum = (...keys: string[]) => {
-    for (const k of keys) {
-      const v = raw[k.toLowerCase()];
-      if (v != null && String(v).trim() !== '') {
-        const n = num(v);
-        if (!Number.isNaN(n)) return n;
-      }
-    }
-    return NaN;
-  };
-  const Voc = typeof parsed.voc === 'number' ? parsed.voc : num(raw['voc']);
-  const Isc = typeof parsed.isc === 'number' ? parsed.isc : num(raw['isc']);
-  const Rs = pickNum('rserie','rs','series_resistance');
-  const Rsh = pickNum('rshunt','rshref','rshuntref');
-  const Ns = typeof parsed.ns === 'number' ? parsed.ns : pickNum('ncels','ns');
-  const gamma = pickNum('gamma','gamma_ref','yref');
-  const tC = pickNum('tref') || 25;
-
-  if ([Voc, Isc, Rs, Rsh, Ns, gamma].some((x) => Number.isNaN(x) || !isFinite(x) || x <= 0)) {
-    return {};
-  }
-  const k_over_q = 8.617333262145e-5; // V/K
-  const T = 273.15 + tC;
-  const Vt = k_over_q * T; // thermal voltage [V]
-  const denom = gamma * Ns * Vt; // diode denominator
-  if (!isFinite(denom) || denom <= 0) return {};
-
-  const E_voc = Math.exp(Voc / denom);
-  const E_isc = Math.exp((Isc * Rs) / denom);
-  // Avoid overflow/degenerate cases
-  if (!isFinite(E_voc) || !isFinite(E_isc) || Math.abs(E_voc - E_isc) < 1e-12) return {};
-
-  const I0 = (Isc + (Isc * Rs) / Rsh - Voc / Rsh) / (E_voc - E_isc);
-  if (!isFinite(I0) || I0 <= 0) return {};
-  const Iph = I0 * (E_voc - 1) + Voc / Rsh;
-  if (!isFinite(Iph) || Iph <= 0) return { i0ref: I0 };
-  return { i0ref: I0, iphref: Iph };
-}
 function getCuratedRawRows(parsed: ParsedPAN): RawRow[] {
   const raw = parsed.raw || {};
   const pick = (...keys: string[]) => {
@@ -226,9 +174,48 @@ function getCuratedRawRows(parsed: ParsedPAN): RawRow[] {
   return rows;
 }
 
+const PREVIEW_IRRADIANCES = [1000, 800, 600, 400, 200, 100];
+const CURVE_COLORS = ['#f97316', '#0ea5e9', '#22c55e', '#a855f7', '#ef4444', '#64748b'];
+
+type CurveChartProps = { curves: Array<{ G: number; curve: IVCurve }>; mode: 'iv' | 'pv' };
+// Simple SVG line chart of I-V or P-V curves, one line per irradiance level
+const CurveChart: React.FC<CurveChartProps> = ({ curves, mode }) => {
+  const W = 320, H = 200, padL = 40, padB = 28, padT = 10, padR = 10;
+  const maxV = Math.max(1, ...curves.map(c => c.curve.voc));
+  const maxY = Math.max(1e-6, ...curves.map(c => (mode === 'iv' ? c.curve.isc : c.curve.pmp))) * 1.05;
+  const x = (v: number) => padL + (v / maxV) * (W - padL - padR);
+  const y = (val: number) => H - padB - (val / maxY) * (H - padB - padT);
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto border rounded bg-white">
+      {ticks.map(t => (
+        <g key={t}>
+          <line x1={padL} x2={W - padR} y1={y(t * maxY)} y2={y(t * maxY)} stroke="#e5e7eb" />
+          <text x={padL - 4} y={y(t * maxY) + 3} fontSize="8" textAnchor="end" fill="#6b7280">{(t * maxY).toFixed(mode === 'iv' ? 1 : 0)}</text>
+          <text x={x(t * maxV)} y={H - padB + 10} fontSize="8" textAnchor="middle" fill="#6b7280">{(t * maxV).toFixed(0)}</text>
+        </g>
+      ))}
+      <text x={(W + padL) / 2} y={H - 4} fontSize="9" textAnchor="middle" fill="#374151">Voltage (V)</text>
+      <text x={10} y={(H - padB) / 2} fontSize="9" textAnchor="middle" fill="#374151" transform={`rotate(-90 10 ${(H - padB) / 2})`}>{mode === 'iv' ? 'Current (A)' : 'Power (W)'}</text>
+      {curves.map((c, idx) => (
+        <g key={c.G}>
+          <polyline
+            fill="none"
+            stroke={CURVE_COLORS[idx % CURVE_COLORS.length]}
+            strokeWidth="1.5"
+            points={c.curve.points.map(pt => `${x(pt.v).toFixed(1)},${y(mode === 'iv' ? pt.i : pt.p).toFixed(1)}`).join(' ')}
+          />
+          <circle cx={x(c.curve.vmp)} cy={y(mode === 'iv' ? c.curve.imp : c.curve.pmp)} r="2" fill={CURVE_COLORS[idx % CURVE_COLORS.length]} />
+        </g>
+      ))}
+    </svg>
+  );
+};
+
 type PreviewPerformanceProps = { parsed: ParsedPAN };
 const PreviewPerformance: React.FC<PreviewPerformanceProps> = ({ parsed }) => {
-  const tempC = 25;
+  const [tempC, setTempC] = useState(25);
+  const diode = useMemo(() => singleDiodeParamsFromPAN(parsed), [parsed]);
   // Baselines with reasonable fallbacks
   const pnom = parsed.pnom ?? 300;
   const vmp = parsed.vmp ?? 30;
@@ -239,25 +226,66 @@ const PreviewPerformance: React.FC<PreviewPerformanceProps> = ({ parsed }) => {
   const beta = parsed.temp_coeff_voc ?? -0.0023; // Voc per °C (fraction)
   const alpha = parsed.temp_coeff_isc ?? 0.0005; // Isc per °C (fraction)
 
-  const rows = [1000, 800, 600, 400, 200, 100].map((G) => {
-    const gf = G / 1000;
-    const dT = tempC - 25;
-    const IscT = isc * gf * (1 + alpha * dT);
-    // Approximate Voc scales weakly with irradiance and temp
-    const VocG = voc * (0.95 + 0.05 * gf) * (1 + beta * dT);
-    const Pbase = pnom * gf;
-    const PmpT = Pbase * (1 + gamma * dT);
-    const VmpT = vmp * (0.95 + 0.05 * gf) * (1 + beta * dT);
-    const ImpT = PmpT / Math.max(VmpT, 0.1);
-    return { G, IscT, VocG, VmpT, ImpT, PmpT };
-  });
+  const curves = useMemo(
+    () => (diode ? PREVIEW_IRRADIANCES.map(G => ({ G, curve: ivCurve(diode, G, tempC) })) : []),
+    [diode, tempC],
+  );
+
+  const rows = diode
+    ? curves.map(({ G, curve }) => {
+        // Temperature derivatives by finite difference around the operating point
+        const hotOp = operatingPoint(diode, G, tempC + 1);
+        const hot = { ...maxPowerPoint(hotOp), isc: currentAtVoltage(hotOp, 0) };
+        return {
+          G, IscT: curve.isc, VocG: curve.voc, VmpT: curve.vmp, ImpT: curve.imp, PmpT: curve.pmp,
+          dP: curve.pmp > 0 ? (hot.pmp - curve.pmp) / curve.pmp : 0,
+          dV: curve.vmp > 0 ? (hot.vmp - curve.vmp) / curve.vmp : 0,
+          dI: curve.isc > 0 ? (hot.isc - curve.isc) / curve.isc : 0,
+        };
+      })
+    : PREVIEW_IRRADIANCES.map((G) => {
+        // Linear estimate when the PAN lacks single-diode coefficients
+        const gf = G / 1000;
+        const dT = tempC - 25;
+        const IscT = isc * gf * (1 + alpha * dT);
+        const VocG = voc * (0.95 + 0.05 * gf) * (1 + beta * dT);
+        const PmpT = pnom * gf * (1 + gamma * dT);
+        const VmpT = vmp * (0.95 + 0.05 * gf) * (1 + beta * dT);
+        const ImpT = PmpT / Math.max(VmpT, 0.1);
+        return { G, IscT, VocG, VmpT, ImpT, PmpT, dP: gamma, dV: beta, dI: alpha };
+      });
 
   return (
   <div className="p-3 space-y-3 rounded-b-lg">
       <div className="flex items-center justify-between text-xs text-gray-500">
-        <div>Source: {parsed.source || 'PAN file'}</div>
-        <div>Temperature: <span className="font-medium">{tempC}°C</span></div>
+        <div>Source: {parsed.source || 'PAN file'} · {diode ? 'Single-diode model' : 'Linear estimate (no Rs/Rsh/γ in file)'}</div>
+        <label className="flex items-center space-x-1">
+          <span>Cell temperature:</span>
+          <input
+            type="number"
+            value={tempC}
+            onChange={(e) => setTempC(parseFloat(e.target.value) || 0)}
+            className="w-16 p-1 border rounded text-right"
+          />
+          <span>°C</span>
+        </label>
       </div>
+      {diode && (
+        <div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <CurveChart curves={curves} mode="iv" />
+            <CurveChart curves={curves} mode="pv" />
+          </div>
+          <div className="flex flex-wrap gap-3 mt-1 text-xs text-gray-600">
+            {curves.map((c, idx) => (
+              <span key={c.G} className="flex items-center space-x-1">
+                <span className="inline-block w-3 h-0.5" style={{ backgroundColor: CURVE_COLORS[idx % CURVE_COLORS.length] }} />
+                <span>{c.G} W/m²</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
       <div>
           {/* Modeled performance table */}
           <div className="overflow-auto border rounded">
@@ -284,9 +312,9 @@ const PreviewPerformance: React.FC<PreviewPerformanceProps> = ({ parsed }) => {
                     <td className="px-2 py-2 text-right">{r.VmpT.toFixed(2)}</td>
                     <td className="px-2 py-2 text-right">{r.ImpT.toFixed(2)}</td>
                     <td className="px-2 py-2 text-right">{r.PmpT.toFixed(0)}</td>
-                    <td className="px-2 py-2 text-right">{(gamma*100).toFixed(2)}%/°C</td>
-                    <td className="px-2 py-2 text-right">{(beta*100).toFixed(2)}%/°C</td>
-                    <td className="px-2 py-2 text-right">{(alpha*100).toFixed(2)}%/°C</td>
+                    <td className="px-2 py-2 text-right">{(r.dP*100).toFixed(2)}%/°C</td>
+                    <td className="px-2 py-2 text-right">{(r.dV*100).toFixed(2)}%/°C</td>
+                    <td className="px-2 py-2 text-right">{(r.dI*100).toFixed(2)}%/°C</td>
                   </tr>
                 ))}
               </tbody>
@@ -363,11 +391,11 @@ const ModulesPage: React.FC = () => {
       const { data: newModule, error: moduleError } = await supabase.from('modules').insert(mod).select().single();
       if (moduleError) throw moduleError;
 
-      newModuleId = (newModule as any).id;
+      newModuleId = newModule.id;
 
       const { error: detailsError } = await supabase.from('module_details').insert({ 
-        module_id: newModuleId, 
-        parsed: parsed, 
+        module_id: newModule.id,
+        parsed: asJson(parsed),
         pan_text: text 
       });
       
@@ -7,7 +7,7 @@ import SelectField from './SelectField';
 interface NewDesignModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (data: { name: string; cloneFrom?: string }) => void;
+  onSubmit: (data: { name: string; cloneFrom?: string }) => void | Promise<void>;
   existingDesigns: Design[];
 }
 
@@ -20,23 +20,36 @@ const NewDesignModal: React.FC<NewDesignModalProps> = ({
   const [name, setName] = useState('');
   const [cloneFrom, setCloneFrom] = useState('');
   const [error, setError] = useState('');
+  const [submitError, setSubmitError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) {
       setError('Design name is required.');
       return;
     }
-    onSubmit({ name, cloneFrom });
-    setName('');
-    setCloneFrom('');
-    setError('');
+    setIsSubmitting(true);
+    setSubmitError('');
+    try {
+      await onSubmit({ name, cloneFrom });
+      setName('');
+      setCloneFrom('');
+      setError('');
+    } catch {
+      setSubmitError(cloneFrom
+        ? 'Could not clone the design. Nothing was copied; please try again.'
+        : 'Could not create the design. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   const handleClose = () => {
     setName('');
     setCloneFrom('');
     setError('');
+    setSubmitError('');
     onClose();
   };
 
@@ -75,6 +88,7 @@ const NewDesignModal: React.FC<NewDesignModalProps> = ({
                 onChange={setCloneFrom}
                 options={designOptions}
               />
+              {submitError && <p className="text-sm text-red-600">{submitError}</p>}
             </div>
 
             <div className="flex items-center justify-end p-6 border-t bg-gray-50 space-x-3">
@@ -87,10 +101,11 @@ const NewDesignModal: React.FC<NewDesignModalProps> = ({
               </button>
               <button
                 type="submit"
-                className="px-6 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors flex items-center space-x-2"
+                disabled={isSubmitting}
+                className="px-6 py-2 bg-orange-500 text-white rounded-lg hover:bg-orange-600 transition-colors flex items-center space-x-2 disabled:opacity-60"
               >
                 <Plus className="w-4 h-4" />
-                <span>Create Design</span>
+                <span>{isSubmitting ? (cloneFrom ? 'Cloning...' : 'Creating...') : 'Create Design'}</span>
               </button>
             </div>
           </form>
@@ -1,19 +1,25 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ArrowLeft, MapPin, Settings, Eye, Share2, FileText, Plus, Trash2, Edit } from 'lucide-react';
-import { ProjectData, Design } from '../types/project';
+import { ProjectData, Design, ProjectRole } from '../types/project';
 import * as maptalks from 'maptalks';
 import NewDesignModal from './NewDesignModal';
 import DesignEditor from './DesignEditor';
-import { supabase } from '../integrations/supabase/client';
+import ConditionsTab from './ConditionsTab';
+import SharingTab from './SharingTab';
+import ReportsTab from './ReportsTab';
+import { cloneDesign, fetchDesigns, fetchProjectRole, insertDesign } from '../integrations/supabase/repository';
+import { lookupTimeZone, supportedTimeZones } from '../utils/timeZone';
 
 interface ProjectPageProps {
   project: ProjectData;
   onBack: () => void;
+  onUpdateProject: (data: Partial<ProjectData>) => void;
+  readOnly?: boolean; // opened from a share link: view only, no sharing tab
 }
 
 type TabType = 'designs' | 'conditions' | 'shading' | 'sharing' | 'reports';
 
-const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack }) => {
+const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack, onUpdateProject, readOnly = false }) => {
   const [activeTab, setActiveTab] = useState<TabType>('designs');
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<maptalks.Map | null>(null);
@@ -21,19 +27,31 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack }) => {
   const [designs, setDesigns] = useState<Design[]>([]);
   const [isNewDesignModalOpen, setIsNewDesignModalOpen] = useState(false);
   const [editingDesign, setEditingDesign] = useState<Design | null>(null);
+  const [role, setRole] = useState<ProjectRole | null>(readOnly ? 'viewer' : project.sharedRole ?? null);
+  const viewOnly = readOnly || role === 'viewer';
 
   useEffect(() => {
-    const fetchDesigns = async () => {
-      const { data, error } = await supabase
-        .from('designs')
-        .select('*')
-        .eq('project_id', project.id)
-        .order('created_at', { ascending: false });
-      
-      if (error) console.error("Error fetching designs", error);
-      else setDesigns(data as Design[]);
+    if (readOnly) return;
+    const loadRole = async () => {
+      try {
+        setRole(await fetchProjectRole(project.id));
+      } catch (error) {
+        // Offline: keep the last known role; edits are queued and checked by the server on sync
+        console.error("Error fetching project role", error);
+      }
+    };
+    loadRole();
+  }, [project.id, readOnly]);
+
+  useEffect(() => {
+    const loadDesigns = async () => {
+      try {
+        setDesigns(await fetchDesigns(project.id));
+      } catch (error) {
+        console.error("Error fetching designs", error);
+      }
     };
-    fetchDesigns();
+    loadDesigns();
   }, [project.id]);
 
   const tabs = [
@@ -42,25 +60,20 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack }) => {
     { id: 'shading' as TabType, label: 'Shading', icon: MapPin },
     { id: 'sharing' as TabType, label: 'Sharing', icon: Share2 },
     { id: 'reports' as TabType, label: 'Reports', icon: FileText },
-  ];
+  ].filter(tab => !(readOnly && tab.id === 'sharing'));
 
   const handleCreateDesign = async (data: { name: string; cloneFrom?: string }) => {
-    const { data: newDesign, error } = await supabase
-      .from('designs')
-      .insert({
-        name: data.name,
-        project_id: project.id,
-        cloned_from: data.cloneFrom || null,
-      })
-      .select()
-      .single();
-
-    if (error) {
+    let newDesign: Design;
+    try {
+      newDesign = data.cloneFrom
+        ? await cloneDesign(project.id, data.name, data.cloneFrom)
+        : await insertDesign(project.id, data.name);
+    } catch (error) {
       console.error("Error creating design", error);
-    } else if (newDesign) {
-      setDesigns(prev => [newDesign as Design, ...prev]);
-      setIsNewDesignModalOpen(false);
+      throw error;
     }
+    setDesigns(prev => [newDesign, ...prev]);
+    setIsNewDesignModalOpen(false);
   };
 
   useEffect(() => {
@@ -102,13 +115,15 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack }) => {
                 <h3 className="text-lg font-semibold text-gray-900">Designs</h3>
                 <p className="text-sm text-gray-600">Each Design encompasses all the components of a solar array.</p>
               </div>
-              <button 
-                onClick={() => setIsNewDesignModalOpen(true)}
-                className="bg-cyan-500 text-white px-4 py-2 rounded-lg hover:bg-cyan-600 transition-colors flex items-center space-x-2"
-              >
-                <Plus className="w-4 h-4" />
-                <span>New</span>
-              </button>
+              {!viewOnly && (
+                <button 
+                  onClick={() => setIsNewDesignModalOpen(true)}
+                  className="bg-cyan-500 text-white px-4 py-2 rounded-lg hover:bg-cyan-600 transition-colors flex items-center space-x-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>New</span>
+                </button>
+              )}
             </div>
 
             <div className="bg-white border rounded-lg overflow-hidden">
@@ -122,7 +137,7 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack }) => {
               </div>
               {designs.length === 0 ? (
                 <div className="text-center p-12 text-gray-500">
-                  No designs created yet. Click 'New' to get started.
+                  {viewOnly ? 'No designs yet.' : "No designs created yet. Click 'New' to get started."}
                 </div>
               ) : (
                 designs.map(design => (
@@ -139,11 +154,13 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack }) => {
                       <div className="text-sm text-gray-600">-</div>
                       <div className="flex space-x-2 justify-end">
                         <button onClick={() => setEditingDesign(design)} className="p-2 text-gray-500 hover:text-blue-600 rounded-md hover:bg-gray-100">
-                          <Edit className="w-4 h-4" />
-                        </button>
-                        <button className="p-2 text-gray-500 hover:text-red-600 rounded-md hover:bg-gray-100">
-                          <Trash2 className="w-4 h-4" />
+                          {viewOnly ? <Eye className="w-4 h-4" /> : <Edit className="w-4 h-4" />}
                         </button>
+                        {!viewOnly && (
+                          <button className="p-2 text-gray-500 hover:text-red-600 rounded-md hover:bg-gray-100">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -152,13 +169,19 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack }) => {
             </div>
           </div>
         );
+      case 'conditions':
+        return <ConditionsTab project={project} designs={designs} readOnly={viewOnly} />;
+      case 'sharing':
+        return <SharingTab project={project} canManage={role === 'owner'} />;
+      case 'reports':
+        return <ReportsTab project={project} designs={designs} readOnly={viewOnly} />;
       default:
         return null;
     }
   };
 
   if (editingDesign) {
-    return <DesignEditor project={project} design={editingDesign} onBack={() => setEditingDesign(null)} />;
+    return <DesignEditor project={project} design={editingDesign} onBack={() => setEditingDesign(null)} readOnly={viewOnly} />;
   }
 
   return (
@@ -171,7 +194,15 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack }) => {
                 <ArrowLeft className="w-5 h-5 text-gray-600" />
               </button>
               <div>
-                <h1 className="text-2xl font-bold text-gray-900">{project.projectName}</h1>
+                <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+                  {project.projectName}
+                  {viewOnly && (
+                    <span className="ml-3 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-600 flex items-center">
+                      <Eye className="w-3 h-3 mr-1" />
+                      View only
+                    </span>
+                  )}
+                </h1>
                 <p className="text-sm text-gray-600">{project.address}</p>
               </div>
             </div>
@@ -203,6 +234,22 @@ const ProjectPage: React.FC<ProjectPageProps> = ({ project, onBack }) => {
                   <label className="text-sm font-medium text-gray-700">Address</label>
                   <p className="text-sm text-gray-900">{project.address}</p>
                 </div>
+                <div>
+                  <label htmlFor="project-time-zone" className="text-sm font-medium text-gray-700">Time Zone</label>
+                  <select
+                    id="project-time-zone"
+                    value={project.timeZone ?? ''}
+                    onChange={(e) => onUpdateProject({ timeZone: e.target.value || undefined })}
+                    disabled={viewOnly}
+                    className="mt-1 w-full p-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  >
+                    <option value="">
+                      Auto{project.coordinates ? ` (${lookupTimeZone(project.coordinates.lat, project.coordinates.lng)})` : ''}
+                    </option>
+                    {supportedTimeZones().map((tz) => <option key={tz} value={tz}>{tz}</option>)}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">Shadow and analysis times are read in this zone.</p>
+                </div>
                 <div>
                   <label className="text-sm font-medium text-gray-700">Last Modified</label>
                   <p className="text-sm text-gray-900">{new Date(project.created_at).toLocaleString()}</p>
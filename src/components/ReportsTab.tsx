@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileText, Loader2, Trash2 } from 'lucide-react';
+import { Design, DesignReport, ProjectData } from '../types/project';
+import { deleteDesignReport, downloadDesignReport, fetchDesignReports, saveDesignReport } from '../integrations/supabase/repository';
+import { loadDesignReportData } from '../utils/report';
+import { renderDesignReport } from '../utils/reportPdf';
+import { downloadBlob, safeFileName } from '../utils/download';
+
+interface ReportsTabProps {
+  project: ProjectData;
+  designs: Design[];
+  readOnly?: boolean; // reports can still be generated and downloaded, but aren't saved
+}
+
+const reportFileName = (project: ProjectData, design: Design, version?: number) =>
+  safeFileName(`${project.projectName} - ${design.name}${version ? ` v${version}` : ''}.pdf`);
+
+const ReportsTab: React.FC<ReportsTabProps> = ({ project, designs, readOnly = false }) => {
+  const [selectedDesignId, setSelectedDesignId] = useState('');
+  const [reports, setReports] = useState<DesignReport[]>([]);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const selectedDesign = designs.find(d => d.id === selectedDesignId) ?? null;
+
+  useEffect(() => {
+    if (!selectedDesignId && designs.length) setSelectedDesignId(designs[0].id);
+  }, [designs, selectedDesignId]);
+
+  useEffect(() => {
+    if (!selectedDesignId) return;
+    setReports([]);
+    const load = async () => {
+      try {
+        setReports(await fetchDesignReports(selectedDesignId));
+      } catch (e) {
+        console.error('Error fetching reports', e);
+      }
+    };
+    load();
+  }, [selectedDesignId]);
+
+  const handleGenerate = async () => {
+    if (!selectedDesign) return;
+    setError('');
+    try {
+      setProgress('Loading design...');
+      const data = await loadDesignReportData(project, selectedDesign);
+      setProgress('Rendering PDF...');
+      const pdf = renderDesignReport(data);
+      let version: number | undefined;
+      if (!readOnly) {
+        setProgress('Saving...');
+        const report = await saveDesignReport(project.id, selectedDesign.id, pdf, {
+          moduleCount: data.moduleCount,
+          kwp: data.kwp,
+          annualKwh: data.simulation?.annualKwh ?? null,
+        });
+        setReports(prev => [report, ...prev]);
+        version = report.version;
+      }
+      downloadBlob(pdf, reportFileName(project, selectedDesign, version));
+    } catch (e) {
+      console.error('Error generating report', e);
+      setError('Could not generate the report. Check your connection and try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = async (report: DesignReport) => {
+    if (!selectedDesign) return;
+    setDownloadingId(report.id);
+    setError('');
+    try {
+      downloadBlob(await downloadDesignReport(report), reportFileName(project, selectedDesign, report.version));
+    } catch (e) {
+      console.error('Error downloading report', e);
+      setError('Could not download the report.');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleDelete = async (report: DesignReport) => {
+    const original = [...reports];
+    setReports(prev => prev.filter(r => r.id !== report.id));
+    try {
+      await deleteDesignReport(report);
+    } catch (e) {
+      console.error('Error deleting report', e);
+      setReports(original);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Reports</h3>
+        <p className="text-sm text-gray-600">
+          PDF report of a design: layout, field segments, bill of materials, shading and, once simulated, energy production.
+        </p>
+      </div>
+
+      {designs.length === 0 ? (
+        <div className="bg-white border rounded-lg text-center p-12 text-gray-500">Create a design to generate a report.</div>
+      ) : (
+        <>
+          <div className="flex items-center space-x-2">
+            <select
+              value={selectedDesignId}
+              onChange={(e) => setSelectedDesignId(e.target.value)}
+              className="p-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              {designs.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </select>
+            <button
+              onClick={handleGenerate}
+              disabled={!!progress || !selectedDesign}
+              className="bg-cyan-500 text-white px-4 py-2 rounded-lg hover:bg-cyan-600 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              {progress ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+              <span>{progress ?? 'Generate Report'}</span>
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="bg-white border rounded-lg overflow-hidden">
+            {reports.length === 0 ? (
+              <div className="text-center p-8 text-gray-500">No saved reports for this design.</div>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-gray-700">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium">Version</th>
+                    <th className="px-4 py-2 text-left font-medium">Generated</th>
+                    <th className="px-4 py-2 text-right font-medium">Modules</th>
+                    <th className="px-4 py-2 text-right font-medium">kWp</th>
+                    <th className="px-4 py-2 text-right font-medium">Annual kWh</th>
+                    <th className="px-4 py-2 text-right font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {reports.map(r => (
+                    <tr key={r.id}>
+                      <td className="px-4 py-2 text-gray-900 font-medium">v{r.version}</td>
+                      <td className="px-4 py-2 text-gray-600">{new Date(r.created_at).toLocaleString()}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">{r.summary?.moduleCount ?? '-'}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">{r.summary ? r.summary.kwp.toFixed(2) : '-'}</td>
+                      <td className="px-4 py-2 text-right text-gray-600">{r.summary?.annualKwh != null ? Math.round(r.summary.annualKwh).toLocaleString() : '-'}</td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => handleDownload(r)}
+                          disabled={downloadingId === r.id}
+                          className="p-2 text-gray-500 hover:text-blue-600 rounded-md hover:bg-gray-100"
+                          title="Download"
+                        >
+                          {downloadingId === r.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                        </button>
+                        {!readOnly && (
+                          <button onClick={() => handleDelete(r)} className="p-2 text-gray-500 hover:text-red-600 rounded-md hover:bg-gray-100" title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReportsTab;
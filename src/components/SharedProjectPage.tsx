@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { Link2Off, Loader2 } from 'lucide-react';
+import { ProjectData } from '../types/project';
+import ProjectPage from './ProjectPage';
+import { resolveShareLink } from '../integrations/supabase/repository';
+
+interface SharedProjectPageProps {
+  token: string;
+  onExit: () => void;
+}
+
+// A project opened from a read-only share link, without signing in
+const SharedProjectPage: React.FC<SharedProjectPageProps> = ({ token, onExit }) => {
+  const [project, setProject] = useState<ProjectData | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'invalid'>('loading');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const shared = await resolveShareLink(token);
+        setProject(shared);
+        setStatus(shared ? 'ready' : 'invalid');
+      } catch (error) {
+        console.error('Error opening share link', error);
+        setStatus('invalid');
+      }
+    };
+    load();
+  }, [token]);
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-orange-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (status === 'invalid' || !project) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center">
+          <Link2Off className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">This link is invalid or has expired</h3>
+          <p className="text-gray-500 mb-6">Ask the project owner for a new link.</p>
+          <button onClick={onExit} className="bg-orange-500 text-white px-6 py-2 rounded-lg hover:bg-orange-600 transition-colors">
+            Go to HelioScope
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return <ProjectPage project={project} onBack={onExit} onUpdateProject={() => {}} readOnly />;
+};
+
+export default SharedProjectPage;
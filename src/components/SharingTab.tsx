@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, Link2, Trash2, UserPlus } from 'lucide-react';
+import { ProjectData, ProjectMember, ProjectRole, ShareLink } from '../types/project';
+import {
+  createShareLink,
+  fetchProjectMembers,
+  fetchShareLinks,
+  inviteProjectMember,
+  removeProjectMember,
+  revokeShareLink,
+  updateProjectMemberRole,
+} from '../integrations/supabase/repository';
+
+interface SharingTabProps {
+  project: ProjectData;
+  canManage: boolean; // project owners invite people and create links; others only see who has access
+}
+
+const ROLES: Array<{ value: ProjectRole; label: string; description: string }> = [
+  { value: 'viewer', label: 'Viewer', description: 'Can open the project and its designs' },
+  { value: 'editor', label: 'Editor', description: 'Can also change designs and conditions' },
+  { value: 'owner', label: 'Owner', description: 'Can also manage sharing and delete the project' },
+];
+
+const LINK_EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+const shareUrl = (link: ShareLink) => `${window.location.origin}${window.location.pathname}?share=${link.token}`;
+
+const SharingTab: React.FC<SharingTabProps> = ({ project, canManage }) => {
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<ProjectRole>('viewer');
+  const [isInviting, setIsInviting] = useState(false);
+  const [expiryDays, setExpiryDays] = useState(7);
+  const [isCreatingLink, setIsCreatingLink] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setMembers(await fetchProjectMembers(project.id));
+        if (canManage) setLinks(await fetchShareLinks(project.id));
+      } catch (e) {
+        console.error('Error fetching sharing settings', e);
+      }
+    };
+    load();
+  }, [project.id, canManage]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = email.trim().toLowerCase();
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(address)) {
+      setError('Enter a valid email address.');
+      return;
+    }
+    if (members.some(m => m.email === address)) {
+      setError(`${address} already has access.`);
+      return;
+    }
+    setIsInviting(true);
+    setError('');
+    try {
+      const member = await inviteProjectMember(project.id, address, role);
+      setMembers(prev => [...prev, member]);
+      setEmail('');
+    } catch (e) {
+      console.error('Error inviting member', e);
+      setError('Could not send the invitation.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleChangeRole = async (member: ProjectMember, next: ProjectRole) => {
+    setMembers(prev => prev.map(m => m.id === member.id ? { ...m, role: next } : m));
+    try {
+      await updateProjectMemberRole(member.id, next);
+    } catch (e) {
+      console.error('Error changing role', e);
+      setMembers(prev => prev.map(m => m.id === member.id ? member : m));
+    }
+  };
+
+  const handleRemove = async (member: ProjectMember) => {
+    const original = [...members];
+    setMembers(prev => prev.filter(m => m.id !== member.id));
+    try {
+      await removeProjectMember(member.id);
+    } catch (e) {
+      console.error('Error removing member', e);
+      setMembers(original);
+    }
+  };
+
+  const handleCreateLink = async () => {
+    setIsCreatingLink(true);
+    setError('');
+    try {
+      const link = await createShareLink(project.id, expiryDays);
+      setLinks(prev => [link, ...prev]);
+    } catch (e) {
+      console.error('Error creating share link', e);
+      setError('Could not create the link.');
+    } finally {
+      setIsCreatingLink(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    const original = [...links];
+    setLinks(prev => prev.filter(l => l.id !== link.id));
+    try {
+      await revokeShareLink(link.id);
+    } catch (e) {
+      console.error('Error revoking share link', e);
+      setLinks(original);
+    }
+  };
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(prev => prev === link.id ? null : prev), 2000);
+    } catch (e) {
+      console.error('Error copying link', e);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">People</h3>
+          <p className="text-sm text-gray-600">
+            Members of the project's organization can always edit it. Invite others by email; they get access when they sign in with that address.
+          </p>
+        </div>
+        {canManage && (
+          <form onSubmit={handleInvite} className="flex space-x-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              className="flex-1 p-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as ProjectRole)}
+              className="p-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              {ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+            </select>
+            <button
+              type="submit"
+              disabled={isInviting || !email.trim()}
+              className="bg-cyan-500 text-white px-4 py-2 rounded-lg hover:bg-cyan-600 transition-colors flex items-center space-x-2 disabled:opacity-50"
+            >
+              <UserPlus className="w-4 h-4" />
+              <span>{isInviting ? 'Inviting...' : 'Invite'}</span>
+            </button>
+          </form>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="bg-white border rounded-lg overflow-hidden">
+          {members.length === 0 ? (
+            <div className="text-center p-8 text-gray-500">Not shared with anyone outside the organization.</div>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-gray-700">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">Email</th>
+                  <th className="px-4 py-2 text-left font-medium">Role</th>
+                  <th className="px-4 py-2 text-right font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {members.map(m => (
+                  <tr key={m.id} className="border-t">
+                    <td className="px-4 py-2 text-gray-900">{m.email}</td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {canManage ? (
+                        <select
+                          value={m.role}
+                          onChange={(e) => handleChangeRole(m, e.target.value as ProjectRole)}
+                          title={ROLES.find(r => r.value === m.role)?.description}
+                          className="p-1 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                        >
+                          {ROLES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                        </select>
+                      ) : ROLES.find(r => r.value === m.role)?.label}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {canManage && (
+                        <button onClick={() => handleRemove(m)} className="p-2 text-gray-500 hover:text-red-600 rounded-md hover:bg-gray-100" aria-label={`Remove ${m.email}`}>
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {canManage && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Read-only Links</h3>
+              <p className="text-sm text-gray-600">Anyone with the link can view the project and its designs, without signing in, until it expires.</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <select
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(Number(e.target.value))}
+                className="p-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+                aria-label="Link expiry"
+              >
+                {LINK_EXPIRY_OPTIONS.map(o => <option key={o.days} value={o.days}>Expires in {o.label}</option>)}
+              </select>
+              <button
+                onClick={handleCreateLink}
+                disabled={isCreatingLink}
+                className="bg-cyan-500 text-white px-4 py-2 rounded-lg hover:bg-cyan-600 transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Link2 className="w-4 h-4" />
+                <span>{isCreatingLink ? 'Creating...' : 'Create Link'}</span>
+              </button>
+            </div>
+          </div>
+          <div className="bg-white border rounded-lg overflow-hidden">
+            {links.length === 0 ? (
+              <div className="text-center p-8 text-gray-500">No share links yet.</div>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-gray-700">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium">Link</th>
+                    <th className="px-4 py-2 text-left font-medium">Expires</th>
+                    <th className="px-4 py-2 text-right font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {links.map(l => {
+                    const expired = new Date(l.expiresAt).getTime() <= Date.now();
+                    return (
+                      <tr key={l.id} className="border-t">
+                        <td className="px-4 py-2 text-gray-900 font-mono text-xs truncate max-w-xs">{shareUrl(l)}</td>
+                        <td className={`px-4 py-2 ${expired ? 'text-red-600' : 'text-gray-600'}`}>
+                          {expired ? 'Expired' : new Date(l.expiresAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2 text-right whitespace-nowrap">
+                          {!expired && (
+                            <button onClick={() => handleCopy(l)} className="p-2 text-gray-500 hover:text-blue-600 rounded-md hover:bg-gray-100" aria-label="Copy link">
+                              {copiedId === l.id ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                            </button>
+                          )}
+                          <button onClick={() => handleRevoke(l)} className="p-2 text-gray-500 hover:text-red-600 rounded-md hover:bg-gray-100" aria-label="Revoke link">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharingTab;
@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { Camera, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { DesignSnapshot } from '../types/project';
+import { diffSnapshots } from '../utils/snapshots';
+import { formatArea } from '../utils/mapUtils';
+
+interface SnapshotsPanelProps {
+  snapshots: DesignSnapshot[];
+  current: DesignSnapshot; // live design, serialized like a snapshot
+  onCreate: (name: string) => Promise<void>;
+  onDelete: (id: string) => void;
+  onRestore: (snapshot: DesignSnapshot) => Promise<void>;
+  readOnly?: boolean; // browse and compare only
+}
+
+const CURRENT_ID = 'current';
+
+const signed = (n: number, digits = 0) => `${n > 0 ? '+' : ''}${n.toFixed(digits)}`;
+
+const SnapshotsPanel: React.FC<SnapshotsPanelProps> = ({ snapshots, current, onCreate, onDelete, onRestore, readOnly = false }) => {
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmRestoreId, setConfirmRestoreId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(CURRENT_ID);
+
+  const options = [{ ...current, id: CURRENT_ID, name: 'Current design' }, ...snapshots];
+  const find = (id: string) => options.find(s => s.id === id);
+  const from = find(fromId);
+  const to = find(toId);
+  const diff = useMemo(() => (from && to && from.id !== to.id ? diffSnapshots(from, to) : null), [from, to]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      await onCreate(name.trim());
+      setName('');
+    } catch {
+      setError('Could not save the snapshot.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: DesignSnapshot) => {
+    setConfirmRestoreId(null);
+    setRestoringId(snapshot.id);
+    setError('');
+    try {
+      await onRestore(snapshot);
+    } catch {
+      setError('Could not restore the snapshot. The design was left unchanged.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-bold text-gray-800 mb-2">Snapshots</h3>
+        {!readOnly && <form onSubmit={handleCreate} className="flex space-x-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Proposal v1"
+            className="flex-1 p-2 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500"
+          />
+          <button type="submit" disabled={isSaving || !name.trim()} className="bg-orange-500 text-white px-3 py-1 rounded-md text-sm font-semibold hover:bg-orange-600 flex items-center space-x-1 disabled:opacity-60">
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}
+            <span>Save</span>
+          </button>
+        </form>}
+        {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+      </div>
+
+      <div className="border-t pt-4">
+        {snapshots.length === 0 ? (
+          <div className="text-center py-6 text-sm text-gray-500">No snapshots yet</div>
+        ) : (
+          <div className="space-y-2">
+            {snapshots.map((s) => (
+              <div key={s.id} className="text-sm p-2 bg-gray-50 rounded-md">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium text-gray-800">{s.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(s.created_at).toLocaleString()} · {s.stats.moduleCount} modules · {s.stats.kwp.toFixed(2)} kWp
+                    </div>
+                  </div>
+                  {!readOnly && <div className="flex items-center">
+                    <button onClick={() => setConfirmRestoreId(s.id)} disabled={restoringId !== null} title="Restore into the live design" className="p-1 text-gray-500 hover:text-orange-600 rounded-full hover:bg-orange-100">
+                      {restoringId === s.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                    </button>
+                    <button onClick={() => onDelete(s.id)} className="p-1 text-gray-500 hover:text-red-600 rounded-full hover:bg-red-100">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>}
+                </div>
+                {confirmRestoreId === s.id && (
+                  <div className="mt-2 p-2 bg-orange-50 border border-orange-200 rounded-md text-xs text-gray-700">
+                    Replace the current segments, keepouts, trees and electrical settings with this snapshot?
+                    <div className="flex justify-end space-x-2 mt-2">
+                      <button onClick={() => setConfirmRestoreId(null)} className="px-2 py-1 bg-gray-200 rounded-md hover:bg-gray-300">Cancel</button>
+                      <button onClick={() => handleRestore(s)} className="px-2 py-1 bg-orange-500 text-white rounded-md hover:bg-orange-600">Restore</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="border-t pt-4">
+        <h4 className="text-sm font-semibold text-gray-800 mb-2">Compare</h4>
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          {[{ label: 'From', value: fromId, set: setFromId }, { label: 'To', value: toId, set: setToId }].map(({ label, value, set }) => (
+            <label key={label} className="text-xs text-gray-600">
+              {label}
+              <select value={value} onChange={(e) => set(e.target.value)} className="mt-1 w-full p-1 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-orange-500">
+                <option value="">Select...</option>
+                {options.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+        {diff && (
+          <div className="text-xs text-gray-700 space-y-2">
+            <div className="grid grid-cols-2 gap-1 p-2 bg-gray-50 rounded-md">
+              <span>Modules</span>
+              <span className="text-right font-medium">
+                {diff.moduleCount.before} → {diff.moduleCount.after} ({signed(diff.moduleCount.after - diff.moduleCount.before)})
+              </span>
+              <span>DC Nameplate</span>
+              <span className="text-right font-medium">
+                {diff.kwp.before.toFixed(2)} → {diff.kwp.after.toFixed(2)} kWp ({signed(diff.kwp.after - diff.kwp.before, 2)})
+              </span>
+            </div>
+            {diff.added.length > 0 && (
+              <div><span className="font-semibold text-green-700">Added:</span> {diff.added.map(s => s.description).join(', ')}</div>
+            )}
+            {diff.removed.length > 0 && (
+              <div><span className="font-semibold text-red-700">Removed:</span> {diff.removed.map(s => s.description).join(', ')}</div>
+            )}
+            {diff.geometryChanged.map(({ segment, areaBefore, areaAfter }) => (
+              <div key={`g-${segment.id}`}>
+                <span className="font-semibold">{segment.description}</span> outline changed ({formatArea(areaBefore)} → {formatArea(areaAfter)})
+              </div>
+            ))}
+            {diff.settingsChanged.map(({ segment, fields }) => (
+              <div key={`s-${segment.id}`}>
+                <span className="font-semibold">{segment.description}</span> settings: {fields.join(', ')}
+              </div>
+            ))}
+            {diff.segmentStats.map((s) => (
+              <div key={`c-${s.id}`} className="text-gray-600">
+                {s.description}: {s.moduleCountBefore} → {s.moduleCountAfter} modules, {s.kwpBefore.toFixed(2)} → {s.kwpAfter.toFixed(2)} kWp
+              </div>
+            ))}
+            {diff.electricalChanged.length > 0 && (
+              <div><span className="font-semibold">Electrical:</span> {diff.electricalChanged.join(', ')}</div>
+            )}
+            {!diff.added.length && !diff.removed.length && !diff.geometryChanged.length && !diff.settingsChanged.length && !diff.electricalChanged.length && (
+              <div className="text-gray-500">No layout differences.</div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SnapshotsPanel;
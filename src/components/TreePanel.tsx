@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { Tree } from '../types/project';
+import { ArrowLeft, Trash2 } from 'lucide-react';
+import FormField from './FormField';
+import SelectField from './SelectField';
+import NumberInputWithUnit from './NumberInputWithUnit';
+import { DECIDUOUS_TRANSPARENCY, EVERGREEN_TRANSPARENCY } from '../utils/trees';
+
+interface TreePanelProps {
+  tree: Tree;
+  onBack: () => void;
+  onDelete: (id: string) => void;
+  onUpdate: (id: string, data: Partial<Tree>) => void;
+  readOnly?: boolean;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const TreePanel: React.FC<TreePanelProps> = ({ tree, onBack, onDelete, onUpdate, readOnly = false }) => {
+  const [formData, setFormData] = useState(tree);
+
+  useEffect(() => {
+    setFormData(tree);
+  }, [tree]);
+
+  const handleUpdate = <K extends keyof Tree>(field: K, value: Tree[K]) => {
+    setFormData({ ...formData, [field]: value });
+    onUpdate(tree.id, { [field]: value });
+  };
+
+  const handleTransparency = (index: number, percent: number) => {
+    const next = formData.monthlyTransparency.slice();
+    next[index] = Math.min(100, Math.max(0, percent)) / 100;
+    handleUpdate('monthlyTransparency', next);
+  };
+
+  return (
+    <div className="p-4 h-full flex flex-col bg-gray-50 overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <button onClick={onBack} className="text-sm text-blue-600 hover:underline flex items-center">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          back to list
+        </button>
+        {!readOnly && (
+          <button onClick={() => onDelete(tree.id)} className="p-2 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-md">
+            <Trash2 className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+
+      <h3 className="font-bold text-lg text-gray-800">{tree.description}</h3>
+      <p className="text-sm text-gray-600 mb-4">Tree</p>
+
+      <fieldset disabled={readOnly} className="space-y-4">
+        <FormField
+          label="Description"
+          id="tree-description"
+          value={formData.description}
+          onChange={(val) => handleUpdate('description', val)}
+        />
+        <SelectField
+          label="Canopy Shape"
+          id="tree-canopy-shape"
+          value={formData.canopyShape}
+          onChange={(val) => handleUpdate('canopyShape', val === 'conical' ? 'conical' : 'round')}
+          options={[{ value: 'round', label: 'Round' }, { value: 'conical', label: 'Conical' }]}
+        />
+        <div>
+          <NumberInputWithUnit label="Total Height" value={formData.totalHeight} onChange={(val) => handleUpdate('totalHeight', Math.max(0, val))} unit="ft" min={0} />
+          <NumberInputWithUnit label="Canopy Height" value={formData.canopyHeight} onChange={(val) => handleUpdate('canopyHeight', Math.min(formData.totalHeight, Math.max(0, val)))} unit="ft" min={0} />
+          <NumberInputWithUnit label="Canopy Radius" value={formData.canopyRadius} onChange={(val) => handleUpdate('canopyRadius', Math.max(0, val))} unit="ft" min={0} />
+        </div>
+        <p className="text-xs text-gray-500">
+          Canopy height is the vertical depth of the crown, measured down from the top of the tree.
+        </p>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-semibold text-gray-800">Monthly Transparency</h4>
+            <div className="flex space-x-1 text-xs">
+              <button onClick={() => handleUpdate('monthlyTransparency', EVERGREEN_TRANSPARENCY.slice())} className="px-2 py-1 rounded-md border border-gray-300 text-gray-600 hover:bg-gray-100">Evergreen</button>
+              <button onClick={() => handleUpdate('monthlyTransparency', DECIDUOUS_TRANSPARENCY.slice())} className="px-2 py-1 rounded-md border border-gray-300 text-gray-600 hover:bg-gray-100">Deciduous</button>
+            </div>
+          </div>
+          {MONTHS.map((label, i) => (
+            <NumberInputWithUnit
+              key={label}
+              label={label}
+              value={Math.round((formData.monthlyTransparency[i] ?? 0) * 100)}
+              onChange={(val) => handleTransparency(i, val)}
+              unit="%"
+              min={0}
+              max={100}
+              step={5}
+            />
+          ))}
+          <p className="text-xs text-gray-500">
+            Share of direct sun that passes through the crown, e.g. 70% for a bare deciduous tree in winter.
+          </p>
+        </div>
+      </fieldset>
+    </div>
+  );
+};
+
+export default TreePanel;
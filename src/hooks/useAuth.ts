@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../integrations/supabase/client';
+import { discardOfflineData } from '../integrations/supabase/offlineSync';
+
+// Current Supabase session (restored from storage on load, so it also works offline)
+export const useAuth = () => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setLoading(false);
+    });
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => setSession(next));
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await discardOfflineData().catch((error) => console.error('Error clearing offline data:', error));
+    const { error } = await supabase.auth.signOut();
+    if (error) console.error('Error signing out:', error);
+  }, []);
+
+  return { session, user: session?.user ?? null, loading, signOut };
+};
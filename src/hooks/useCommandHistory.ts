@@ -0,0 +1,81 @@
+import { useCallback, useRef, useState } from 'react';
+
+// A reversible editor action. undo/redo must bring both local state and the database to the other side.
+export interface Command {
+  label: string;
+  undo: () => void | Promise<void>;
+  redo: () => void | Promise<void>;
+  // Consecutive commands with the same key (e.g. typing into one field) collapse into a single step
+  mergeKey?: string;
+  // The field segment the step changes, so the editor can hold it back while someone else has it
+  segmentId?: string;
+}
+
+const MERGE_WINDOW_MS = 1000;
+
+export const useCommandHistory = (limit = 100) => {
+  const undoRef = useRef<Array<Command & { at: number }>>([]);
+  const redoRef = useRef<Command[]>([]);
+  const busyRef = useRef(false);
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  // Record an action that has already been applied
+  const push = useCallback((cmd: Command) => {
+    const now = Date.now();
+    const top = undoRef.current[undoRef.current.length - 1];
+    if (top && cmd.mergeKey && top.mergeKey === cmd.mergeKey && now - top.at < MERGE_WINDOW_MS) {
+      // Keep the oldest undo, take the newest redo
+      undoRef.current[undoRef.current.length - 1] = { ...top, redo: cmd.redo, at: now };
+    } else {
+      undoRef.current = [...undoRef.current, { ...cmd, at: now }].slice(-limit);
+    }
+    redoRef.current = [];
+    bump();
+  }, [limit]);
+
+  // Steps run one at a time; a failed step stays on its stack so the user can retry
+  const step = useCallback(async (from: 'undo' | 'redo') => {
+    if (busyRef.current) return false;
+    const source = from === 'undo' ? undoRef : redoRef;
+    const cmd = source.current[source.current.length - 1];
+    if (!cmd) return false;
+    busyRef.current = true;
+    try {
+      await cmd[from]();
+      source.current = source.current.slice(0, -1);
+      if (from === 'undo') redoRef.current = [...redoRef.current, cmd];
+      else undoRef.current = [...undoRef.current, { ...cmd, at: 0 }];
+      return true;
+    } catch (err) {
+      console.error(`Error during ${from} of "${cmd.label}":`, err);
+      throw err;
+    } finally {
+      busyRef.current = false;
+      bump();
+    }
+  }, []);
+
+  const undo = useCallback(() => step('undo'), [step]);
+  const redo = useCallback(() => step('redo'), [step]);
+
+  // Drop all history, e.g. after the underlying data was replaced wholesale
+  const clear = useCallback(() => {
+    undoRef.current = [];
+    redoRef.current = [];
+    bump();
+  }, []);
+
+  return {
+    push,
+    undo,
+    redo,
+    clear,
+    canUndo: undoRef.current.length > 0,
+    canRedo: redoRef.current.length > 0,
+    undoLabel: undoRef.current[undoRef.current.length - 1]?.label,
+    redoLabel: redoRef.current[redoRef.current.length - 1]?.label,
+    undoSegmentId: undoRef.current[undoRef.current.length - 1]?.segmentId,
+    redoSegmentId: redoRef.current[redoRef.current.length - 1]?.segmentId,
+  };
+};
@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../integrations/supabase/client';
+import type { Tables } from '../integrations/supabase/types';
+
+export interface Collaborator {
+  clientId: string;
+  name: string;
+  color: string;
+  selectedSegmentId: string | null;
+  selectedAt: number | null; // when the selection started; the earliest holder owns the segment
+}
+
+export type SegmentChange = RealtimePostgresChangesPayload<Tables<'field_segments'>>;
+
+const COLORS = ['#2563eb', '#16a34a', '#9333ea', '#db2777', '#0891b2', '#ca8a04', '#dc2626', '#4f46e5'];
+const NAME_KEY = 'collaboration:displayName';
+
+// One identity per tab, so two tabs of the same person also see each other
+const clientId = crypto.randomUUID();
+
+export const displayName = () => {
+  let name = localStorage.getItem(NAME_KEY);
+  if (!name) {
+    name = `Guest ${clientId.slice(0, 4).toUpperCase()}`;
+    localStorage.setItem(NAME_KEY, name);
+  }
+  return name;
+};
+
+// Signed-in users appear under their account name rather than a guest name
+export const setDisplayName = (name: string) => localStorage.setItem(NAME_KEY, name);
+
+const colorFor = (id: string) => {
+  let h = 0;
+  for (let i = 0; i < id.length; i++) h = (h * 31 + id.charCodeAt(i)) | 0;
+  return COLORS[Math.abs(h) % COLORS.length];
+};
+
+// Who holds a segment: the collaborator that selected it first (ties broken by client id)
+const lockHolder = (holders: Collaborator[]) =>
+  holders.reduce<Collaborator | null>((best, c) => {
+    if (!best) return c;
+    const a = c.selectedAt ?? Infinity;
+    const b = best.selectedAt ?? Infinity;
+    return a < b || (a === b && c.clientId < best.clientId) ? c : best;
+  }, null);
+
+interface Options {
+  designId: string;
+  selectedSegmentId: string | null;
+  onSegmentChange: (change: SegmentChange) => void;
+}
+
+// Presence (who is in the design, what they have selected) and live field_segments changes
+// over a Supabase Realtime channel per design
+export const useDesignCollaboration = ({ designId, selectedSegmentId, onSegmentChange }: Options) => {
+  const [others, setOthers] = useState<Collaborator[]>([]);
+  const [connected, setConnected] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const onChangeRef = useRef(onSegmentChange);
+  onChangeRef.current = onSegmentChange;
+
+  const me = useMemo<Collaborator>(() => ({
+    clientId,
+    name: displayName(),
+    color: colorFor(clientId),
+    selectedSegmentId,
+    selectedAt: selectedSegmentId ? Date.now() : null,
+  }), [selectedSegmentId]);
+  const meRef = useRef(me);
+  meRef.current = me;
+
+  useEffect(() => {
+    const channel = supabase.channel(`design:${designId}`, { config: { presence: { key: clientId } } });
+    channelRef.current = channel;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<Collaborator>();
+        setOthers(Object.entries(state)
+          .filter(([key]) => key !== clientId)
+          .map(([, metas]) => metas[metas.length - 1])
+          .filter(Boolean));
+      })
+      .on<Tables<'field_segments'>>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'field_segments', filter: `design_id=eq.${designId}` }, (p) => onChangeRef.current(p))
+      .on<Tables<'field_segments'>>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'field_segments', filter: `design_id=eq.${designId}` }, (p) => onChangeRef.current(p))
+      // Delete events can't be filtered by column; the editor ignores ids it doesn't have
+      .on<Tables<'field_segments'>>('postgres_changes', { event: 'DELETE', schema: 'public', table: 'field_segments' }, (p) => onChangeRef.current(p))
+      .subscribe((status) => {
+        setConnected(status === 'SUBSCRIBED');
+        if (status === 'SUBSCRIBED') channel.track(meRef.current);
+      });
+
+    return () => {
+      channelRef.current = null;
+      setOthers([]);
+      supabase.removeChannel(channel);
+    };
+  }, [designId]);
+
+  // Publish selection changes
+  useEffect(() => {
+    if (connected) channelRef.current?.track(me);
+  }, [me, connected]);
+
+  // segmentId -> collaborator holding it, when that isn't this client. Advisory only: derived from
+  // presence and honoured by the editor, not enforced by RLS.
+  const locks = useMemo(() => {
+    const bySegment = new Map<string, Collaborator[]>();
+    [me, ...others].forEach((c) => {
+      if (!c.selectedSegmentId) return;
+      bySegment.set(c.selectedSegmentId, [...(bySegment.get(c.selectedSegmentId) ?? []), c]);
+    });
+    const out: Record<string, Collaborator> = {};
+    bySegment.forEach((holders, segmentId) => {
+      const holder = lockHolder(holders);
+      if (holder && holder.clientId !== clientId) out[segmentId] = holder;
+    });
+    return out;
+  }, [me, others]);
+
+  return { me, others, locks, connected };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Organization } from '../types/project';
+import { createOrganization, fetchOrganizations } from '../integrations/supabase/repository';
+
+const CURRENT_ORG_KEY = 'organizations:current';
+
+// The signed-in user's organizations and the one the app is scoped to. A user without any
+// (first sign-in) gets a personal organization.
+export const useOrganizations = (userId: string | null, userEmail?: string) => {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [currentOrgId, setCurrentOrgId] = useState<string | null>(() => localStorage.getItem(CURRENT_ORG_KEY));
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setOrganizations([]);
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      try {
+        let orgs = await fetchOrganizations(userId);
+        if (!orgs.length) orgs = [await createOrganization(userEmail ? `${userEmail.split('@')[0]}'s projects` : 'Personal')];
+        if (cancelled) return;
+        setOrganizations(orgs);
+        setCurrentOrgId(prev => (prev && orgs.some(o => o.id === prev) ? prev : orgs[0].id));
+      } catch (error) {
+        console.error('Error loading organizations:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [userId, userEmail]);
+
+  useEffect(() => {
+    if (currentOrgId) localStorage.setItem(CURRENT_ORG_KEY, currentOrgId);
+  }, [currentOrgId]);
+
+  const create = useCallback(async (name: string) => {
+    const org = await createOrganization(name);
+    setOrganizations(prev => [...prev, org]);
+    setCurrentOrgId(org.id);
+    return org;
+  }, []);
+
+  // Offline the memberships can't be fetched, but the last used org is still known
+  const currentOrg = organizations.find(o => o.id === currentOrgId)
+    ?? (currentOrgId && !loading && !organizations.length ? { id: currentOrgId, name: 'Offline', role: 'member' as const } : null);
+
+  return { organizations, currentOrg, selectOrg: setCurrentOrgId, createOrg: create, loading };
+};
@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react';
+import { getSyncStatus, subscribeSyncStatus, SyncStatus } from '../integrations/supabase/offlineSync';
+
+// Connectivity and offline-queue state, re-rendering on every change
+export const useSyncStatus = (): SyncStatus => {
+  const [status, setStatus] = useState(getSyncStatus);
+  useEffect(() => {
+    setStatus(getSyncStatus());
+    return subscribeSyncStatus(setStatus);
+  }, []);
+  return status;
+};
@@ -0,0 +1,128 @@
+// IndexedDB mirror of the tables the editor needs offline, plus the queue of mutations
+// that have not reached Supabase yet.
+
+export type CachedTable = 'projects' | 'designs' | 'field_segments';
+export type CachedRow = Record<string, unknown> & { id: string };
+
+export interface QueuedMutation {
+  seq?: number; // assigned by IndexedDB, replay order
+  table: CachedTable;
+  op: 'insert' | 'update' | 'delete';
+  rowId: string;
+  values?: Record<string, unknown>; // full row for inserts, changed columns for updates
+  base?: Record<string, unknown>;   // the changed columns as last seen on the server
+  queuedAt: string;
+}
+
+const DB_NAME = 'solar-design-offline';
+const DB_VERSION = 2; // 2: projects listed by org_id
+const QUEUE = 'queue';
+
+// Parent key each table is listed by
+const PARENT_KEY: Record<CachedTable, string | null> = {
+  projects: 'org_id',
+  designs: 'project_id',
+  field_segments: 'design_id',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        const tx = req.transaction!;
+        (Object.keys(PARENT_KEY) as CachedTable[]).forEach((table) => {
+          const store = db.objectStoreNames.contains(table)
+            ? tx.objectStore(table)
+            : db.createObjectStore(table, { keyPath: 'id' });
+          const parent = PARENT_KEY[table];
+          if (parent && !store.indexNames.contains(parent)) store.createIndex(parent, parent);
+        });
+        if (!db.objectStoreNames.contains(QUEUE)) db.createObjectStore(QUEUE, { keyPath: 'seq', autoIncrement: true });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(name: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void) => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(name, mode);
+    const req = fn(tx.objectStore(name));
+    tx.oncomplete = () => resolve(req ? req.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Cached rows
+
+// Replace the cached rows listed under a parent (or the whole table) with a fresh server copy
+export const replaceCachedRows = async (table: CachedTable, rows: CachedRow[], parentId?: string) => {
+  const db = await openDb();
+  const parent = PARENT_KEY[table];
+  const stale = parent && parentId
+    ? await request(db.transaction(table).objectStore(table).index(parent).getAllKeys(parentId))
+    : await request(db.transaction(table).objectStore(table).getAllKeys());
+  await withStore(table, 'readwrite', (store) => {
+    stale.forEach((key) => store.delete(key));
+    rows.forEach((row) => store.put(row));
+  });
+};
+
+export const getCachedRows = async (table: CachedTable, parentId?: string) => {
+  const db = await openDb();
+  const store = db.transaction(table).objectStore(table);
+  const parent = PARENT_KEY[table];
+  const rows = parent && parentId ? await request(store.index(parent).getAll(parentId)) : await request(store.getAll());
+  return rows as CachedRow[];
+};
+
+export const getCachedRow = async (table: CachedTable, id: string) =>
+  (await withStore<CachedRow | undefined>(table, 'readonly', (store) => store.get(id))) ?? null;
+
+export const putCachedRow = (table: CachedTable, row: CachedRow) =>
+  withStore(table, 'readwrite', (store) => { store.put(row); });
+
+export const deleteCachedRow = (table: CachedTable, id: string) =>
+  withStore(table, 'readwrite', (store) => { store.delete(id); });
+
+// Mutation queue
+
+export const enqueueMutation = (mutation: QueuedMutation) =>
+  withStore(QUEUE, 'readwrite', (store) => { store.add(mutation); });
+
+export const getQueuedMutations = async () =>
+  ((await withStore<QueuedMutation[]>(QUEUE, 'readonly', (store) => store.getAll())) ?? []);
+
+export const removeQueuedMutation = (seq: number) =>
+  withStore(QUEUE, 'readwrite', (store) => { store.delete(seq); });
+
+export const countQueuedMutations = async () =>
+  (await withStore<number>(QUEUE, 'readonly', (store) => store.count())) ?? 0;
+
+// Forget everything cached for the signed-in user (on sign-out, so the next user starts clean)
+export const clearOfflineData = async () => {
+  const db = await openDb();
+  const stores = [...Object.keys(PARENT_KEY), QUEUE];
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(stores, 'readwrite');
+    stores.forEach((name) => tx.objectStore(name).clear());
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,179 @@
+import { supabase } from './client';
+import type { TablesInsert, TablesUpdate } from './types';
+import {
+  CachedRow,
+  QueuedMutation,
+  clearOfflineData,
+  countQueuedMutations,
+  deleteCachedRow,
+  enqueueMutation,
+  getQueuedMutations,
+  putCachedRow,
+  removeQueuedMutation,
+} from './localDb';
+
+export interface SyncStatus {
+  online: boolean;
+  pending: number;   // queued mutations not yet on the server
+  syncing: boolean;
+  conflicts: number; // queued changes dropped because the server row changed meanwhile
+}
+
+let status: SyncStatus = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pending: 0,
+  syncing: false,
+  conflicts: 0,
+};
+const listeners = new Set<(s: SyncStatus) => void>();
+
+const setStatus = (patch: Partial<SyncStatus>) => {
+  status = { ...status, ...patch };
+  listeners.forEach((l) => l(status));
+};
+
+export const getSyncStatus = () => status;
+
+export const subscribeSyncStatus = (listener: (s: SyncStatus) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// PostgREST reports a failed fetch as an error object rather than throwing
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = typeof error === 'object' && error !== null && 'message' in error
+    ? String(error.message ?? '')
+    : String(error ?? '');
+  return /Failed to fetch|NetworkError|Load failed|network/i.test(message);
+};
+
+const RETRY_MS = 15000;
+
+const refreshPending = async () => setStatus({ pending: await countQueuedMutations() });
+
+// Browser reports a connection but the server is unreachable: there is no 'online' event to wait for
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const scheduleRetry = () => {
+  if (retryTimer || !navigator.onLine) return;
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushQueue();
+  }, RETRY_MS);
+};
+
+// Send a mutation now, or queue it when offline (or behind earlier queued ones, to keep order).
+// The caller has already applied the change to the local cache.
+export const submitMutation = async (mutation: Omit<QueuedMutation, 'queuedAt'>): Promise<'synced' | 'queued'> => {
+  const queue = async () => {
+    await enqueueMutation({ ...mutation, queuedAt: new Date().toISOString() });
+    await refreshPending();
+    if (status.online) flushQueue();
+    return 'queued' as const;
+  };
+  if (!status.online || status.pending > 0) return queue();
+  try {
+    await sendMutation(mutation);
+    return 'synced';
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    setStatus({ online: false });
+    scheduleRetry();
+    return queue();
+  }
+};
+
+const sendMutation = async (m: Omit<QueuedMutation, 'queuedAt'>) => {
+  const table = supabase.from(m.table as 'projects');
+  const { error } = m.op === 'insert'
+    ? await table.upsert(m.values as TablesInsert<'projects'>, { onConflict: 'id', ignoreDuplicates: true })
+    : m.op === 'update'
+      ? await table.update(m.values as TablesUpdate<'projects'>).eq('id', m.rowId)
+      : await table.delete().eq('id', m.rowId);
+  if (error) throw error;
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Replay one queued update: columns someone else changed while we were offline keep the server value
+const replayUpdate = async (m: QueuedMutation) => {
+  const values = m.values ?? {};
+  const { data: server, error } = await supabase.from(m.table as 'projects').select('*').eq('id', m.rowId).maybeSingle();
+  if (error) throw error;
+  if (!server) return { conflicts: 1 }; // deleted on the server
+  const row = server as unknown as CachedRow;
+  const apply: Record<string, unknown> = {};
+  let conflicts = 0;
+  for (const [column, value] of Object.entries(values)) {
+    const base = m.base?.[column];
+    if (m.base && column in m.base && !sameValue(row[column], base) && !sameValue(row[column], value)) conflicts++;
+    else apply[column] = value;
+  }
+  if (Object.keys(apply).length) await sendMutation({ ...m, values: apply });
+  await putCachedRow(m.table, { ...row, ...apply });
+  return { conflicts };
+};
+
+let flushing: Promise<void> | null = null;
+
+// Replay the queue in order (including anything queued meanwhile); stops at the first network
+// failure and resumes on the next 'online' event or retry
+export const flushQueue = () => {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    setStatus({ syncing: true });
+    try {
+      let batch = await getQueuedMutations();
+      while (batch.length) {
+        for (const m of batch) {
+          try {
+            if (m.op === 'update') {
+              const { conflicts } = await replayUpdate(m);
+              if (conflicts) setStatus({ conflicts: status.conflicts + conflicts });
+            } else {
+              await sendMutation(m);
+              if (m.op === 'delete') await deleteCachedRow(m.table, m.rowId);
+            }
+          } catch (error) {
+            if (isNetworkError(error)) {
+              setStatus({ online: false });
+              scheduleRetry();
+              return;
+            }
+            // Rejected by the server (e.g. the parent row is gone): drop it so the rest can sync
+            console.error(`Dropping queued ${m.op} on ${m.table}:`, error);
+            setStatus({ conflicts: status.conflicts + 1 });
+          }
+          await removeQueuedMutation(m.seq!);
+          await refreshPending();
+        }
+        batch = await getQueuedMutations();
+      }
+      setStatus({ online: true });
+    } finally {
+      setStatus({ syncing: false });
+      flushing = null;
+    }
+  })();
+  return flushing;
+};
+
+export const clearSyncConflicts = () => setStatus({ conflicts: 0 });
+
+// Drop the mirror and any unsynced changes (signing out); tries to send the queue first
+export const discardOfflineData = async () => {
+  if (status.online && status.pending > 0) await flushQueue().catch(() => {});
+  await clearOfflineData();
+  setStatus({ pending: 0, conflicts: 0 });
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    setStatus({ online: true });
+    flushQueue();
+  });
+  window.addEventListener('offline', () => setStatus({ online: false }));
+  refreshPending()
+    .then(() => { if (navigator.onLine && status.pending > 0) flushQueue(); })
+    .catch((error) => console.error('Offline queue unavailable:', error));
+}
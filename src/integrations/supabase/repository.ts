@@ -0,0 +1,414 @@
+import { supabase } from './client';
+import type { Tables, TablesInsert, TablesUpdate } from './types';
+import { CachedRow, CachedTable, countQueuedMutations, deleteCachedRow, getCachedRow, getCachedRows, putCachedRow, replaceCachedRows } from './localDb';
+import { getSyncStatus, isNetworkError, submitMutation } from './offlineSync';
+import { Design, DesignReport, FieldSegment, Organization, OrgRole, ProjectData, ProjectMember, ProjectRole, ShareLink } from '../../types/project';
+import { mapDbToSegment, segmentPatchToDb, segmentToDbRow } from '../../utils/fieldSegments';
+
+// Typed access to projects, designs and field_segments. Every function maps rows to the app's
+// models and throws the PostgREST error on failure, so callers only deal with models.
+// Reads fall back to the IndexedDB mirror and writes are queued while offline (see offlineSync).
+
+// Map a projects row (snake_case) to ProjectData (camelCase)
+export const mapDbToProject = (row: Tables<'projects'>): ProjectData => ({
+  id: row.id,
+  projectName: row.project_name,
+  description: row.description ?? '',
+  address: row.address ?? '',
+  projectType: (row.project_type ?? 'Residential') as ProjectData['projectType'],
+  coordinates: row.lat != null && row.lng != null ? { lat: row.lat, lng: row.lng } : undefined,
+  timeZone: row.time_zone || undefined,
+  ownerId: row.owner_id ?? undefined,
+  orgId: row.org_id ?? undefined,
+  created_at: row.created_at,
+});
+
+// Map the fields present in a (partial) project to a projects row
+export const projectPatchToDb = (patch: Partial<ProjectData>): TablesUpdate<'projects'> => {
+  const row: TablesUpdate<'projects'> = {};
+  if (patch.projectName !== undefined) row.project_name = patch.projectName;
+  if (patch.description !== undefined) row.description = patch.description;
+  if (patch.address !== undefined) row.address = patch.address;
+  if (patch.projectType !== undefined) row.project_type = patch.projectType;
+  if ('coordinates' in patch) {
+    row.lat = patch.coordinates?.lat ?? null;
+    row.lng = patch.coordinates?.lng ?? null;
+  }
+  if ('timeZone' in patch) row.time_zone = patch.timeZone ?? null;
+  return row;
+};
+
+// Map a designs row (snake_case) to Design
+export const mapDbToDesign = (row: Tables<'designs'>): Design => ({
+  id: row.id,
+  name: row.name,
+  clonedFrom: row.cloned_from ?? undefined,
+  project_id: row.project_id,
+  created_at: row.created_at,
+});
+
+// Read from Supabase and refresh the mirror; offline, or while local changes are still queued
+// (the mirror already includes them), serve the mirror instead
+const readThrough = async <T extends CachedTable>(
+  table: T,
+  query: () => PromiseLike<{ data: Tables<T>[] | null; error: unknown }>,
+  parentId?: string,
+): Promise<Tables<T>[]> => {
+  const pending = await countQueuedMutations().catch(() => 0);
+  if (getSyncStatus().online && pending === 0) {
+    const { data, error } = await query();
+    if (!error && data) {
+      await replaceCachedRows(table, data as unknown as CachedRow[], parentId).catch(() => {});
+      return data;
+    }
+    if (!isNetworkError(error)) throw error;
+  }
+  return (await getCachedRows(table, parentId)) as unknown as Tables<T>[];
+};
+
+const byCreatedAt = (ascending: boolean) => (a: { created_at: string }, b: { created_at: string }) =>
+  ascending ? a.created_at.localeCompare(b.created_at) : b.created_at.localeCompare(a.created_at);
+
+// Apply an update to the mirror and send (or queue) it, remembering the columns' previous values
+// so replay can tell whether someone else changed them meanwhile
+const writeUpdate = async (table: CachedTable, id: string, values: Record<string, unknown>) => {
+  const cached = await getCachedRow(table, id);
+  const base = cached ? Object.fromEntries(Object.keys(values).map(k => [k, cached[k] ?? null])) : undefined;
+  if (cached) await putCachedRow(table, { ...cached, ...values });
+  await submitMutation({ table, op: 'update', rowId: id, values, base });
+};
+
+const writeInsert = async (table: CachedTable, row: CachedRow) => {
+  await putCachedRow(table, row);
+  await submitMutation({ table, op: 'insert', rowId: row.id, values: row });
+};
+
+const writeDelete = async (table: CachedTable, id: string) => {
+  await deleteCachedRow(table, id);
+  await submitMutation({ table, op: 'delete', rowId: id });
+};
+
+const now = () => new Date().toISOString();
+
+// Organizations (the signed-in user's memberships)
+
+export const fetchOrganizations = async (userId: string): Promise<Organization[]> => {
+  const [orgs, memberships] = await Promise.all([
+    supabase.from('organizations').select('*').order('created_at', { ascending: true }),
+    supabase.from('organization_members').select('org_id, role').eq('user_id', userId),
+  ]);
+  if (orgs.error) throw orgs.error;
+  if (memberships.error) throw memberships.error;
+  const roles = new Map(memberships.data.map(m => [m.org_id, m.role as OrgRole]));
+  return orgs.data
+    .filter(o => roles.has(o.id))
+    .map(o => ({ id: o.id, name: o.name, role: roles.get(o.id)! }));
+};
+
+// Creates the organization and makes the caller its owner (server-side, see create_organization)
+export const createOrganization = async (name: string): Promise<Organization> => {
+  const { data, error } = await supabase.rpc('create_organization', { p_name: name });
+  if (error) throw error;
+  return { id: data.id, name: data.name, role: 'owner' };
+};
+
+// Projects
+
+export const fetchProjects = async (orgId: string): Promise<ProjectData[]> => {
+  const rows = await readThrough('projects', () => supabase
+    .from('projects')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false }), orgId);
+  return rows.sort(byCreatedAt(false)).map(mapDbToProject);
+};
+
+export const insertProject = async (
+  owner: { orgId: string; userId: string },
+  project: Partial<ProjectData> & { projectName: string },
+): Promise<ProjectData> => {
+  const row: Tables<'projects'> = {
+    id: crypto.randomUUID(),
+    project_name: project.projectName,
+    description: null,
+    address: null,
+    project_type: 'Residential',
+    lat: null,
+    lng: null,
+    time_zone: null,
+    owner_id: owner.userId,
+    org_id: owner.orgId,
+    created_at: now(),
+    ...projectPatchToDb(project),
+  };
+  await writeInsert('projects', row);
+  return mapDbToProject(row);
+};
+
+export const updateProject = (id: string, patch: Partial<ProjectData>) =>
+  writeUpdate('projects', id, projectPatchToDb(patch));
+
+export const deleteProject = (id: string) => writeDelete('projects', id);
+
+// Projects outside the user's organizations that were shared with their email
+export const fetchSharedProjects = async (email: string): Promise<ProjectData[]> => {
+  const { data: invites, error } = await supabase
+    .from('project_members')
+    .select('project_id, role')
+    .eq('email', email.toLowerCase());
+  if (error) throw error;
+  if (!invites.length) return [];
+  const { data: rows, error: projectsError } = await supabase
+    .from('projects')
+    .select('*')
+    .in('id', invites.map(i => i.project_id))
+    .order('created_at', { ascending: false });
+  if (projectsError) throw projectsError;
+  const roles = new Map(invites.map(i => [i.project_id, i.role as ProjectRole]));
+  return rows.map(row => ({ ...mapDbToProject(row), sharedRole: roles.get(row.id) }));
+};
+
+// The caller's role on a project (see project_role); null when they have no access
+export const fetchProjectRole = async (projectId: string): Promise<ProjectRole | null> => {
+  const { data, error } = await supabase.rpc('project_role', { p_project_id: projectId });
+  if (error) throw error;
+  return (data as ProjectRole | null) ?? null;
+};
+
+// Sharing. Invites and links are managed online only; access is enforced by RLS.
+
+const mapDbToProjectMember = (row: Tables<'project_members'>): ProjectMember => ({
+  id: row.id,
+  projectId: row.project_id,
+  email: row.email,
+  role: row.role as ProjectRole,
+  created_at: row.created_at,
+});
+
+const mapDbToShareLink = (row: Tables<'project_share_links'>): ShareLink => ({
+  id: row.id,
+  projectId: row.project_id,
+  token: row.token,
+  expiresAt: row.expires_at,
+  created_at: row.created_at,
+});
+
+export const fetchProjectMembers = async (projectId: string): Promise<ProjectMember[]> => {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data.map(mapDbToProjectMember);
+};
+
+export const inviteProjectMember = async (projectId: string, email: string, role: ProjectRole): Promise<ProjectMember> => {
+  const { data, error } = await supabase
+    .from('project_members')
+    .insert({ project_id: projectId, email: email.trim().toLowerCase(), role })
+    .select()
+    .single();
+  if (error) throw error;
+  return mapDbToProjectMember(data);
+};
+
+export const updateProjectMemberRole = async (id: string, role: ProjectRole) => {
+  const { error } = await supabase.from('project_members').update({ role }).eq('id', id);
+  if (error) throw error;
+};
+
+export const removeProjectMember = async (id: string) => {
+  const { error } = await supabase.from('project_members').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const fetchShareLinks = async (projectId: string): Promise<ShareLink[]> => {
+  const { data, error } = await supabase
+    .from('project_share_links')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data.map(mapDbToShareLink);
+};
+
+export const createShareLink = async (projectId: string, expiresInDays: number): Promise<ShareLink> => {
+  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('project_share_links')
+    .insert({ project_id: projectId, expires_at: expiresAt })
+    .select()
+    .single();
+  if (error) throw error;
+  return mapDbToShareLink(data);
+};
+
+export const revokeShareLink = async (id: string) => {
+  const { error } = await supabase.from('project_share_links').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// The project a share link opens; null if the link is unknown or expired
+export const resolveShareLink = async (token: string): Promise<ProjectData | null> => {
+  const { data, error } = await supabase.rpc('resolve_share_link', { p_token: token });
+  if (error) throw error;
+  return data.length ? mapDbToProject(data[0]) : null;
+};
+
+// Designs
+
+export const fetchDesigns = async (projectId: string): Promise<Design[]> => {
+  const rows = await readThrough('designs', () => supabase
+    .from('designs')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false }), projectId);
+  return rows.sort(byCreatedAt(false)).map(mapDbToDesign);
+};
+
+export const insertDesign = async (projectId: string, name: string): Promise<Design> => {
+  const row: Tables<'designs'> = { id: crypto.randomUUID(), name, project_id: projectId, cloned_from: null, created_at: now() };
+  await writeInsert('designs', row);
+  return mapDbToDesign(row);
+};
+
+// Clones copy segments, keepouts, trees and electrical config server-side in one transaction,
+// so unlike other writes they need a connection
+export const cloneDesign = async (projectId: string, name: string, sourceDesignId: string): Promise<Design> => {
+  const { data, error } = await supabase
+    .rpc('clone_design', { p_project_id: projectId, p_name: name, p_source_design_id: sourceDesignId })
+    .single();
+  if (error) throw error;
+  await putCachedRow('designs', data as unknown as CachedRow).catch(() => {});
+  return mapDbToDesign(data);
+};
+
+// Design reports. The PDF goes to the "reports" bucket and a row records it; the version is
+// assigned by a trigger. Online only.
+
+const REPORTS_BUCKET = 'reports';
+
+const mapDbToDesignReport = (row: Tables<'design_reports'>): DesignReport => ({
+  id: row.id,
+  design_id: row.design_id,
+  version: row.version,
+  filePath: row.file_path,
+  summary: row.summary as DesignReport['summary'],
+  created_at: row.created_at,
+});
+
+export const fetchDesignReports = async (designId: string): Promise<DesignReport[]> => {
+  const { data, error } = await supabase
+    .from('design_reports')
+    .select('*')
+    .eq('design_id', designId)
+    .order('version', { ascending: false });
+  if (error) throw error;
+  return data.map(mapDbToDesignReport);
+};
+
+export const saveDesignReport = async (
+  projectId: string,
+  designId: string,
+  pdf: Blob,
+  summary: NonNullable<DesignReport['summary']>,
+): Promise<DesignReport> => {
+  const filePath = `${projectId}/${designId}/${crypto.randomUUID()}.pdf`;
+  const { error: uploadError } = await supabase.storage
+    .from(REPORTS_BUCKET)
+    .upload(filePath, pdf, { contentType: 'application/pdf' });
+  if (uploadError) throw uploadError;
+  const { data, error } = await supabase
+    .from('design_reports')
+    .insert({ design_id: designId, file_path: filePath, summary })
+    .select()
+    .single();
+  if (error) {
+    await supabase.storage.from(REPORTS_BUCKET).remove([filePath]);
+    throw error;
+  }
+  return mapDbToDesignReport(data);
+};
+
+export const downloadDesignReport = async (report: DesignReport): Promise<Blob> => {
+  const { data, error } = await supabase.storage.from(REPORTS_BUCKET).download(report.filePath);
+  if (error) throw error;
+  return data;
+};
+
+export const deleteDesignReport = async (report: DesignReport) => {
+  const { error } = await supabase.from('design_reports').delete().eq('id', report.id);
+  if (error) throw error;
+  const { error: removeError } = await supabase.storage.from(REPORTS_BUCKET).remove([report.filePath]);
+  if (removeError) console.error('Error removing report file', removeError);
+};
+
+// Field segments
+
+const SEGMENT_ROW_DEFAULTS: Omit<Tables<'field_segments'>, 'id' | 'design_id' | 'created_at' | 'updated_at'> = {
+  geometry: {},
+  area: 0,
+  description: null,
+  module: null,
+  racking: 'Fixed Tilt Racking',
+  surface_height: null,
+  racking_height: null,
+  parapet_height: null,
+  module_azimuth: null,
+  module_tilt: null,
+  span_rise: null,
+  gcr: null,
+  time_of_day: null,
+  analysis_date: null,
+  start_time: null,
+  end_time: null,
+  frame_size_up: null,
+  frame_size_wide: null,
+  default_orientation: null,
+  row_spacing: null,
+  module_spacing: null,
+  frame_spacing: null,
+  setback: null,
+  alignment: null,
+  max_kwp: null,
+  layout_priority: 'row',
+  tilt_groups: [],
+  ridge_gap: null,
+  tracker_axis_azimuth: null,
+  tracker_max_angle: null,
+  tracker_length: null,
+  backtracking: null,
+  row_spacing_mode: 'manual',
+};
+
+export const fetchSegments = async (designId: string): Promise<FieldSegment[]> => {
+  const rows = await readThrough('field_segments', () => supabase
+    .from('field_segments')
+    .select('*')
+    .eq('design_id', designId)
+    .order('created_at', { ascending: true }), designId);
+  return rows.sort(byCreatedAt(true)).map(mapDbToSegment);
+};
+
+export const insertSegment = async (insert: TablesInsert<'field_segments'>): Promise<FieldSegment> => {
+  const row: Tables<'field_segments'> = {
+    ...SEGMENT_ROW_DEFAULTS,
+    created_at: now(),
+    updated_at: now(),
+    ...insert,
+    id: insert.id ?? crypto.randomUUID(),
+  };
+  await writeInsert('field_segments', row);
+  return mapDbToSegment(row);
+};
+
+// Re-insert a segment with its original id (e.g. undoing a delete)
+export const restoreSegmentRow = async (segment: FieldSegment) => {
+  await insertSegment(segmentToDbRow(segment));
+};
+
+export const updateSegment = (id: string, patch: Partial<FieldSegment>) =>
+  writeUpdate('field_segments', id, { ...segmentPatchToDb(patch), updated_at: now() });
+
+export const deleteSegment = (id: string) => writeDelete('field_segments', id);
@@ -0,0 +1,663 @@
+// Database schema as seen through PostgREST. Keep in sync with supabase/migrations:
+// a column added there must be added here, or code using it will not compile.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      organizations: {
+        Row: {
+          id: string;
+          name: string;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      organization_members: {
+        Row: {
+          org_id: string;
+          user_id: string;
+          role: string;
+          created_at: string;
+        };
+        Insert: {
+          org_id: string;
+          user_id: string;
+          role?: string;
+          created_at?: string;
+        };
+        Update: {
+          org_id?: string;
+          user_id?: string;
+          role?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          { foreignKeyName: 'organization_members_org_id_fkey'; columns: ['org_id']; isOneToOne: false; referencedRelation: 'organizations'; referencedColumns: ['id'] },
+        ];
+      };
+      projects: {
+        Row: {
+          id: string;
+          project_name: string;
+          description: string | null;
+          address: string | null;
+          project_type: string;
+          lat: number | null;
+          lng: number | null;
+          time_zone: string | null;
+          owner_id: string | null;
+          org_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_name: string;
+          description?: string | null;
+          address?: string | null;
+          project_type?: string;
+          lat?: number | null;
+          lng?: number | null;
+          time_zone?: string | null;
+          owner_id?: string | null;
+          org_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_name?: string;
+          description?: string | null;
+          address?: string | null;
+          project_type?: string;
+          lat?: number | null;
+          lng?: number | null;
+          time_zone?: string | null;
+          owner_id?: string | null;
+          org_id?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      project_members: {
+        Row: {
+          id: string;
+          project_id: string;
+          email: string;
+          role: string;
+          invited_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          email: string;
+          role?: string;
+          invited_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          email?: string;
+          role?: string;
+          invited_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          { foreignKeyName: 'project_members_project_id_fkey'; columns: ['project_id']; isOneToOne: false; referencedRelation: 'projects'; referencedColumns: ['id'] },
+        ];
+      };
+      project_share_links: {
+        Row: {
+          id: string;
+          project_id: string;
+          token: string;
+          expires_at: string;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          token?: string;
+          expires_at: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          token?: string;
+          expires_at?: string;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          { foreignKeyName: 'project_share_links_project_id_fkey'; columns: ['project_id']; isOneToOne: false; referencedRelation: 'projects'; referencedColumns: ['id'] },
+        ];
+      };
+      designs: {
+        Row: {
+          id: string;
+          project_id: string;
+          name: string;
+          cloned_from: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          name?: string;
+          cloned_from?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          name?: string;
+          cloned_from?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          { foreignKeyName: 'designs_project_id_fkey'; columns: ['project_id']; isOneToOne: false; referencedRelation: 'projects'; referencedColumns: ['id'] },
+        ];
+      };
+      field_segments: {
+        Row: {
+          id: string;
+          design_id: string;
+          geometry: Json;
+          area: number;
+          description: string | null;
+          module: string | null;
+          racking: string;
+          surface_height: number | null;
+          racking_height: number | null;
+          parapet_height: number | null;
+          module_azimuth: number | null;
+          module_tilt: number | null;
+          span_rise: number | null;
+          gcr: number | null;
+          time_of_day: string | null;
+          analysis_date: string | null;
+          start_time: string | null;
+          end_time: string | null;
+          frame_size_up: number | null;
+          frame_size_wide: number | null;
+          default_orientation: string | null;
+          row_spacing: number | null;
+          module_spacing: number | null;
+          frame_spacing: number | null;
+          setback: number | null;
+          alignment: string | null;
+          max_kwp: number | null;
+          layout_priority: string;
+          tilt_groups: Json;
+          ridge_gap: number | null;
+          tracker_axis_azimuth: number | null;
+          tracker_max_angle: number | null;
+          tracker_length: number | null;
+          backtracking: boolean | null;
+          row_spacing_mode: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          design_id: string;
+          geometry?: Json;
+          area?: number;
+          description?: string | null;
+          module?: string | null;
+          racking?: string;
+          surface_height?: number | null;
+          racking_height?: number | null;
+          parapet_height?: number | null;
+          module_azimuth?: number | null;
+          module_tilt?: number | null;
+          span_rise?: number | null;
+          gcr?: number | null;
+          time_of_day?: string | null;
+          analysis_date?: string | null;
+          start_time?: string | null;
+          end_time?: string | null;
+          frame_size_up?: number | null;
+          frame_size_wide?: number | null;
+          default_orientation?: string | null;
+          row_spacing?: number | null;
+          module_spacing?: number | null;
+          frame_spacing?: number | null;
+          setback?: number | null;
+          alignment?: string | null;
+          max_kwp?: number | null;
+          layout_priority?: string;
+          tilt_groups?: Json;
+          ridge_gap?: number | null;
+          tracker_axis_azimuth?: number | null;
+          tracker_max_angle?: number | null;
+          tracker_length?: number | null;
+          backtracking?: boolean | null;
+          row_spacing_mode?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['field_segments']['Insert']>;
+        Relationships: [
+          { foreignKeyName: 'field_segments_design_id_fkey'; columns: ['design_id']; isOneToOne: false; referencedRelation: 'designs'; referencedColumns: ['id'] },
+        ];
+      };
+      modules: {
+        Row: {
+          id: string;
+          manufacturer: string;
+          model: string;
+          pnom: number | null;
+          vmp: number | null;
+          imp: number | null;
+          voc: number | null;
+          isc: number | null;
+          ns: number | null;
+          np: number | null;
+          area: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          manufacturer: string;
+          model: string;
+          pnom?: number | null;
+          vmp?: number | null;
+          imp?: number | null;
+          voc?: number | null;
+          isc?: number | null;
+          ns?: number | null;
+          np?: number | null;
+          area?: number | null;
+          created_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['modules']['Insert']>;
+        Relationships: [];
+      };
+      module_details: {
+        Row: {
+          module_id: string;
+          parsed: Json | null;
+          pan_text: string | null;
+          created_at: string;
+        };
+        Insert: {
+          module_id: string;
+          parsed?: Json | null;
+          pan_text?: string | null;
+          created_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['module_details']['Insert']>;
+        Relationships: [
+          { foreignKeyName: 'module_details_module_id_fkey'; columns: ['module_id']; isOneToOne: true; referencedRelation: 'modules'; referencedColumns: ['id'] },
+        ];
+      };
+      inverters: {
+        Row: {
+          id: string;
+          manufacturer: string;
+          model: string;
+          pnom_ac: number | null;
+          mppt_count: number | null;
+          vmpp_min: number | null;
+          vmpp_max: number | null;
+          vdc_max: number | null;
+          imax_mppt: number | null;
+          efficiency_curve: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          manufacturer: string;
+          model: string;
+          pnom_ac?: number | null;
+          mppt_count?: number | null;
+          vmpp_min?: number | null;
+          vmpp_max?: number | null;
+          vdc_max?: number | null;
+          imax_mppt?: number | null;
+          efficiency_curve?: Json | null;
+          created_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['inverters']['Insert']>;
+        Relationships: [];
+      };
+      inverter_details: {
+        Row: {
+          inverter_id: string;
+          parsed: Json | null;
+          file_text: string | null;
+          created_at: string;
+        };
+        Insert: {
+          inverter_id: string;
+          parsed?: Json | null;
+          file_text?: string | null;
+          created_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['inverter_details']['Insert']>;
+        Relationships: [
+          { foreignKeyName: 'inverter_details_inverter_id_fkey'; columns: ['inverter_id']; isOneToOne: true; referencedRelation: 'inverters'; referencedColumns: ['id'] },
+        ];
+      };
+      electrical_configs: {
+        Row: {
+          id: string;
+          design_id: string;
+          inverter_id: string | null;
+          record_low_temp: number | null;
+          high_temp: number | null;
+          string_length: number | null;
+          inverter_lng: number | null;
+          inverter_lat: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          design_id: string;
+          inverter_id?: string | null;
+          record_low_temp?: number | null;
+          high_temp?: number | null;
+          string_length?: number | null;
+          inverter_lng?: number | null;
+          inverter_lat?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['electrical_configs']['Insert']>;
+        Relationships: [
+          { foreignKeyName: 'electrical_configs_design_id_fkey'; columns: ['design_id']; isOneToOne: true; referencedRelation: 'designs'; referencedColumns: ['id'] },
+          { foreignKeyName: 'electrical_configs_inverter_id_fkey'; columns: ['inverter_id']; isOneToOne: false; referencedRelation: 'inverters'; referencedColumns: ['id'] },
+        ];
+      };
+      weather_files: {
+        Row: {
+          id: string;
+          project_id: string;
+          name: string;
+          format: string;
+          latitude: number | null;
+          longitude: number | null;
+          elevation: number | null;
+          tz_offset: number | null;
+          record_count: number | null;
+          records: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          name: string;
+          format: string;
+          latitude?: number | null;
+          longitude?: number | null;
+          elevation?: number | null;
+          tz_offset?: number | null;
+          record_count?: number | null;
+          records: Json;
+          created_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['weather_files']['Insert']>;
+        Relationships: [
+          { foreignKeyName: 'weather_files_project_id_fkey'; columns: ['project_id']; isOneToOne: false; referencedRelation: 'projects'; referencedColumns: ['id'] },
+        ];
+      };
+      simulations: {
+        Row: {
+          id: string;
+          design_id: string;
+          weather_file_id: string | null;
+          condition_set_id: string | null;
+          transposition_model: string | null;
+          annual_kwh: number | null;
+          monthly_kwh: Json | null;
+          dc_kwp: number | null;
+          specific_yield: number | null;
+          performance_ratio: number | null;
+          segments: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          design_id: string;
+          weather_file_id?: string | null;
+          condition_set_id?: string | null;
+          transposition_model?: string | null;
+          annual_kwh?: number | null;
+          monthly_kwh?: Json | null;
+          dc_kwp?: number | null;
+          specific_yield?: number | null;
+          performance_ratio?: number | null;
+          segments?: Json | null;
+          created_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['simulations']['Insert']>;
+        Relationships: [
+          { foreignKeyName: 'simulations_design_id_fkey'; columns: ['design_id']; isOneToOne: false; referencedRelation: 'designs'; referencedColumns: ['id'] },
+          { foreignKeyName: 'simulations_weather_file_id_fkey'; columns: ['weather_file_id']; isOneToOne: false; referencedRelation: 'weather_files'; referencedColumns: ['id'] },
+          { foreignKeyName: 'simulations_condition_set_id_fkey'; columns: ['condition_set_id']; isOneToOne: false; referencedRelation: 'condition_sets'; referencedColumns: ['id'] },
+        ];
+      };
+      condition_sets: {
+        Row: {
+          id: string;
+          project_id: string;
+          name: string;
+          transposition_model: string;
+          albedo_mode: string;
+          albedo: number | null;
+          monthly_albedo: Json | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          name: string;
+          transposition_model?: string;
+          albedo_mode?: string;
+          albedo?: number | null;
+          monthly_albedo?: Json | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['condition_sets']['Insert']>;
+        Relationships: [
+          { foreignKeyName: 'condition_sets_project_id_fkey'; columns: ['project_id']; isOneToOne: false; referencedRelation: 'projects'; referencedColumns: ['id'] },
+        ];
+      };
+      keepouts: {
+        Row: {
+          id: string;
+          design_id: string;
+          shape: string;
+          geometry: Json;
+          description: string | null;
+          height: number | null;
+          setback: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          design_id: string;
+          shape?: string;
+          geometry: Json;
+          description?: string | null;
+          height?: number | null;
+          setback?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['keepouts']['Insert']>;
+        Relationships: [
+          { foreignKeyName: 'keepouts_design_id_fkey'; columns: ['design_id']; isOneToOne: false; referencedRelation: 'designs'; referencedColumns: ['id'] },
+        ];
+      };
+      trees: {
+        Row: {
+          id: string;
+          design_id: string;
+          lng: number;
+          lat: number;
+          description: string | null;
+          total_height: number | null;
+          canopy_height: number | null;
+          canopy_radius: number | null;
+          canopy_shape: string;
+          monthly_transparency: Json | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          design_id: string;
+          lng: number;
+          lat: number;
+          description?: string | null;
+          total_height?: number | null;
+          canopy_height?: number | null;
+          canopy_radius?: number | null;
+          canopy_shape?: string;
+          monthly_transparency?: Json | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['trees']['Insert']>;
+        Relationships: [
+          { foreignKeyName: 'trees_design_id_fkey'; columns: ['design_id']; isOneToOne: false; referencedRelation: 'designs'; referencedColumns: ['id'] },
+        ];
+      };
+      design_snapshots: {
+        Row: {
+          id: string;
+          design_id: string;
+          name: string;
+          segments: Json;
+          keepouts: Json;
+          trees: Json;
+          electrical: Json | null;
+          stats: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          design_id: string;
+          name: string;
+          segments?: Json;
+          keepouts?: Json;
+          trees?: Json;
+          electrical?: Json | null;
+          stats?: Json | null;
+          created_at?: string;
+        };
+        Update: Partial<Database['public']['Tables']['design_snapshots']['Insert']>;
+        Relationships: [
+          { foreignKeyName: 'design_snapshots_design_id_fkey'; columns: ['design_id']; isOneToOne: false; referencedRelation: 'designs'; referencedColumns: ['id'] },
+        ];
+      };
+      design_reports: {
+        Row: {
+          id: string;
+          design_id: string;
+          version: number;
+          file_path: string;
+          summary: Json | null;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          design_id: string;
+          version?: number;
+          file_path: string;
+          summary?: Json | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          design_id?: string;
+          version?: number;
+          file_path?: string;
+          summary?: Json | null;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          { foreignKeyName: 'design_reports_design_id_fkey'; columns: ['design_id']; isOneToOne: false; referencedRelation: 'designs'; referencedColumns: ['id'] },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      clone_design: {
+        Args: { p_project_id: string; p_name: string; p_source_design_id: string };
+        Returns: Database['public']['Tables']['designs']['Row'];
+      };
+      create_organization: {
+        Args: { p_name: string };
+        Returns: Database['public']['Tables']['organizations']['Row'];
+      };
+      is_org_member: {
+        Args: { p_org_id: string; p_roles?: string[] | null };
+        Returns: boolean;
+      };
+      project_role: {
+        Args: { p_project_id: string };
+        Returns: string | null;
+      };
+      resolve_share_link: {
+        Args: { p_token: string };
+        Returns: Database['public']['Tables']['projects']['Row'][];
+      };
+      restore_design_snapshot: {
+        Args: { p_design_id: string; p_segments: Json; p_keepouts: Json; p_trees: Json; p_electrical: Json | null };
+        Returns: undefined;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicTables = Database['public']['Tables'];
+
+export type TableName = keyof PublicTables;
+export type Tables<T extends TableName> = PublicTables[T]['Row'];
+export type TablesInsert<T extends TableName> = PublicTables[T]['Insert'];
+export type TablesUpdate<T extends TableName> = PublicTables[T]['Update'];
+
+// For JSONB columns fed from typed app structures (interfaces don't carry Json's index signature)
+export const asJson = (value: unknown): Json => value as Json;
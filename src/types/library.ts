@@ -12,3 +12,35 @@ export interface Module {
   area?: number | null;  // m^2
   created_at?: string;
 }
+
+// A PAN file as parsed into module_details.parsed; anything the file lacks is missing
+export type ParsedPAN = Partial<Module> & {
+  technology?: string | null;
+  length_m?: number | null;
+  width_m?: number | null;
+  temp_coeff_pmax?: number | null; // per °C (e.g., -0.0045)
+  temp_coeff_voc?: number | null;  // per °C
+  temp_coeff_isc?: number | null;  // per °C
+  source?: string | null;
+  last_update?: string | null;
+  raw?: Record<string, string>;
+};
+
+export interface InverterEfficiencyPoint {
+  load: number;       // fraction of nominal AC power (0..1+)
+  efficiency: number; // fraction (0..1)
+}
+
+export interface Inverter {
+  id?: string;
+  manufacturer: string;
+  model: string;
+  pnom_ac: number | null;    // W, nominal AC rating
+  mppt_count: number | null;
+  vmpp_min: number | null;   // V, MPPT window low
+  vmpp_max: number | null;   // V, MPPT window high
+  vdc_max: number | null;    // V, absolute max DC input
+  imax_mppt: number | null;  // A, max input current per MPPT
+  efficiency_curve?: InverterEfficiencyPoint[] | null;
+  created_at?: string;
+}
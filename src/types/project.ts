@@ -13,7 +13,7 @@ export interface FieldSegment {
   area: number;
   description: string;
   module: string | null;
-  racking: 'Fixed Tilt Racking' | 'Flush Mount';
+  racking: Racking;
   surfaceHeight: number;
   rackingHeight: number;
   moduleAzimuth: number;
@@ -30,16 +30,71 @@ export interface FieldSegment {
   frameSizeWide: number;
   defaultOrientation: 'Landscape' | 'Portrait';
   rowSpacing: number;
+  rowSpacingMode: RowSpacingMode;
   moduleSpacing: number;
   frameSpacing: number;
   setback: number;
   alignment: 'left' | 'right' | 'center' | 'justify';
+  // DC nameplate cap; the auto-layout drops modules by layoutPriority until the segment fits
+  maxKwp: number | null;
+  layoutPriority: LayoutPriority;
+  // Independent tilts; rows alternate between the settings above and each group in order
+  tiltGroups: TiltGroup[];
+  // East-west racking: gap between the high edges of a back-to-back pair, ft
+  ridgeGap: number;
+  // Single-axis tracker racking (horizontal axis); row pitch follows from gcr
+  trackerAxisAzimuth: number; // degrees clockwise from north
+  trackerMaxAngle: number;    // rotation limit either side of flat, degrees
+  trackerLength: number;      // modules along the axis per tracker
+  backtracking: boolean;
   // Parapet walls
   parapetHeight?: number; // feet
   created_at: string;
   updated_at: string;
 }
 
+// East-West places back-to-back module pairs facing the segment azimuth ±90° (flat roofs);
+// Single-Axis Tracker places tracker rows that rotate with the sun (ground mount)
+export type Racking = 'Fixed Tilt Racking' | 'Flush Mount' | 'East-West' | 'Single-Axis Tracker';
+
+// Sub-array of a segment with its own plane and row rules (east-west racking, split roofs)
+export interface TiltGroup {
+  id: string;
+  moduleTilt: number;
+  moduleAzimuth: number;
+  rowSpacing: number; // ft, after each of this group's rows
+  defaultOrientation: 'Landscape' | 'Portrait';
+}
+
+// Row spacing set by hand (span/rise and GCR follow it), or the minimum that keeps rows
+// shade-free between startTime and endTime on the winter solstice
+export type RowSpacingMode = 'manual' | 'solstice';
+
+// Which modules a capped layout drops first: worst annual shading, farthest from the inverter,
+// or the last rows placed
+export type LayoutPriority = 'shading' | 'inverter' | 'row';
+
+// A module rectangle placed by the auto-layout (lng/lat ring, closed)
+export interface PlacedModule {
+  segmentId: string;
+  row: number;
+  col: number;
+  ring: [number, number][];
+  center: [number, number];
+  group: number; // 0 = the segment's own tilt, then its tilt groups in order
+}
+
+export interface ElectricalConfig {
+  id?: string;
+  design_id: string;
+  inverterId: string | null;
+  recordLowTemp: number; // °C, used for worst-case Voc
+  highTemp: number;      // °C ambient, used for worst-case Vmp
+  stringLength: number | null; // modules per string; null = longest allowed
+  inverterLocation: [number, number] | null; // lng/lat on the site
+  updated_at?: string;
+}
+
 export interface ProjectData {
   id: string;
   projectName: string;
@@ -50,10 +105,42 @@ export interface ProjectData {
     lat: number;
     lng: number;
   };
+  timeZone?: string; // IANA zone for site times; derived from coordinates when unset
+  ownerId?: string;
+  orgId?: string;
+  sharedRole?: ProjectRole; // set on projects shared with the user from outside their organization
   designs?: Design[];
   created_at: string;
 }
 
+export type OrgRole = 'owner' | 'admin' | 'member';
+
+export type ProjectRole = 'viewer' | 'editor' | 'owner';
+
+// Someone invited to a project by email; the role applies once they sign in with that address
+export interface ProjectMember {
+  id: string;
+  projectId: string;
+  email: string;
+  role: ProjectRole;
+  created_at: string;
+}
+
+// Read-only link to a project, valid until expiresAt
+export interface ShareLink {
+  id: string;
+  projectId: string;
+  token: string;
+  expiresAt: string;
+  created_at: string;
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrgRole; // the signed-in user's role
+}
+
 export interface ValidationErrors {
   [key:string]: string;
 }
@@ -61,4 +148,61 @@ export interface ValidationErrors {
 export interface MapSettings {
   center: [number, number];
   zoom: number;
+}
+// Obstruction on a design (HVAC unit, skylight, vent...) that blocks layout and casts shadows
+export interface Keepout {
+  id: string;
+  design_id: string;
+  shape: 'polygon' | 'circle';
+  geometry: unknown; // maptalks geometry JSON; circles store center + radius (m)
+  description: string;
+  height: number;  // feet above the surface it sits on
+  setback: number; // feet of clearance kept free of modules
+  created_at: string;
+  updated_at: string;
+}
+
+// Tree obstruction: trunk position plus a crown that may thin out seasonally
+export interface Tree {
+  id: string;
+  design_id: string;
+  position: [number, number]; // trunk [lng, lat]
+  description: string;
+  totalHeight: number;   // feet, ground to crown top
+  canopyHeight: number;  // feet, vertical depth of the crown
+  canopyRadius: number;  // feet
+  canopyShape: 'round' | 'conical';
+  monthlyTransparency: number[]; // 12 values 0..1, Jan..Dec (1 = leaf-off, lets all light through)
+  created_at: string;
+  updated_at: string;
+}
+
+// Module count and DC nameplate of a layout at a point in time
+export interface LayoutStats {
+  moduleCount: number;
+  kwp: number;
+  segments: Record<string, { moduleCount: number; kwp: number }>;
+}
+
+// Named, immutable copy of a design (layout, obstructions and electrical settings)
+export interface DesignSnapshot {
+  id: string;
+  design_id: string;
+  name: string;
+  segments: FieldSegment[];
+  keepouts: Keepout[];
+  trees: Tree[];
+  electrical: ElectricalConfig | null;
+  stats: LayoutStats;
+  created_at: string;
+}
+
+// Saved PDF report of a design; versions count up per design
+export interface DesignReport {
+  id: string;
+  design_id: string;
+  version: number;
+  filePath: string; // in the "reports" storage bucket
+  summary: { moduleCount: number; kwp: number; annualKwh: number | null } | null;
+  created_at: string;
 }
\ No newline at end of file
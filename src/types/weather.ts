@@ -0,0 +1,74 @@
+import type { TranspositionModel } from '../utils/transposition';
+
+export interface WeatherRecord {
+  month: number; // 1..12
+  day: number;   // 1..31
+  hour: number;  // 0..23, start of the hourly interval in the file's time reference
+  ghi: number;   // W/m², global horizontal
+  dni: number;   // W/m², direct normal
+  dhi: number;   // W/m², diffuse horizontal
+  tamb: number;  // °C, dry-bulb
+  wind: number;  // m/s
+}
+
+export interface WeatherData {
+  format: 'EPW' | 'TMY3' | 'PVGIS';
+  name: string;
+  latitude: number;
+  longitude: number;
+  elevation: number; // m
+  tzOffset: number;  // hours from UTC of the record timestamps (0 for UTC)
+  records: WeatherRecord[];
+}
+
+export interface WeatherFile {
+  id: string;
+  project_id: string;
+  name: string;
+  format: WeatherData['format'];
+  latitude: number | null;
+  longitude: number | null;
+  tzOffset: number;
+  recordCount: number;
+  created_at: string;
+}
+
+// Named set of irradiance assumptions a simulation runs under
+export interface ConditionSet {
+  id: string;
+  project_id: string;
+  name: string;
+  transpositionModel: TranspositionModel;
+  albedoMode: 'constant' | 'monthly';
+  albedo: number;          // used when albedoMode is 'constant'
+  monthlyAlbedo: number[]; // 12 values, Jan..Dec
+  created_at?: string;
+}
+
+export interface SegmentSimulationResult {
+  segmentId: string;
+  group?: number; // tilt group; absent on results saved before segments had tilt groups
+  description: string;
+  moduleCount: number;
+  dcKwp: number;
+  poaKwhM2: number; // annual plane-of-array insolation
+  beamKwhM2: number;
+  skyDiffuseKwhM2: number;
+  groundKwhM2: number;
+  annualKwh: number;
+}
+
+export interface SimulationResult {
+  id?: string;
+  design_id: string;
+  weather_file_id: string | null;
+  condition_set_id: string | null;
+  transpositionModel: TranspositionModel;
+  annualKwh: number;
+  monthlyKwh: number[]; // 12 values, Jan..Dec
+  dcKwp: number;
+  specificYield: number;     // kWh/kWp
+  performanceRatio: number;  // 0..1
+  segments: SegmentSimulationResult[];
+  created_at?: string;
+}
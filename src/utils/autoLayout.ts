@@ -0,0 +1,296 @@
+import * as turf from '@turf/turf';
+import type { Feature, MultiPolygon, Point, Polygon } from 'geojson';
+import { FieldSegment, PlacedModule, TiltGroup } from '../types/project';
+import type { Module } from '../types/library';
+import { feetToMeters } from './mapUtils';
+import { trackerGeometry } from './tracker';
+
+export interface ModuleDims {
+  width: number;  // m
+  height: number; // m
+}
+
+// Areas the layout works with: setback insets, keepout footprints, module rectangles
+export type PolygonFeature = Feature<Polygon | MultiPolygon>;
+
+// Geometry as stored on a segment or keepout: maptalks JSON (feature or geometry) or plain GeoJSON
+interface StoredGeometry {
+  type?: string;
+  coordinates?: unknown;
+  geometry?: StoredGeometry;
+  feature?: StoredGeometry;
+}
+
+// Module footprint from parsed PAN details, known models or the datasheet area
+export const resolveModuleDims = (module: Module | null | undefined, parsed?: { length_m?: unknown; width_m?: unknown } | null): ModuleDims => {
+  let len = parsed?.length_m;
+  let wid = parsed?.width_m;
+
+  // Fallbacks if extras missing or invalid
+  if (!(typeof len === 'number' && isFinite(len)) || !(typeof wid === 'number' && isFinite(wid))) {
+    const name = `${module?.manufacturer || ''} ${module?.model || ''}`.trim().toLowerCase();
+    // Known model mappings (extend as needed)
+    const known: Array<{ test: (n: string) => boolean; w: number; h: number }> = [
+      { test: (n) => n.includes('jinko') && (n.includes('jkm 260p-60') || n.includes('jkm260p-60')), w: 0.992, h: 1.65 },
+    ];
+    const hit = known.find(k => k.test(name));
+    if (hit) {
+      wid = hit.w; len = hit.h;
+    } else if (module?.area && isFinite(module.area)) {
+      // Infer from area with typical 60-cell aspect ratio ~1.66 (L/W)
+      const ratio = 1.66;
+      const area = module.area as number; // m^2
+      const height = Math.sqrt(area * ratio);
+      const width = area / height;
+      wid = width; len = height;
+    }
+  }
+
+  // Final guards
+  const width = (typeof wid === 'number' && isFinite(wid)) ? wid : 1.1; // m
+  const height = (typeof len === 'number' && isFinite(len)) ? len : 1.7; // m
+  return { width, height };
+};
+
+// Read the outer ring of a stored segment geometry (maptalks JSON or plain GeoJSON)
+export const getGeometryShell = (geometry: unknown): [number, number][] | null => {
+  const g = geometry as StoredGeometry | null | undefined;
+  const geo = g?.feature?.geometry ?? g?.geometry ?? g;
+  if (!geo || !Array.isArray(geo.coordinates)) return null;
+  const coords = geo.coordinates as unknown[][];
+  const ring = geo.type === 'MultiPolygon' ? coords[0]?.[0] : geo.type === 'Polygon' ? coords[0] : null;
+  if (!Array.isArray(ring) || ring.length < 3) return null;
+  return (ring as number[][]).map((c) => [c[0], c[1]] as [number, number]);
+};
+
+// Modules per frame along and across the rows; a tracker is one frame of its length
+export const segmentFrameSize = (segment: FieldSegment) => ({
+  wide: Math.max(1, Math.floor(Number((segment.racking === 'Single-Axis Tracker' ? segment.trackerLength : segment.frameSizeWide) ?? 1))),
+  up: Math.max(1, Math.floor(Number(segment.frameSizeUp ?? 1))),
+});
+
+const moduleSpacingMeters = (segment: FieldSegment) => {
+  const msFtRaw = Number(segment.moduleSpacing);
+  const msFt = isFinite(msFtRaw) && msFtRaw > 0 ? msFtRaw : 0.02; // DEFAULT_GAP (ft)
+  return Math.max(0, feetToMeters(msFt));
+};
+
+// Depth of a frame across the rows, lying flat (a tracker's collector width), meters
+export const segmentFrameDepth = (segment: FieldSegment, dims: ModuleDims) => {
+  const moduleH = segment.defaultOrientation === 'Portrait' ? dims.width : dims.height;
+  const { up } = segmentFrameSize(segment);
+  return up * moduleH + (up - 1) * moduleSpacingMeters(segment);
+};
+
+// The segment's own plane (group 0) followed by its independent tilts. East-west racking is
+// always two back-to-back faces at the segment azimuth -90° and +90°, split by the ridge gap.
+// Trackers are a single group whose plane is flat at rest and rotates (see tracker.ts).
+export const segmentTiltGroups = (segment: FieldSegment): TiltGroup[] => {
+  if (segment.racking === 'Single-Axis Tracker') {
+    return [{
+      id: segment.id,
+      moduleTilt: 0,
+      moduleAzimuth: ((Number(segment.trackerAxisAzimuth ?? 180) + 90) % 360 + 360) % 360,
+      rowSpacing: segment.rowSpacing,
+      defaultOrientation: segment.defaultOrientation,
+    }];
+  }
+  if (segment.racking === 'East-West') {
+    const face = (offset: number, rowSpacing: number): TiltGroup => ({
+      id: `${segment.id}:${offset}`,
+      moduleTilt: segment.moduleTilt,
+      moduleAzimuth: (((segment.moduleAzimuth + offset) % 360) + 360) % 360,
+      rowSpacing,
+      defaultOrientation: segment.defaultOrientation,
+    });
+    return [
+      face(-90, segment.ridgeGap ?? 0),
+      face(90, segment.rowSpacing),
+    ];
+  }
+  return [
+    {
+      id: segment.id,
+      moduleTilt: segment.moduleTilt,
+      moduleAzimuth: segment.moduleAzimuth,
+      rowSpacing: segment.rowSpacing,
+      defaultOrientation: segment.defaultOrientation,
+    },
+    ...(segment.tiltGroups ?? []),
+  ];
+};
+
+// Turf polygon from a ring, ensuring it is closed
+export const ringToTurfPolygon = (ring: [number, number][]) => {
+  const closed = ring.slice();
+  if (closed.length && (closed[0][0] !== closed[closed.length - 1][0] || closed[0][1] !== closed[closed.length - 1][1])) {
+    closed.push([closed[0][0], closed[0][1]]);
+  }
+  return turf.polygon([closed]);
+};
+
+// Segment polygon shrunk by its setback; falls back to the full polygon when the buffer degenerates
+export const segmentSetbackInset = (segment: FieldSegment): PolygonFeature | null => {
+  const shell = getGeometryShell(segment.geometry);
+  if (!shell) return null;
+  const turfPoly = ringToTurfPolygon(shell);
+  try {
+    const sb = feetToMeters(segment.setback || 0);
+    if (!isFinite(sb) || sb <= 0) return turfPoly;
+    const buff = turf.buffer(turfPoly, -sb, { units: 'meters' });
+    if (!buff) return turfPoly;
+    // Handle MultiPolygon by taking the largest area piece
+    if (buff.geometry.type === 'MultiPolygon') {
+      let maxA = -Infinity; let best: Feature<Polygon> | null = null;
+      for (const coords of buff.geometry.coordinates) {
+        const p = turf.polygon(coords);
+        const a = turf.area(p);
+        if (a > maxA) { maxA = a; best = p; }
+      }
+      return best || turfPoly;
+    }
+    return buff;
+  } catch { return turfPoly; }
+};
+
+// Setback inset with obstacle footprints (e.g. keepouts) cut out
+export const segmentLayoutArea = (segment: FieldSegment, obstacles: PolygonFeature[] = []) => {
+  const inset = segmentSetbackInset(segment);
+  if (!inset || !obstacles.length) return inset;
+  let area: PolygonFeature | null = inset;
+  for (const o of obstacles) {
+    try {
+      area = area ? turf.difference(turf.featureCollection([area, o])) : null;
+    } catch {
+      // turf can throw on degenerate footprints; that obstacle just isn't cut out of the overlay
+    }
+  }
+  return area;
+};
+
+// Build rotated rectangle given local X/Y bearings
+const buildRotatedRect = (center: Feature<Point>, halfW: number, halfH: number, bearingX: number, bearingY: number): Feature<Polygon> => {
+  const minusX = turf.destination(center, halfW, (bearingX + 180) % 360, { units: 'meters' });
+  const plusX = turf.destination(center, halfW, bearingX, { units: 'meters' });
+  const tl = turf.destination(minusX, halfH, bearingY, { units: 'meters' });
+  const bl = turf.destination(minusX, halfH, (bearingY + 180) % 360, { units: 'meters' });
+  const tr = turf.destination(plusX, halfH, bearingY, { units: 'meters' });
+  const br = turf.destination(plusX, halfH, (bearingY + 180) % 360, { units: 'meters' });
+  return turf.polygon([[
+    tl.geometry.coordinates,
+    tr.geometry.coordinates,
+    br.geometry.coordinates,
+    bl.geometry.coordinates,
+    tl.geometry.coordinates,
+  ]]);
+};
+
+// Place frames of modules in rows across the setback inset of a segment, skipping obstacle footprints
+export const layoutSegmentModules = (segment: FieldSegment, dims: ModuleDims, obstacles: PolygonFeature[] = []): PlacedModule[] => {
+  const inset = segmentSetbackInset(segment);
+  if (!inset) return [];
+  const placed: PlacedModule[] = [];
+
+  const moduleSpacing = moduleSpacingMeters(segment);
+  const frameSpacing = Math.max(0, feetToMeters(Number(segment.frameSpacing ?? 0) || 0));
+  const { wide: sizeWide, up: sizeUp } = segmentFrameSize(segment);
+  // Tracker rows run along the axis, one pitch apart (collector width / GCR)
+  const tracker = trackerGeometry(segment);
+  // East-west rows are laid out along the faces, and the low tilt shortens each row's footprint,
+  // so a dome's pitch is two tilted footprints plus the ridge gap and row spacing
+  const eastWest = segment.racking === 'East-West';
+  // Frame size and row step of each tilt group (rows cycle through them)
+  const groups = segmentTiltGroups(segment).map((g) => {
+    const isPortrait = (g.defaultOrientation || 'Landscape') === 'Portrait';
+    const footprint = eastWest ? Math.cos((Number(g.moduleTilt) || 0) * Math.PI / 180) : 1;
+    const moduleW = Math.max(0, isPortrait ? dims.height : dims.width);
+    const moduleH = Math.max(0, (isPortrait ? dims.width : dims.height) * footprint);
+    const frameW = sizeWide * moduleW + (sizeWide - 1) * moduleSpacing;
+    const frameH = sizeUp * moduleH + (sizeUp - 1) * moduleSpacing;
+    const rowSpacing = Math.max(0, feetToMeters(Number(g.rowSpacing ?? 0) || 0));
+    const stepY = tracker ? frameH / tracker.gcr : frameH + rowSpacing;
+    return { moduleW, moduleH, frameW, frameH, stepX: frameW + frameSpacing, stepY };
+  });
+  if (!groups.every(g => g.stepX > 0 && g.stepY > 0)) return placed;
+  const layoutAz = tracker ? tracker.axisAzimuth - 90 : Number(segment.moduleAzimuth ?? 0) + (eastWest ? 90 : 0);
+  const moduleAz = Math.max(0, ((layoutAz % 360) + 360) % 360);
+  // Local axes bearings
+  const bearingY = moduleAz; // along module height (azimuth)
+  const bearingX = (moduleAz + 90) % 360; // across rows
+
+  // Compute oriented extents in local coordinates (bearingX, bearingY)
+  const origin = turf.centroid(inset);
+  const outer = inset.geometry.type === 'Polygon' ? inset.geometry.coordinates[0] : inset.geometry.coordinates[0]?.[0];
+  const ringCoords = (outer ?? []) as [number, number][];
+  let minProjX = Infinity, maxProjX = -Infinity, minProjY = Infinity, maxProjY = -Infinity;
+  const toRad = Math.PI / 180;
+  for (const [px, py] of ringCoords) {
+    const p = turf.point([px, py]);
+    // Meters, like every other extent here (turf defaults to kilometers)
+    const d = turf.distance(origin, p, { units: 'meters' });
+    const br = turf.bearing(origin, p);
+    const dx = d * Math.cos((br - bearingX) * toRad);
+    const dy = d * Math.cos((br - bearingY) * toRad);
+    if (dx < minProjX) minProjX = dx;
+    if (dx > maxProjX) maxProjX = dx;
+    if (dy < minProjY) minProjY = dy;
+    if (dy > maxProjY) maxProjY = dy;
+  }
+  const widthM = Math.max(0, maxProjX - minProjX);
+  const heightM = Math.max(0, maxProjY - minProjY);
+  const shift = (pt: Feature<Point>, dist: number, brg: number) => turf.destination(pt, Math.abs(dist), dist >= 0 ? brg : (brg + 180) % 360, { units: 'meters' });
+  const southWest = shift(shift(origin, minProjY, bearingY), minProjX, bearingX);
+  const align = (segment.alignment || 'center');
+
+  let frameRow = 0;
+  for (let rowStart = 0; ; frameRow++) {
+    const groupIndex = frameRow % groups.length;
+    const { moduleW, moduleH, frameW, frameH, stepX, stepY } = groups[groupIndex];
+    const yOff = rowStart + frameH / 2;
+    if (yOff > heightM - frameH / 2 + 1e-6) break;
+    rowStart += stepY;
+
+    // Start alignment across X using bbox width (approximate)
+    const leftoverX = Math.max(0, widthM - frameW);
+    let marginX = 0;
+    if (align === 'center') marginX = (leftoverX % stepX) / 2;
+    else if (align === 'right') marginX = (leftoverX % stepX);
+    else if (align === 'justify') marginX = (leftoverX % stepX) / 2;
+    const startEast = marginX + frameW / 2;
+
+    const frameRowBase = turf.destination(southWest, yOff, bearingY, { units: 'meters' });
+    let frameCol = 0;
+    for (let xOff = startEast; xOff <= widthM - frameW / 2 + 1e-6; xOff += stepX, frameCol++) {
+      const frameCenter = turf.destination(frameRowBase, xOff, bearingX, { units: 'meters' });
+      // top-left of frame
+      const frameTopLeft = turf.destination(
+        turf.destination(frameCenter, frameW / 2, (bearingX + 180) % 360, { units: 'meters' }),
+        frameH / 2, bearingY, { units: 'meters' }
+      );
+      for (let r = 0; r < sizeUp; r++) {
+        for (let c = 0; c < sizeWide; c++) {
+          const xIn = c * (moduleW + moduleSpacing) + moduleW / 2;
+          const yIn = r * (moduleH + moduleSpacing) + moduleH / 2;
+          const alongX = turf.destination(frameTopLeft, xIn, bearingX, { units: 'meters' });
+          const center = turf.destination(alongX, yIn, (bearingY + 180) % 360, { units: 'meters' });
+          const rect = buildRotatedRect(center, moduleW / 2, moduleH / 2, bearingX, bearingY);
+          try {
+            if (turf.booleanWithin(rect, inset) && !obstacles.some((o) => turf.booleanIntersects(rect, o))) {
+              placed.push({
+                segmentId: segment.id,
+                row: frameRow * sizeUp + (sizeUp - 1 - r),
+                col: frameCol * sizeWide + c,
+                ring: rect.geometry.coordinates[0] as [number, number][],
+                center: center.geometry.coordinates as [number, number],
+                group: groupIndex,
+              });
+            }
+          } catch {
+            // A turf predicate failing on a sliver of the inset skips that module rather than the layout
+          }
+        }
+      }
+    }
+  }
+  return placed;
+};
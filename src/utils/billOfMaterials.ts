@@ -0,0 +1,221 @@
+import * as XLSX from 'xlsx';
+import type { FieldSegment, PlacedModule } from '../types/project';
+import type { Inverter, Module } from '../types/library';
+import { ModuleDims, segmentFrameSize, segmentTiltGroups } from './autoLayout';
+import type { StringingResult } from './stringing';
+import { feetToMeters, localProjector, METERS_TO_FEET } from './mapUtils';
+
+export interface BomLine {
+  category: 'Module' | 'Inverter' | 'Tracker' | 'Rail' | 'Attachment' | 'Clamp' | 'Wire';
+  description: string;
+  segment: string | null; // segment description; null for design-wide items
+  quantity: number;
+  unit: string;
+}
+
+export interface BomInput {
+  segments: FieldSegment[];
+  placedModules: Record<string, PlacedModule[]>;
+  modules: Record<string, Module>;        // by module id
+  moduleDims: Record<string, ModuleDims>; // by module id
+  inverter: Inverter | null;
+  stringing: StringingResult | null;
+  inverterLocation: [number, number] | null; // lng/lat; the centre of the array when not placed
+}
+
+// Attachment spacing along each rail and what the attachment is, per racking type
+const RACKING_SPECS: Record<FieldSegment['racking'], { attachmentSpacingFt: number; attachment: string }> = {
+  'Flush Mount': { attachmentSpacingFt: 4, attachment: 'Roof attachment (L-foot with flashing)' },
+  'Fixed Tilt Racking': { attachmentSpacingFt: 6, attachment: 'Tilt leg with base' },
+  'East-West': { attachmentSpacingFt: 4, attachment: 'Ballasted east-west base' },
+  'Single-Axis Tracker': { attachmentSpacingFt: 25, attachment: 'Tracker pile' },
+};
+
+const RAILS_PER_MODULE_ROW = 2;
+const WIRE_SLACK = 1.1; // routing and termination allowance on wire runs
+
+// Same default gap between modules as the auto-layout
+const moduleGap = (segment: FieldSegment) => {
+  const ft = Number(segment.moduleSpacing);
+  return feetToMeters(isFinite(ft) && ft > 0 ? ft : 0.02);
+};
+
+// Contiguous runs of modules sharing rails: one module row within one frame, broken where a
+// module was skipped for an obstacle. Each run carries its tilt group (rows belong to one group).
+const railRuns = (segment: FieldSegment, placed: PlacedModule[]) => {
+  const sizeWide = segmentFrameSize(segment).wide;
+  const byRow = new Map<number, { group: number; cols: number[] }>();
+  placed.forEach((m) => {
+    const row = byRow.get(m.row) ?? { group: m.group ?? 0, cols: [] };
+    row.cols.push(m.col);
+    byRow.set(m.row, row);
+  });
+  const runs: Array<{ group: number; length: number }> = [];
+  byRow.forEach(({ group, cols }) => {
+    cols.sort((a, b) => a - b);
+    let length = 1;
+    for (let i = 1; i < cols.length; i++) {
+      const sameFrame = Math.floor(cols[i] / sizeWide) === Math.floor(cols[i - 1] / sizeWide);
+      if (cols[i] === cols[i - 1] + 1 && sameFrame) {
+        length++;
+      } else {
+        runs.push({ group, length });
+        length = 1;
+      }
+    }
+    runs.push({ group, length });
+  });
+  return runs;
+};
+
+// One torque tube per tracker (all its module rows share it), spanning its placed columns, with
+// piles along it
+const trackerRuns = (segment: FieldSegment, placed: PlacedModule[], moduleWidth: number, gap: number, pileSpacing: number) => {
+  const { wide, up } = segmentFrameSize(segment);
+  const spans = new Map<string, { min: number; max: number }>();
+  placed.forEach((m) => {
+    const key = `${Math.floor(m.row / up)}:${Math.floor(m.col / wide)}`;
+    const span = spans.get(key) ?? { min: m.col, max: m.col };
+    span.min = Math.min(span.min, m.col);
+    span.max = Math.max(span.max, m.col);
+    spans.set(key, span);
+  });
+  let tubeM = 0;
+  let piles = 0;
+  spans.forEach(({ min, max }) => {
+    const n = max - min + 1;
+    const lengthM = n * moduleWidth + (n - 1) * gap;
+    tubeM += lengthM;
+    piles += Math.ceil(lengthM / pileSpacing) + 1;
+  });
+  return { trackers: spans.size, tubeM, piles };
+};
+
+const segmentMaterials = (segment: FieldSegment, placed: PlacedModule[], dims: ModuleDims): BomLine[] => {
+  const spec = RACKING_SPECS[segment.racking] ?? RACKING_SPECS['Flush Mount'];
+  const moduleWidths = segmentTiltGroups(segment).map(g => g.defaultOrientation === 'Portrait' ? dims.height : dims.width);
+  const gap = moduleGap(segment);
+  const spacing = feetToMeters(spec.attachmentSpacingFt);
+  let railM = 0;
+  let attachments = 0;
+  let midClamps = 0;
+  let endClamps = 0;
+  railRuns(segment, placed).forEach(({ group, length: n }) => {
+    const runM = n * (moduleWidths[group] ?? moduleWidths[0]) + (n - 1) * gap;
+    railM += RAILS_PER_MODULE_ROW * runM;
+    attachments += RAILS_PER_MODULE_ROW * (Math.ceil(runM / spacing) + 1);
+    midClamps += RAILS_PER_MODULE_ROW * (n - 1);
+    endClamps += RAILS_PER_MODULE_ROW * 2;
+  });
+  const line = (category: BomLine['category'], description: string, quantity: number, unit = 'pcs'): BomLine =>
+    ({ category, description, segment: segment.description, quantity, unit });
+  if (segment.racking === 'Single-Axis Tracker') {
+    const { trackers, tubeM, piles } = trackerRuns(segment, placed, moduleWidths[0], gap, spacing);
+    return [
+      line('Tracker', `Single-axis tracker, ${segmentFrameSize(segment).wide} modules`, trackers),
+      line('Rail', 'Torque tube', Math.ceil(tubeM * METERS_TO_FEET), 'ft'),
+      line('Attachment', spec.attachment, piles),
+      line('Clamp', 'Mid clamp', midClamps),
+      line('Clamp', 'End clamp', endClamps),
+    ].filter(l => l.quantity > 0);
+  }
+  return [
+    line('Rail', `${segment.racking} rail`, Math.ceil(railM * METERS_TO_FEET), 'ft'),
+    line('Attachment', spec.attachment, attachments),
+    line('Clamp', 'Mid clamp', midClamps),
+    line('Clamp', 'End clamp', endClamps),
+  ].filter(l => l.quantity > 0);
+};
+
+// DC wire for the strings: jumpers where consecutive modules of a string aren't neighbours, and
+// a positive and negative homerun from the string ends to the inverter
+const wireLines = (stringing: StringingResult | null, inverterLocation: [number, number] | null): BomLine[] => {
+  const strings = stringing?.strings.filter(s => s.modules.length) ?? [];
+  if (!strings.length) return [];
+  const centers = strings.flatMap(s => s.modules.map(m => m.center));
+  const target: [number, number] = inverterLocation ?? [
+    centers.reduce((s, c) => s + c[0], 0) / centers.length,
+    centers.reduce((s, c) => s + c[1], 0) / centers.length,
+  ];
+  const project = localProjector(target);
+  const dist = (a: [number, number], b: [number, number]) => {
+    const [ax, ay] = project(a);
+    const [bx, by] = project(b);
+    return Math.hypot(ax - bx, ay - by);
+  };
+
+  let jumperM = 0;
+  let homerunM = 0;
+  strings.forEach(({ modules }) => {
+    for (let i = 1; i < modules.length; i++) {
+      const a = modules[i - 1];
+      const b = modules[i];
+      const adjacent = a.segmentId === b.segmentId && a.row === b.row && Math.abs(a.col - b.col) === 1;
+      if (!adjacent) jumperM += dist(a.center, b.center);
+    }
+    homerunM += dist(modules[0].center, target) + dist(modules[modules.length - 1].center, target);
+  });
+  const ft = (m: number) => Math.ceil(m * WIRE_SLACK * METERS_TO_FEET);
+  return [
+    { category: 'Wire' as const, description: 'PV wire, string jumpers', segment: null, quantity: ft(jumperM), unit: 'ft' },
+    { category: 'Wire' as const, description: 'PV wire, homeruns (+/-)', segment: null, quantity: ft(homerunM), unit: 'ft' },
+  ].filter(l => l.quantity > 0);
+};
+
+// Materials for a placed layout: modules by segment and model, inverters sized by the stringing
+// result (one when it couldn't be computed), rails, attachments and clamps from each segment's
+// frames, and DC wire from the strings
+export const buildBillOfMaterials = ({ segments, placedModules, modules, moduleDims, inverter, stringing, inverterLocation }: BomInput): BomLine[] => {
+  const lines: BomLine[] = [];
+  const racking: BomLine[] = [];
+  segments.forEach((segment) => {
+    const placed = placedModules[segment.id] ?? [];
+    if (!segment.module || !placed.length) return;
+    const mod = modules[segment.module];
+    lines.push({
+      category: 'Module',
+      description: mod ? `${mod.manufacturer} ${mod.model}${mod.pnom ? ` (${mod.pnom} W)` : ''}` : 'Unknown module',
+      segment: segment.description,
+      quantity: placed.length,
+      unit: 'pcs',
+    });
+    const dims = moduleDims[segment.module];
+    if (dims) racking.push(...segmentMaterials(segment, placed, dims));
+  });
+  if (inverter && lines.length) {
+    lines.push({
+      category: 'Inverter',
+      description: `${inverter.manufacturer} ${inverter.model}${inverter.pnom_ac ? ` (${(inverter.pnom_ac / 1000).toFixed(1)} kWac)` : ''}`,
+      segment: null,
+      quantity: Math.max(1, stringing?.inverters.length ?? 1),
+      unit: 'pcs',
+    });
+  }
+  return [...lines, ...racking, ...wireLines(stringing, inverterLocation)];
+};
+
+// Export
+
+const BOM_HEADER = ['Category', 'Description', 'Segment', 'Quantity', 'Unit'];
+
+const bomRows = (lines: BomLine[]): Array<Array<string | number>> =>
+  lines.map(l => [l.category, l.description, l.segment ?? 'All', l.quantity, l.unit]);
+
+const csvCell = (value: string | number) => {
+  const s = String(value);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const bomToCsv = (lines: BomLine[]): Blob => {
+  const text = [BOM_HEADER, ...bomRows(lines)].map(row => row.map(csvCell).join(',')).join('\r\n');
+  return new Blob([text], { type: 'text/csv;charset=utf-8' });
+};
+
+export const bomToXlsx = (lines: BomLine[]): Blob => {
+  const sheet = XLSX.utils.aoa_to_sheet([BOM_HEADER, ...bomRows(lines)]);
+  sheet['!cols'] = [{ wch: 12 }, { wch: 44 }, { wch: 24 }, { wch: 10 }, { wch: 8 }];
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'Bill of Materials');
+  const data = XLSX.write(book, { type: 'array', bookType: 'xlsx' });
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
@@ -0,0 +1,12 @@
+// Save a generated file through the browser's download prompt
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// File name safe on all platforms
+export const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_');
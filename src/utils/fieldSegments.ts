@@ -0,0 +1,110 @@
+import { FieldSegment, Racking, TiltGroup } from '../types/project';
+import type { Json, Tables, TablesInsert, TablesUpdate } from '../integrations/supabase/types';
+
+// Default shadow analysis date: Dec 22 of the current year
+export const dec22ThisYear = () => {
+  const y = new Date().getFullYear();
+  const d = new Date(y, 11, 22); // month is 0-based
+  const mm = String(d.getMonth() + 1).padStart(2, '0');
+  const dd = String(d.getDate()).padStart(2, '0');
+  return `${y}-${mm}-${dd}`;
+};
+
+const RACKINGS: Racking[] = ['Fixed Tilt Racking', 'Flush Mount', 'East-West', 'Single-Axis Tracker'];
+
+// Map a field_segments row (snake_case) to FieldSegment (camelCase)
+export const mapDbToSegment = (row: Tables<'field_segments'>): FieldSegment => ({
+  id: row.id,
+  design_id: row.design_id,
+  geometry: row.geometry,
+  area: row.area,
+  description: row.description ?? '',
+  module: row.module,
+  racking: RACKINGS.includes(row.racking as Racking) ? (row.racking as Racking) : 'Fixed Tilt Racking',
+  surfaceHeight: row.surface_height ?? 0,
+  rackingHeight: row.racking_height ?? 0,
+  parapetHeight: row.parapet_height ?? 0,
+  moduleAzimuth: row.module_azimuth ?? 180,
+  moduleTilt: row.module_tilt ?? 10,
+  // sun & shadows
+  spanRise: row.span_rise ?? 1.4,
+  gcr: row.gcr ?? 0.81,
+  timeOfDay: row.time_of_day ?? '10:00',
+  analysisDate: row.analysis_date ?? dec22ThisYear(),
+  startTime: row.start_time ?? '10:00',
+  endTime: row.end_time ?? '16:00',
+  frameSizeUp: row.frame_size_up ?? 1,
+  frameSizeWide: row.frame_size_wide ?? 1,
+  defaultOrientation: row.default_orientation === 'Portrait' ? 'Portrait' : 'Landscape',
+  rowSpacing: row.row_spacing ?? 2,
+  rowSpacingMode: row.row_spacing_mode === 'solstice' ? 'solstice' : 'manual',
+  moduleSpacing: row.module_spacing ?? 0.041,
+  frameSpacing: row.frame_spacing ?? 0,
+  setback: row.setback ?? 4,
+  alignment: (row.alignment ?? 'center') as FieldSegment['alignment'],
+  maxKwp: row.max_kwp ?? null,
+  layoutPriority: (row.layout_priority ?? 'row') as FieldSegment['layoutPriority'],
+  tiltGroups: Array.isArray(row.tilt_groups) ? (row.tilt_groups as unknown as TiltGroup[]) : [],
+  ridgeGap: row.ridge_gap ?? 0.5,
+  trackerAxisAzimuth: row.tracker_axis_azimuth ?? 180,
+  trackerMaxAngle: row.tracker_max_angle ?? 60,
+  trackerLength: row.tracker_length ?? 28,
+  backtracking: row.backtracking ?? true,
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+// FieldSegment (camelCase) field -> field_segments column
+const SEGMENT_COLUMNS: Partial<Record<keyof FieldSegment, string>> = {
+  geometry: 'geometry',
+  area: 'area',
+  description: 'description',
+  module: 'module',
+  racking: 'racking',
+  surfaceHeight: 'surface_height',
+  rackingHeight: 'racking_height',
+  parapetHeight: 'parapet_height',
+  moduleAzimuth: 'module_azimuth',
+  moduleTilt: 'module_tilt',
+  spanRise: 'span_rise',
+  gcr: 'gcr',
+  timeOfDay: 'time_of_day',
+  analysisDate: 'analysis_date',
+  startTime: 'start_time',
+  endTime: 'end_time',
+  frameSizeUp: 'frame_size_up',
+  frameSizeWide: 'frame_size_wide',
+  defaultOrientation: 'default_orientation',
+  rowSpacing: 'row_spacing',
+  rowSpacingMode: 'row_spacing_mode',
+  moduleSpacing: 'module_spacing',
+  frameSpacing: 'frame_spacing',
+  setback: 'setback',
+  alignment: 'alignment',
+  maxKwp: 'max_kwp',
+  layoutPriority: 'layout_priority',
+  tiltGroups: 'tilt_groups',
+  ridgeGap: 'ridge_gap',
+  trackerAxisAzimuth: 'tracker_axis_azimuth',
+  trackerMaxAngle: 'tracker_max_angle',
+  trackerLength: 'tracker_length',
+  backtracking: 'backtracking',
+};
+
+// Map the editable fields present in a (partial) segment to a field_segments row
+export const segmentPatchToDb = (patch: Partial<FieldSegment>): TablesUpdate<'field_segments'> => {
+  const row: Record<string, Json> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    const column = SEGMENT_COLUMNS[key as keyof FieldSegment];
+    if (column && value !== undefined) row[column] = value as Json;
+  }
+  return row;
+};
+
+// Full row for re-inserting a segment (e.g. undoing a delete) with its original id
+export const segmentToDbRow = (segment: FieldSegment): TablesInsert<'field_segments'> => ({
+  id: segment.id,
+  design_id: segment.design_id,
+  created_at: segment.created_at,
+  ...segmentPatchToDb(segment),
+});
@@ -0,0 +1,87 @@
+import * as turf from '@turf/turf';
+import { FieldSegment, Keepout } from '../types/project';
+import type { Json, Tables, TablesInsert } from '../integrations/supabase/types';
+import { feetToMeters } from './mapUtils';
+import { getGeometryShell, PolygonFeature, ringToTurfPolygon } from './autoLayout';
+
+// Map a keepouts row (snake_case) to Keepout (camelCase)
+export const mapDbToKeepout = (row: Tables<'keepouts'>): Keepout => ({
+  id: row.id,
+  design_id: row.design_id,
+  shape: row.shape === 'circle' ? 'circle' : 'polygon',
+  geometry: row.geometry,
+  description: row.description ?? 'Keepout',
+  height: Number(row.height ?? 3),
+  setback: Number(row.setback ?? 0),
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+// Keepout back to a keepouts row (snake_case), keeping its id
+export const keepoutToDbRow = (keepout: Keepout): TablesInsert<'keepouts'> => ({
+  id: keepout.id,
+  design_id: keepout.design_id,
+  shape: keepout.shape,
+  geometry: keepout.geometry as Json,
+  description: keepout.description,
+  height: keepout.height,
+  setback: keepout.setback,
+  created_at: keepout.created_at,
+});
+
+// Outer ring of a keepout; maptalks circles are stored as center + radius, so approximate them
+export const keepoutRing = (keepout: Keepout): [number, number][] | null => {
+  const g = keepout.geometry as { subType?: string; coordinates?: unknown; radius?: unknown } | null;
+  if (g?.subType === 'Circle' && Array.isArray(g.coordinates) && typeof g.radius === 'number' && isFinite(g.radius)) {
+    const circle = turf.circle(g.coordinates as [number, number], Math.max(0.01, g.radius), { steps: 48, units: 'meters' });
+    return (circle.geometry.coordinates[0] as [number, number][]).slice(0, -1);
+  }
+  return getGeometryShell(g);
+};
+
+// Area kept free of modules: the keepout grown by its setback
+export const keepoutFootprint = (keepout: Keepout): PolygonFeature | null => {
+  const ring = keepoutRing(keepout);
+  if (!ring) return null;
+  const poly = ringToTurfPolygon(ring);
+  const sb = feetToMeters(keepout.setback || 0);
+  if (!isFinite(sb) || sb <= 0) return poly;
+  try {
+    const buff = turf.buffer(poly, sb, { units: 'meters' });
+    return buff || poly;
+  } catch { return poly; }
+};
+
+// Field segment a keepout sits on (by centroid), if any
+export const keepoutBaseSegment = (keepout: Keepout, segments: FieldSegment[]): FieldSegment | null => {
+  const ring = keepoutRing(keepout);
+  if (!ring) return null;
+  const center = turf.centroid(ringToTurfPolygon(ring));
+  for (const segment of segments) {
+    const shell = getGeometryShell(segment.geometry);
+    if (!shell) continue;
+    try {
+      if (turf.booleanPointInPolygon(center, ringToTurfPolygon(shell))) return segment;
+    } catch {
+      // A degenerate segment outline can't hold the keepout; try the next one
+    }
+  }
+  return null;
+};
+
+// Keepout footprints that overlap a segment, used to block auto-layout
+export const segmentObstacles = (segment: FieldSegment, keepouts: Keepout[]) => {
+  const shell = getGeometryShell(segment.geometry);
+  if (!shell || !keepouts.length) return [];
+  const segPoly = ringToTurfPolygon(shell);
+  const out: PolygonFeature[] = [];
+  for (const k of keepouts) {
+    const fp = keepoutFootprint(k);
+    try {
+      if (fp && turf.booleanIntersects(fp, segPoly)) out.push(fp);
+    } catch {
+      // turf rejects degenerate footprints; such a keepout doesn't block the layout
+    }
+  }
+  return out;
+};
@@ -0,0 +1,95 @@
+import { FieldSegment, Keepout, PlacedModule, Tree } from '../types/project';
+import { localProjector } from './mapUtils';
+import { calculateModuleShading, moduleShadingKey, ShadingScene } from './shading';
+
+export interface LayoutCapContext {
+  segments: FieldSegment[];
+  pnom: Record<string, number>; // W, by module id
+  site: { lat: number; lng: number; timeZone: string } | null; // needed for the shading priority
+  keepouts: Keepout[];
+  trees: Tree[];
+  inverterLocation: [number, number] | null;
+  // Shading loss by moduleShadingKey from a shading run elsewhere (the editor's worker); null while
+  // that is pending, which drops in row order meanwhile. Left out, it is calculated here.
+  shadingLoss?: Record<string, number> | null;
+}
+
+// Ranking only needs relative shading, so sample every third hour of the year
+export const SHADING_RANK_STEP_HOURS = 3;
+
+export const LAYOUT_PRIORITY_OPTIONS: Array<{ value: FieldSegment['layoutPriority']; label: string }> = [
+  { value: 'row', label: 'Last rows placed' },
+  { value: 'shading', label: 'Most shaded' },
+  { value: 'inverter', label: 'Farthest from inverter' },
+];
+
+// Higher scores are dropped first; null when the priority can't be evaluated (falls back to row order)
+const dropScores = (segment: FieldSegment, placed: PlacedModule[], ctx: LayoutCapContext): number[] | null => {
+  if (segment.layoutPriority === 'shading' && ctx.shadingLoss !== undefined) {
+    const loss = ctx.shadingLoss;
+    return loss ? placed.map(m => loss[moduleShadingKey(m)] ?? 0) : null;
+  }
+  if (segment.layoutPriority === 'shading' && ctx.site) {
+    const result = calculateModuleShading({
+      ...ctx.site,
+      segments: ctx.segments,
+      placedModules: { [segment.id]: placed },
+      keepouts: ctx.keepouts,
+      trees: ctx.trees,
+    }, SHADING_RANK_STEP_HOURS);
+    const loss = new Map(result.modules.map(m => [moduleShadingKey(m), m.shadingLoss]));
+    return placed.map(m => loss.get(moduleShadingKey(m)) ?? 0);
+  }
+  if (segment.layoutPriority === 'inverter' && ctx.inverterLocation) {
+    const project = localProjector(ctx.inverterLocation);
+    return placed.map((m) => {
+      const [x, y] = project(m.center);
+      return Math.hypot(x, y);
+    });
+  }
+  return null;
+};
+
+// Modules of the segment's type that fit under its max kWp; null when it has no cap
+const moduleLimit = (segment: FieldSegment, pnomById: Record<string, number>) => {
+  const maxKwp = Number(segment.maxKwp);
+  const pnom = segment.module ? pnomById[segment.module] ?? 0 : 0;
+  if (!(maxKwp > 0) || !(pnom > 0)) return null;
+  return Math.floor((maxKwp * 1000) / pnom + 1e-9);
+};
+
+// The segments whose cap drops by shading, for ranking ahead of capPlacedModules; null when none do
+export const shadingRankScene = (placedModules: Record<string, PlacedModule[]>, ctx: LayoutCapContext): ShadingScene | null => {
+  if (!ctx.site) return null;
+  const ranked: Record<string, PlacedModule[]> = {};
+  ctx.segments.forEach((segment) => {
+    const limit = moduleLimit(segment, ctx.pnom);
+    const placed = placedModules[segment.id] ?? [];
+    if (segment.layoutPriority === 'shading' && limit !== null && placed.length > limit) ranked[segment.id] = placed;
+  });
+  if (!Object.keys(ranked).length) return null;
+  return { ...ctx.site, segments: ctx.segments, placedModules: ranked, keepouts: ctx.keepouts, trees: ctx.trees };
+};
+
+// Trim each segment with a max kWp to the modules that fit under it, dropping by the segment's
+// priority. Kept modules stay in placement order (rows are placed first to last, so row order
+// simply keeps the first ones).
+export const capPlacedModules = (placedModules: Record<string, PlacedModule[]>, ctx: LayoutCapContext): Record<string, PlacedModule[]> => {
+  const out: Record<string, PlacedModule[]> = { ...placedModules };
+  ctx.segments.forEach((segment) => {
+    const placed = placedModules[segment.id] ?? [];
+    const keep = moduleLimit(segment, ctx.pnom);
+    if (keep === null || placed.length <= keep) return;
+
+    const scores = dropScores(segment, placed, ctx);
+    if (!scores) {
+      out[segment.id] = placed.slice(0, keep);
+      return;
+    }
+    const kept = new Set(
+      placed.map((_, i) => i).sort((a, b) => scores[a] - scores[b] || a - b).slice(0, keep)
+    );
+    out[segment.id] = placed.filter((_, i) => kept.has(i));
+  });
+  return out;
+};
@@ -8,4 +8,12 @@ export const formatDistance = (meters: number): string => {
 export const formatArea = (sqMeters: number): string => {
     const sqFeet = sqMeters * METERS_TO_FEET * METERS_TO_FEET;
     return `${sqFeet.toFixed(1)} ft²`;
-}
\ No newline at end of file
+}
+export const feetToMeters = (ft: number): number => (Number.isFinite(ft) ? ft * 0.3048 : 0);
+
+// Equirectangular projection to local east/north meters around an origin; accurate over a site
+export const localProjector = (origin: [number, number]) => {
+  const kx = 111320 * Math.cos((origin[1] * Math.PI) / 180);
+  const ky = 110540;
+  return (c: [number, number]): [number, number] => [(c[0] - origin[0]) * kx, (c[1] - origin[1]) * ky];
+};
@@ -0,0 +1,155 @@
+import { supabase } from '../integrations/supabase/client';
+import { fetchSegments } from '../integrations/supabase/repository';
+import type { Design, FieldSegment, Keepout, PlacedModule, ProjectData, Tree } from '../types/project';
+import type { Inverter, Module, ParsedPAN } from '../types/library';
+import type { SimulationResult } from '../types/weather';
+import { layoutSegmentModules, ModuleDims, resolveModuleDims } from './autoLayout';
+import { mapDbToKeepout, segmentObstacles } from './keepouts';
+import { mapDbToTree } from './trees';
+import { calculateModuleShading, ShadingResult } from './shading';
+import { assignStrings, moduleParamsFromParsed, StringingModuleParams, StringingResult } from './stringing';
+import { buildBillOfMaterials, BomLine } from './billOfMaterials';
+import { capPlacedModules } from './layoutCap';
+import { mapDbToSimulation } from './simulation';
+import { projectTimeZone } from './timeZone';
+
+export interface ReportSegmentRow {
+  segment: FieldSegment;
+  moduleLabel: string;
+  moduleCount: number;
+  kwp: number;
+}
+
+// Everything a design report shows, computed the same way the editor does
+export interface DesignReportData {
+  project: ProjectData;
+  design: Design;
+  segments: ReportSegmentRow[];
+  placedModules: Record<string, PlacedModule[]>;
+  keepouts: Keepout[];
+  trees: Tree[];
+  moduleCount: number;
+  kwp: number;
+  inverter: Inverter | null;
+  stringing: StringingResult | null;
+  billOfMaterials: BomLine[];
+  shading: ShadingResult | null;
+  simulation: SimulationResult | null;
+  generatedAt: Date;
+}
+
+const throwIfError = <T>({ data, error }: { data: T | null; error: unknown }): T => {
+  if (error) throw error;
+  return data as T;
+};
+
+export const loadDesignReportData = async (project: ProjectData, design: Design): Promise<DesignReportData> => {
+  const [segments, keepoutRows, treeRows, electricalRow, simulationRows] = await Promise.all([
+    fetchSegments(design.id),
+    supabase.from('keepouts').select('*').eq('design_id', design.id).then(throwIfError),
+    supabase.from('trees').select('*').eq('design_id', design.id).then(throwIfError),
+    supabase.from('electrical_configs').select('*').eq('design_id', design.id).maybeSingle().then(throwIfError),
+    supabase.from('simulations').select('*').eq('design_id', design.id).order('created_at', { ascending: false }).limit(1).then(throwIfError),
+  ]);
+  const keepouts = (keepoutRows || []).map(mapDbToKeepout);
+  const trees = (treeRows || []).map(mapDbToTree);
+
+  const moduleIds = Array.from(new Set(segments.map(s => s.module).filter(Boolean))) as string[];
+  const modules: Record<string, Module> = {};
+  const parsed: Record<string, ParsedPAN | undefined> = {};
+  if (moduleIds.length) {
+    const [modRows, detailRows] = await Promise.all([
+      supabase.from('modules').select('*').in('id', moduleIds).then(throwIfError),
+      supabase.from('module_details').select('module_id, parsed').in('module_id', moduleIds).then(throwIfError),
+    ]);
+    (modRows || []).forEach((m) => { modules[m.id] = m; });
+    (detailRows || []).forEach((d) => { parsed[d.module_id] = (d.parsed ?? undefined) as ParsedPAN | undefined; });
+  }
+
+  let inverter: Inverter | null = null;
+  if (electricalRow?.inverter_id) {
+    const { data, error } = await supabase.from('inverters').select('*').eq('id', electricalRow.inverter_id).maybeSingle();
+    if (error) throw error;
+    inverter = data as Inverter | null;
+  }
+
+  const moduleDims: Record<string, ModuleDims> = {};
+  const pnomById: Record<string, number> = {};
+  moduleIds.forEach((id) => {
+    if (!modules[id]) return;
+    moduleDims[id] = resolveModuleDims(modules[id], parsed[id]);
+    pnomById[id] = moduleParamsFromParsed(modules[id], parsed[id])?.pnom ?? modules[id].pnom ?? 0;
+  });
+  const inverterLocation: [number, number] | null = electricalRow?.inverter_lng != null && electricalRow.inverter_lat != null
+    ? [electricalRow.inverter_lng, electricalRow.inverter_lat]
+    : null;
+
+  const uncapped: Record<string, PlacedModule[]> = {};
+  segments.forEach((segment) => {
+    uncapped[segment.id] = segment.module && modules[segment.module]
+      ? layoutSegmentModules(segment, moduleDims[segment.module], segmentObstacles(segment, keepouts))
+      : [];
+  });
+  const placedModules = capPlacedModules(uncapped, {
+    segments,
+    pnom: pnomById,
+    site: project.coordinates ? { ...project.coordinates, timeZone: projectTimeZone(project) } : null,
+    keepouts,
+    trees,
+    inverterLocation,
+  });
+
+  const rows: ReportSegmentRow[] = segments.map((segment) => {
+    const mod = segment.module ? modules[segment.module] : undefined;
+    const pnom = segment.module ? pnomById[segment.module] ?? 0 : 0;
+    const moduleCount = placedModules[segment.id].length;
+    return {
+      segment,
+      moduleLabel: mod ? `${mod.manufacturer} ${mod.model}` : '-',
+      moduleCount,
+      kwp: (moduleCount * pnom) / 1000,
+    };
+  });
+
+  let stringing: StringingResult | null = null;
+  if (inverter && electricalRow) {
+    const params: Record<string, StringingModuleParams | null> = {};
+    moduleIds.forEach((id) => { params[id] = moduleParamsFromParsed(modules[id], parsed[id]); });
+    stringing = assignStrings(segments, placedModules, params, inverter, {
+      recordLowTemp: electricalRow.record_low_temp ?? -10,
+      highTemp: electricalRow.high_temp ?? 40,
+      stringLength: electricalRow.string_length,
+    });
+  }
+
+  const moduleCount = rows.reduce((sum, r) => sum + r.moduleCount, 0);
+  let shading: ShadingResult | null = null;
+  if (project.coordinates && moduleCount > 0) {
+    shading = calculateModuleShading({
+      lat: project.coordinates.lat,
+      lng: project.coordinates.lng,
+      timeZone: projectTimeZone(project),
+      segments,
+      placedModules,
+      keepouts,
+      trees,
+    });
+  }
+
+  return {
+    project,
+    design,
+    segments: rows,
+    placedModules,
+    keepouts,
+    trees,
+    moduleCount,
+    kwp: rows.reduce((sum, r) => sum + r.kwp, 0),
+    inverter,
+    stringing,
+    billOfMaterials: buildBillOfMaterials({ segments, placedModules, modules, moduleDims, inverter, stringing, inverterLocation }),
+    shading,
+    simulation: simulationRows?.[0] ? mapDbToSimulation(simulationRows[0]) : null,
+    generatedAt: new Date(),
+  };
+};
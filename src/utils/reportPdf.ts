@@ -0,0 +1,379 @@
+import { jsPDF } from 'jspdf';
+import type { DesignReportData } from './report';
+import { getGeometryShell, segmentTiltGroups } from './autoLayout';
+import { keepoutRing } from './keepouts';
+import { trackerGeometry } from './tracker';
+import { feetToMeters, formatArea, localProjector } from './mapUtils';
+
+// A4 portrait, millimeters
+const PAGE_W = 210;
+const PAGE_H = 297;
+const MARGIN = 18;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const ORANGE: [number, number, number] = [249, 115, 22];
+const GRAY: [number, number, number] = [107, 114, 128];
+const DARK: [number, number, number] = [31, 41, 55];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+type Align = 'left' | 'right';
+interface Column { header: string; width: number; align?: Align }
+
+const fmt = (n: number, digits = 0) => n.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+const sectionTitle = (doc: jsPDF, title: string, y: number) => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.setTextColor(...DARK);
+  doc.text(title, MARGIN, y);
+  doc.setDrawColor(...ORANGE);
+  doc.setLineWidth(0.8);
+  doc.line(MARGIN, y + 2, MARGIN + 20, y + 2);
+  return y + 10;
+};
+
+// Simple table with a shaded header; starts a new page (repeating the header) when it runs out of room
+const table = (doc: jsPDF, columns: Column[], rows: string[][], startY: number, bold: Set<number> = new Set()) => {
+  const rowH = 7;
+  let y = startY;
+  const header = () => {
+    doc.setFillColor(243, 244, 246);
+    doc.rect(MARGIN, y, CONTENT_W, rowH, 'F');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(...DARK);
+    let x = MARGIN;
+    columns.forEach((c) => {
+      doc.text(c.header, c.align === 'right' ? x + c.width - 2 : x + 2, y + 4.8, { align: c.align ?? 'left' });
+      x += c.width;
+    });
+    y += rowH;
+  };
+  header();
+  rows.forEach((row, i) => {
+    if (y + rowH > PAGE_H - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+      header();
+    }
+    doc.setFont('helvetica', bold.has(i) ? 'bold' : 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...DARK);
+    let x = MARGIN;
+    columns.forEach((c, j) => {
+      const text = doc.splitTextToSize(row[j] ?? '', c.width - 4)[0] ?? '';
+      doc.text(text, c.align === 'right' ? x + c.width - 2 : x + 2, y + 4.8, { align: c.align ?? 'left' });
+      x += c.width;
+    });
+    doc.setDrawColor(229, 231, 235);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, y + rowH, MARGIN + CONTENT_W, y + rowH);
+    y += rowH;
+  });
+  return y + 6;
+};
+
+const keyValues = (doc: jsPDF, pairs: Array<[string, string]>, startY: number) => {
+  let y = startY;
+  doc.setFontSize(11);
+  pairs.forEach(([k, v]) => {
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...GRAY);
+    doc.text(k, MARGIN, y);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...DARK);
+    doc.text(v, MARGIN + 60, y);
+    y += 7;
+  });
+  return y + 4;
+};
+
+// Closed polygon from page coordinates
+const polygon = (doc: jsPDF, pts: Array<[number, number]>, style: 'S' | 'F' | 'FD') => {
+  if (pts.length < 3) return;
+  const deltas = pts.slice(1).map((p, i) => [p[0] - pts[i][0], p[1] - pts[i][1]]);
+  doc.lines(deltas, pts[0][0], pts[0][1], [1, 1], style, true);
+};
+
+const coverPage = (doc: jsPDF, data: DesignReportData) => {
+  doc.setFillColor(...ORANGE);
+  doc.rect(0, 0, PAGE_W, 70, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('HelioScope · Solar Design Report', MARGIN, 24);
+  doc.setFontSize(28);
+  doc.text(doc.splitTextToSize(data.project.projectName, CONTENT_W)[0], MARGIN, 44);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.text(doc.splitTextToSize(data.project.address || 'No address', CONTENT_W)[0], MARGIN, 56);
+
+  let y = 90;
+  y = keyValues(doc, [
+    ['Design', data.design.name],
+    ['Location', data.project.coordinates ? `${data.project.coordinates.lat.toFixed(5)}, ${data.project.coordinates.lng.toFixed(5)}` : '-'],
+    ['Project type', data.project.projectType],
+    ['Generated', data.generatedAt.toLocaleString()],
+  ], y);
+
+  const tiles: Array<[string, string]> = [
+    ['Modules', fmt(data.moduleCount)],
+    ['DC Nameplate', `${fmt(data.kwp, 2)} kWp`],
+    ['Annual Production', data.simulation ? `${fmt(data.simulation.annualKwh)} kWh` : 'Not simulated'],
+  ];
+  const w = (CONTENT_W - 8) / 3;
+  tiles.forEach(([label, value], i) => {
+    const x = MARGIN + i * (w + 4);
+    doc.setDrawColor(229, 231, 235);
+    doc.setLineWidth(0.3);
+    doc.roundedRect(x, y, w, 26, 2, 2, 'S');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...GRAY);
+    doc.text(label, x + 4, y + 8);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(...DARK);
+    doc.text(value, x + 4, y + 19);
+  });
+};
+
+const layoutPage = (doc: jsPDF, data: DesignReportData) => {
+  doc.addPage();
+  let y = sectionTitle(doc, 'Layout', MARGIN + 6);
+
+  const shells = data.segments.map(r => getGeometryShell(r.segment.geometry)).filter(Boolean) as [number, number][][];
+  const keepoutRings = data.keepouts.map(keepoutRing).filter(Boolean) as [number, number][][];
+  const all = [...shells.flat(), ...keepoutRings.flat(), ...data.trees.map(t => t.position)];
+  if (!all.length) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor(...GRAY);
+    doc.text('This design has no field segments yet.', MARGIN, y);
+    return;
+  }
+
+  const origin: [number, number] = data.project.coordinates ? [data.project.coordinates.lng, data.project.coordinates.lat] : all[0];
+  const project = localProjector(origin);
+  const local = all.map(project);
+  const pad = 3; // meters around the drawing
+  const minX = Math.min(...local.map(p => p[0])) - pad;
+  const maxX = Math.max(...local.map(p => p[0])) + pad;
+  const minY = Math.min(...local.map(p => p[1])) - pad;
+  const maxY = Math.max(...local.map(p => p[1])) + pad;
+  const boxH = 170;
+  const scale = Math.min(CONTENT_W / (maxX - minX), boxH / (maxY - minY)); // mm per meter
+  const offX = MARGIN + (CONTENT_W - (maxX - minX) * scale) / 2;
+  const toPage = (c: [number, number]): [number, number] => {
+    const [e, n] = project(c);
+    return [offX + (e - minX) * scale, y + (maxY - n) * scale];
+  };
+
+  doc.setDrawColor(229, 231, 235);
+  doc.setLineWidth(0.3);
+  doc.rect(MARGIN, y, CONTENT_W, boxH, 'S');
+
+  // Keepouts, segment outlines, modules, trees
+  doc.setFillColor(209, 213, 219);
+  doc.setDrawColor(...GRAY);
+  keepoutRings.forEach(ring => polygon(doc, ring.map(toPage), 'FD'));
+  doc.setDrawColor(...ORANGE);
+  doc.setLineWidth(0.5);
+  shells.forEach(ring => polygon(doc, ring.map(toPage), 'S'));
+  doc.setFillColor(30, 64, 175);
+  doc.setDrawColor(147, 197, 253);
+  doc.setLineWidth(0.1);
+  Object.values(data.placedModules).flat().forEach(m => polygon(doc, m.ring.map(toPage), 'FD'));
+  doc.setFillColor(134, 239, 172);
+  doc.setDrawColor(22, 163, 74);
+  data.trees.forEach((t) => {
+    const [x, ty] = toPage(t.position);
+    doc.circle(x, ty, Math.max(0.8, feetToMeters(t.canopyRadius) * scale), 'FD');
+  });
+
+  // Segment labels
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8);
+  doc.setTextColor(...DARK);
+  data.segments.forEach((r) => {
+    const shell = getGeometryShell(r.segment.geometry);
+    if (!shell) return;
+    const pts = shell.map(toPage);
+    const cx = pts.reduce((s, p) => s + p[0], 0) / pts.length;
+    const cy = pts.reduce((s, p) => s + p[1], 0) / pts.length;
+    doc.text(r.segment.description, cx, cy, { align: 'center' });
+  });
+
+  // North arrow and scale bar
+  const nx = MARGIN + CONTENT_W - 10;
+  const ny = y + 8;
+  doc.setFillColor(...DARK);
+  doc.triangle(nx, ny, nx - 2.5, ny + 7, nx + 2.5, ny + 7, 'F');
+  doc.setFontSize(8);
+  doc.text('N', nx, ny + 11, { align: 'center' });
+  const steps = [1, 2, 5, 10, 20, 50, 100, 200, 500];
+  const barM = steps.find(s => s * scale >= 20) ?? steps[steps.length - 1];
+  const bx = MARGIN + 6;
+  const by = y + boxH - 8;
+  doc.setDrawColor(...DARK);
+  doc.setLineWidth(0.6);
+  doc.line(bx, by, bx + barM * scale, by);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`${barM} m (${fmt(barM * 3.28084)} ft)`, bx, by - 2);
+
+  y += boxH + 8;
+  doc.setFontSize(9);
+  const legend: Array<[[number, number, number], string]> = [
+    [[30, 64, 175], 'Modules'],
+    [ORANGE, 'Field segments'],
+    [[209, 213, 219], 'Keepouts'],
+    [[134, 239, 172], 'Trees'],
+  ];
+  let lx = MARGIN;
+  legend.forEach(([color, label]) => {
+    doc.setFillColor(...color);
+    doc.rect(lx, y - 3, 4, 4, 'F');
+    doc.setTextColor(...DARK);
+    doc.text(label, lx + 6, y);
+    lx += 38;
+  });
+};
+
+const segmentsAndMaterials = (doc: jsPDF, data: DesignReportData) => {
+  doc.addPage();
+  let y = sectionTitle(doc, 'Field Segments', MARGIN + 6);
+  // Segments with tilt groups list each group's angle, in whole degrees to fit the column;
+  // trackers show their rotation limit and axis
+  const angles = (values: number[]) => values.map(v => `${fmt(v, values.length > 1 ? 0 : 1)}°`).join(' / ');
+  const rows = data.segments.map((r) => {
+    const tracker = trackerGeometry(r.segment);
+    return [
+      r.segment.description,
+      tracker ? `±${fmt(tracker.maxAngle)}°` : angles(segmentTiltGroups(r.segment).map(g => g.moduleTilt)),
+      tracker ? `${fmt(tracker.axisAzimuth)}° axis` : angles(segmentTiltGroups(r.segment).map(g => g.moduleAzimuth)),
+      r.moduleLabel,
+      fmt(r.moduleCount),
+      fmt(r.kwp, 2),
+      formatArea(r.segment.area),
+    ];
+  });
+  rows.push(['Total', '', '', '', fmt(data.moduleCount), fmt(data.kwp, 2), formatArea(data.segments.reduce((s, r) => s + r.segment.area, 0))]);
+  y = table(doc, [
+    { header: 'Segment', width: 32 },
+    { header: 'Tilt', width: 22, align: 'right' },
+    { header: 'Azimuth', width: 26, align: 'right' },
+    { header: 'Module', width: 32 },
+    { header: 'Modules', width: 18, align: 'right' },
+    { header: 'kWp', width: 18, align: 'right' },
+    { header: 'Area', width: CONTENT_W - 148, align: 'right' },
+  ], rows, y, new Set([rows.length - 1]));
+
+  if (y > PAGE_H - 60) { doc.addPage(); y = MARGIN + 6; }
+  y = sectionTitle(doc, 'Bill of Materials', y + 4);
+  if (!data.billOfMaterials.length) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor(...GRAY);
+    doc.text('No modules placed yet.', MARGIN, y);
+    return;
+  }
+  table(doc, [
+    { header: 'Category', width: 24 },
+    { header: 'Description', width: 72 },
+    { header: 'Segment', width: 36 },
+    { header: 'Quantity', width: 20, align: 'right' },
+    { header: 'Unit', width: CONTENT_W - 152 },
+  ], data.billOfMaterials.map(l => [l.category, l.description, l.segment ?? 'All', fmt(l.quantity), l.unit]), y);
+};
+
+const shadingAndProduction = (doc: jsPDF, data: DesignReportData) => {
+  doc.addPage();
+  let y = sectionTitle(doc, 'Shading', MARGIN + 6);
+  if (!data.shading) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor(...GRAY);
+    doc.text(data.project.coordinates ? 'No modules placed yet.' : 'The project has no coordinates.', MARGIN, y);
+    y += 12;
+  } else {
+    y = keyValues(doc, [
+      ['Annual shading loss', pct(data.shading.shadingLoss)],
+      ['Solar access', pct(data.shading.solarAccess)],
+    ], y);
+    y = table(doc, [
+      { header: 'Segment', width: 70 },
+      { header: 'Modules', width: 30, align: 'right' },
+      { header: 'Shading loss', width: 37, align: 'right' },
+      { header: 'Solar access', width: CONTENT_W - 137, align: 'right' },
+    ], data.segments
+      .filter(r => data.shading!.segments[r.segment.id])
+      .map((r) => {
+        const s = data.shading!.segments[r.segment.id];
+        return [r.segment.description, fmt(s.moduleCount), pct(s.shadingLoss), pct(s.solarAccess)];
+      }), y);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...GRAY);
+    doc.text('Share of clear-sky beam irradiation on the module plane blocked by segments, keepouts and trees over a year.', MARGIN, y - 2);
+    y += 8;
+  }
+
+  const sim = data.simulation;
+  if (!sim) return;
+  if (y > PAGE_H - 130) { doc.addPage(); y = MARGIN + 6; }
+  y = sectionTitle(doc, 'Energy Production', y);
+  y = keyValues(doc, [
+    ['Annual production', `${fmt(sim.annualKwh)} kWh`],
+    ['Specific yield', `${fmt(sim.specificYield)} kWh/kWp`],
+    ['Performance ratio', pct(sim.performanceRatio)],
+    ['Simulated', sim.created_at ? new Date(sim.created_at).toLocaleDateString() : '-'],
+  ], y);
+
+  // Monthly bar chart
+  const chartH = 70;
+  const chartTop = y;
+  const max = Math.max(...sim.monthlyKwh, 1);
+  const slot = CONTENT_W / 12;
+  doc.setDrawColor(229, 231, 235);
+  doc.setLineWidth(0.2);
+  doc.line(MARGIN, chartTop + chartH, MARGIN + CONTENT_W, chartTop + chartH);
+  sim.monthlyKwh.forEach((kwh, i) => {
+    const h = (kwh / max) * (chartH - 8);
+    const x = MARGIN + i * slot + slot * 0.15;
+    doc.setFillColor(...ORANGE);
+    doc.rect(x, chartTop + chartH - h, slot * 0.7, h, 'F');
+    doc.setFontSize(7);
+    doc.setTextColor(...DARK);
+    doc.text(fmt(kwh), x + slot * 0.35, chartTop + chartH - h - 1.5, { align: 'center' });
+    doc.setFontSize(8);
+    doc.setTextColor(...GRAY);
+    doc.text(MONTHS[i], x + slot * 0.35, chartTop + chartH + 5, { align: 'center' });
+  });
+  doc.setFontSize(8);
+  doc.text('Monthly production (kWh)', MARGIN, chartTop + chartH + 12);
+};
+
+const footers = (doc: jsPDF, data: DesignReportData) => {
+  const pages = doc.getNumberOfPages();
+  for (let i = 2; i <= pages; i++) {
+    doc.setPage(i);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...GRAY);
+    doc.text(`${data.project.projectName} · ${data.design.name}`, MARGIN, PAGE_H - 8);
+    doc.text(`Page ${i} of ${pages}`, PAGE_W - MARGIN, PAGE_H - 8, { align: 'right' });
+  }
+};
+
+// Render a design report: cover, layout drawing, segment table, bill of materials, shading and
+// (when the design has been simulated) monthly production
+export const renderDesignReport = (data: DesignReportData): Blob => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: `${data.project.projectName} - ${data.design.name}`, subject: 'Solar design report', creator: 'HelioScope' });
+  coverPage(doc, data);
+  layoutPage(doc, data);
+  segmentsAndMaterials(doc, data);
+  shadingAndProduction(doc, data);
+  footers(doc, data);
+  return doc.output('blob');
+};
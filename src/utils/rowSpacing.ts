@@ -0,0 +1,67 @@
+import { FieldSegment } from '../types/project';
+import { ModuleDims, segmentFrameDepth } from './autoLayout';
+import { METERS_TO_FEET } from './mapUtils';
+import { parseHHmmToMinutes } from './shadowJobs';
+import { sunPosition } from './simulation';
+import { siteTimeToDate } from './timeZone';
+
+export type RowSpacingField = 'rowSpacing' | 'spanRise' | 'gcr';
+export type RowSpacingValues = Pick<FieldSegment, 'rowSpacing' | 'spanRise' | 'gcr'>;
+
+const toRad = Math.PI / 180;
+const SOLSTICE_STEP_MINUTES = 10;
+
+// Fixed rows only: east-west pitch follows from the ridge gap and a tracker's from its GCR alone
+export const rowSpacingLinked = (segment: FieldSegment) =>
+  segment.racking === 'Fixed Tilt Racking' || segment.racking === 'Flush Mount';
+
+// A row in section (ft): length along the slope, its height and its depth in plan. The
+// auto-layout steps rows by the flat length plus the row spacing.
+const rowSection = (segment: FieldSegment, dims: ModuleDims) => {
+  const length = segmentFrameDepth(segment, dims) * METERS_TO_FEET;
+  const tilt = (Number(segment.moduleTilt) || 0) * toRad;
+  return { length, rise: length * Math.sin(tilt), run: length * Math.cos(tilt) };
+};
+
+const round = (n: number, digits: number) => Number(n.toFixed(digits));
+
+// Row spacing, span/rise (plan gap between rows over the row height) and GCR (row length over
+// pitch), all recomputed from the one the user set
+export const linkedRowSpacing = (segment: FieldSegment, dims: ModuleDims, from: RowSpacingField = 'rowSpacing'): RowSpacingValues => {
+  const { length, rise, run } = rowSection(segment, dims);
+  let pitch = length + Math.max(0, Number(segment.rowSpacing) || 0);
+  if (from === 'gcr' && segment.gcr > 0) pitch = length / Math.min(1, segment.gcr);
+  if (from === 'spanRise' && rise > 0) pitch = Math.max(length, run + Math.max(0, segment.spanRise) * rise);
+  return {
+    rowSpacing: round(pitch - length, 2),
+    spanRise: rise > 0 ? round((pitch - run) / rise, 2) : 0,
+    gcr: round(length > 0 ? length / pitch : 0, 3),
+  };
+};
+
+// Winter solstice of the site's hemisphere in the current year
+const winterSolstice = (lat: number) => `${new Date().getFullYear()}-${lat >= 0 ? '12-21' : '06-21'}`;
+
+// Smallest row spacing that keeps the top edge's shadow off the next row between the segment's
+// start and end times on the winter solstice; null when the sun is down for part of the window
+export const solsticeRowSpacing = (segment: FieldSegment, dims: ModuleDims, site: { lat: number; lng: number; timeZone: string }): number | null => {
+  const { length, rise, run } = rowSection(segment, dims);
+  const dateStr = winterSolstice(site.lat);
+  let startMinutes = parseHHmmToMinutes(segment.startTime || '10:00');
+  let endMinutes = parseHHmmToMinutes(segment.endTime || '16:00');
+  if (endMinutes < startMinutes) [startMinutes, endMinutes] = [endMinutes, startMinutes];
+
+  const times: number[] = [];
+  for (let m = startMinutes; m < endMinutes; m += SOLSTICE_STEP_MINUTES) times.push(m);
+  times.push(endMinutes);
+
+  let shadow = 0;
+  for (const m of times) {
+    const { zenith, azimuth } = sunPosition(siteTimeToDate(dateStr, m, site.timeZone).getTime(), site.lat, site.lng);
+    if (zenith >= 90) return null;
+    // Only the part of the shadow reaching back along the row's facing direction matters
+    const along = Math.cos((azimuth - segment.moduleAzimuth) * toRad);
+    if (along > 0) shadow = Math.max(shadow, (rise * along) / Math.tan((90 - zenith) * toRad));
+  }
+  return Math.ceil(Math.max(0, run + shadow - length) * 100) / 100;
+};
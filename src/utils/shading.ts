@@ -0,0 +1,283 @@
+import { FieldSegment, Keepout, PlacedModule, Tree } from '../types/project';
+import { feetToMeters, localProjector } from './mapUtils';
+import { getGeometryShell, segmentTiltGroups } from './autoLayout';
+import { keepoutBaseSegment, keepoutRing } from './keepouts';
+import { treeBeamTransmission, treeCrown } from './trees';
+import { sunPosition } from './simulation';
+import { cosIncidence, relativeAirmass } from './transposition';
+import { WEATHER_REFERENCE_YEAR } from './weather';
+import { siteMonth } from './timeZone';
+import { trackerGeometry, trackerRotation, trackerRowShade, trackerSurface } from './tracker';
+
+export interface ShadingScene {
+  lat: number;
+  lng: number;
+  timeZone: string; // months (tree leaf-off) follow the site calendar
+  segments: FieldSegment[];
+  placedModules: Record<string, PlacedModule[]>;
+  keepouts: Keepout[];
+  trees: Tree[];
+}
+
+export interface ModuleShading {
+  segmentId: string;
+  row: number;
+  col: number;
+  group: number;
+  shadingLoss: number; // 0..1 of clear-sky beam irradiation on the module plane lost to obstructions (and tracker rows)
+  solarAccess: number; // 0..1, 1 - shadingLoss
+}
+
+interface ShadingSummary {
+  shadingLoss: number;
+  solarAccess: number;
+  moduleCount: number;
+}
+
+export interface ShadingResult {
+  modules: ModuleShading[];
+  segments: Record<string, ShadingSummary & { groups: ShadingSummary[] }>; // groups indexed like segmentTiltGroups
+  shadingLoss: number; // module-weighted average
+  solarAccess: number;
+}
+
+export interface ShadingProgress {
+  done: number; // modules
+  total: number;
+}
+
+export type ShadingWorkerRequest =
+  | { type: 'compute'; requestId: number; scene: ShadingScene; stepHours: number }
+  | { type: 'cancel'; requestId: number };
+
+export type ShadingWorkerResponse =
+  | { type: 'progress'; requestId: number; progress: ShadingProgress }
+  | { type: 'result'; requestId: number; result: ShadingResult }
+  | { type: 'error'; requestId: number; message: string };
+
+// Vertical prism (solid) or parapet wall strip (walls only) in local meters
+interface Blocker {
+  ring: [number, number][];
+  z0: number;
+  z1: number;
+  solid: boolean;
+  segmentId?: string;
+  bbox: [number, number, number, number];
+}
+
+interface SunHour {
+  ux: number; // horizontal unit vector toward the sun (east, north)
+  uy: number;
+  tanAlt: number;
+  azimuth: number;
+  altitude: number;
+  zenith: number;
+  dni: number; // clear-sky beam, W/m²
+  month: number;
+}
+
+const MAX_RAY_M = 1000;
+
+export const moduleShadingKey = (m: { segmentId: string; row: number; col: number }) => `${m.segmentId}:${m.row}:${m.col}`;
+
+const ringBBox = (ring: [number, number][]): [number, number, number, number] => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const [x, y] of ring) {
+    if (x < minX) minX = x; if (y < minY) minY = y;
+    if (x > maxX) maxX = x; if (y > maxY) maxY = y;
+  }
+  return [minX, minY, maxX, maxY];
+};
+
+const pointInRing = (x: number, y: number, ring: [number, number][]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const segmentsCross = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number, dx: number, dy: number) => {
+  const d1 = (dx - cx) * (ay - cy) - (dy - cy) * (ax - cx);
+  const d2 = (dx - cx) * (by - cy) - (dy - cy) * (bx - cx);
+  const d3 = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+  const d4 = (bx - ax) * (dy - ay) - (by - ay) * (dx - ax);
+  return ((d1 > 0) !== (d2 > 0)) && ((d3 > 0) !== (d4 > 0));
+};
+
+// Does the ray from (px, py, pz) toward the sun pass through the blocker?
+const blocks = (b: Blocker, px: number, py: number, pz: number, sun: SunHour) => {
+  if (b.z1 <= pz) return false;
+  // Horizontal distances along the ray where it is within the blocker's height band
+  const s0 = Math.max(0, (b.z0 - pz) / sun.tanAlt);
+  const s1 = Math.min(MAX_RAY_M, (b.z1 - pz) / sun.tanAlt);
+  if (s1 <= s0) return false;
+  const ax = px + sun.ux * s0, ay = py + sun.uy * s0;
+  const bx = px + sun.ux * s1, by = py + sun.uy * s1;
+  const [minX, minY, maxX, maxY] = b.bbox;
+  if (Math.max(ax, bx) < minX || Math.min(ax, bx) > maxX || Math.max(ay, by) < minY || Math.min(ay, by) > maxY) return false;
+  if (b.solid && (pointInRing(bx, by, b.ring) || pointInRing(ax, ay, b.ring))) return true;
+  const n = b.ring.length;
+  for (let i = 0; i < n; i++) {
+    const [cx, cy] = b.ring[i];
+    const [dx, dy] = b.ring[(i + 1) % n];
+    if (segmentsCross(ax, ay, bx, by, cx, cy, dx, dy)) return true;
+  }
+  return false;
+};
+
+// Sun positions for every daylight hour of the reference year (mid-hour, UTC)
+const sunHours = (lat: number, lng: number, timeZone: string, stepHours: number): SunHour[] => {
+  const out: SunHour[] = [];
+  const start = Date.UTC(WEATHER_REFERENCE_YEAR, 0, 1);
+  for (let h = 0; h < 8760; h += stepHours) {
+    const ts = start + (h + 0.5) * 3600000;
+    const { zenith, azimuth } = sunPosition(ts, lat, lng);
+    if (zenith >= 89) continue;
+    const altitude = 90 - zenith;
+    const az = (azimuth * Math.PI) / 180;
+    // Meinel clear-sky beam model
+    const dni = 1353 * Math.pow(0.7, Math.pow(relativeAirmass(zenith), 0.678));
+    out.push({
+      ux: Math.sin(az),
+      uy: Math.cos(az),
+      tanAlt: Math.tan((altitude * Math.PI) / 180),
+      azimuth,
+      altitude,
+      zenith,
+      dni,
+      month: siteMonth(ts, timeZone),
+    });
+  }
+  return out;
+};
+
+// Annual shading loss for every placed module: rays from five points on each module toward the sun,
+// tested against other segments, the module's own parapet, keepouts and trees. Yields after each
+// module so the worker can report progress and stop a superseded run.
+export function* moduleShadingPasses(scene: ShadingScene, stepHours = 1): Generator<ShadingProgress, ShadingResult> {
+  const project = localProjector([scene.lng, scene.lat]);
+  const toLocalRing = (ring: [number, number][]) => ring.map(project);
+
+  const segmentBlockers: Blocker[] = [];
+  const parapetBlockers: Blocker[] = [];
+  for (const segment of scene.segments) {
+    const shell = getGeometryShell(segment.geometry);
+    if (!shell) continue;
+    const ring = toLocalRing(shell);
+    const bbox = ringBBox(ring);
+    const surface = feetToMeters(segment.surfaceHeight ?? 0);
+    const parapet = feetToMeters(segment.parapetHeight ?? 0);
+    if (surface + parapet > 0) segmentBlockers.push({ ring, z0: 0, z1: surface + parapet, solid: true, segmentId: segment.id, bbox });
+    if (parapet > 0) parapetBlockers.push({ ring, z0: surface, z1: surface + parapet, solid: false, segmentId: segment.id, bbox });
+  }
+  const keepoutBlockers: Blocker[] = [];
+  for (const keepout of scene.keepouts) {
+    const shell = keepoutRing(keepout);
+    if (!shell || !(keepout.height > 0)) continue;
+    const ring = toLocalRing(shell);
+    const z0 = feetToMeters(keepoutBaseSegment(keepout, scene.segments)?.surfaceHeight ?? 0);
+    keepoutBlockers.push({ ring, z0, z1: z0 + feetToMeters(keepout.height), solid: true, bbox: ringBBox(ring) });
+  }
+  const trees = scene.trees.map((tree) => {
+    const [x, y] = project(tree.position);
+    return { tree, x, y, crown: treeCrown(tree) };
+  });
+
+  const hours = sunHours(scene.lat, scene.lng, scene.timeZone, Math.max(1, Math.floor(stepHours)));
+  const modules: ModuleShading[] = [];
+  const segments: ShadingResult['segments'] = {};
+  const moduleCount = scene.segments.reduce((n, segment) => n + (scene.placedModules[segment.id]?.length ?? 0), 0);
+
+  for (const segment of scene.segments) {
+    const placed = scene.placedModules[segment.id] || [];
+    if (!placed.length) continue;
+    const blockers = [
+      ...segmentBlockers.filter((b) => b.segmentId !== segment.id),
+      ...parapetBlockers.filter((b) => b.segmentId === segment.id),
+      ...keepoutBlockers,
+    ];
+    const pz = feetToMeters((segment.surfaceHeight ?? 0) + (segment.rackingHeight ?? 0));
+    // Beam on each tilt group's plane, hour by hour; trackers turn the plane with the sun and
+    // lose the part of each row in the next row's shadow
+    const tiltGroups = segmentTiltGroups(segment);
+    const tracker = trackerGeometry(segment);
+    const trackerHours = tracker ? hours.map((sun) => {
+      const rotation = trackerRotation(sun.zenith, sun.azimuth, tracker);
+      return { ...trackerSurface(rotation, tracker.axisAzimuth), rowShade: trackerRowShade(sun.zenith, sun.azimuth, rotation, tracker) };
+    }) : null;
+    const groupWeights = tiltGroups.map((g) =>
+      hours.map((sun, hi) => {
+        const plane = trackerHours ? trackerHours[hi] : { tilt: g.moduleTilt ?? 0, azimuth: g.moduleAzimuth ?? 180 };
+        return sun.dni * Math.max(0, cosIncidence(sun.zenith, sun.azimuth, plane.tilt, plane.azimuth));
+      }));
+    const groupLoss = tiltGroups.map(() => ({ loss: 0, count: 0 }));
+    let segLoss = 0;
+
+    for (const m of placed) {
+      // Center plus corners pulled halfway in, so partial shade registers without edge artifacts
+      const samples: [number, number][] = [m.center];
+      const corners = m.ring.length > 4 ? m.ring.slice(0, 4) : m.ring;
+      for (const c of corners) samples.push([(c[0] + m.center[0]) / 2, (c[1] + m.center[1]) / 2]);
+      const local = samples.map(project);
+      const group = groupWeights[m.group] ? m.group : 0;
+      const weights = groupWeights[group];
+
+      let total = 0;
+      let received = 0;
+      hours.forEach((sun, hi) => {
+        const w = weights[hi];
+        if (w <= 0) return;
+        let lit = 0;
+        local.forEach(([px, py], si) => {
+          if (blockers.some((b) => blocks(b, px, py, pz, sun))) return;
+          let t = 1;
+          for (const { tree, x, y, crown } of trees) {
+            // Skip trees the ray cannot reach before it climbs above the crown
+            const rx = x - px, ry = y - py;
+            const along = rx * sun.ux + ry * sun.uy;
+            const reach = Math.min(MAX_RAY_M, (crown.top - pz) / sun.tanAlt);
+            if (along < -crown.radius || along > reach + crown.radius) continue;
+            if (Math.abs(rx * sun.uy - ry * sun.ux) > crown.radius) continue;
+            t *= treeBeamTransmission(tree, samples[si], pz, sun.azimuth, sun.altitude, sun.month);
+            if (t <= 0) break;
+          }
+          lit += t;
+        });
+        total += w;
+        received += (w * lit * (1 - (trackerHours?.[hi].rowShade ?? 0))) / local.length;
+      });
+
+      const solarAccess = total > 0 ? received / total : 1;
+      modules.push({ segmentId: segment.id, row: m.row, col: m.col, group, shadingLoss: 1 - solarAccess, solarAccess });
+      segLoss += 1 - solarAccess;
+      groupLoss[group].loss += 1 - solarAccess;
+      groupLoss[group].count += 1;
+      yield { done: modules.length, total: moduleCount };
+    }
+    const loss = segLoss / placed.length;
+    segments[segment.id] = {
+      shadingLoss: loss,
+      solarAccess: 1 - loss,
+      moduleCount: placed.length,
+      groups: groupLoss.map(({ loss: l, count }) => {
+        const avg = count ? l / count : 0;
+        return { shadingLoss: avg, solarAccess: 1 - avg, moduleCount: count };
+      }),
+    };
+  }
+
+  const shadingLoss = modules.length ? modules.reduce((s, m) => s + m.shadingLoss, 0) / modules.length : 0;
+  return { modules, segments, shadingLoss, solarAccess: 1 - shadingLoss };
+}
+
+// The same, run to completion on the calling thread
+export const calculateModuleShading = (scene: ShadingScene, stepHours = 1): ShadingResult => {
+  const passes = moduleShadingPasses(scene, stepHours);
+  for (;;) {
+    const step = passes.next();
+    if (step.done) return step.value;
+  }
+};
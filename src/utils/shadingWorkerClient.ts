@@ -0,0 +1,70 @@
+import { ShadingProgress, ShadingResult, ShadingScene, ShadingWorkerRequest, ShadingWorkerResponse } from './shading';
+import { inputKey } from './shadowJobs';
+
+const CACHE_LIMIT = 16;
+
+export interface ShadingRunHandlers {
+  onResult: (result: ShadingResult) => void;
+  onProgress?: (progress: ShadingProgress) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface ShadingWorkerClient {
+  // Start a calculation (cancelling the previous one); a cached scene is answered synchronously
+  run: (scene: ShadingScene, stepHours: number, handlers: ShadingRunHandlers) => () => void;
+  dispose: () => void;
+}
+
+export const shadingSceneKey = (scene: ShadingScene, stepHours: number) => inputKey(JSON.stringify([scene, stepHours]));
+
+export const createShadingWorkerClient = (): ShadingWorkerClient => {
+  const worker = new Worker(new URL('../workers/shading.worker.ts', import.meta.url), { type: 'module' });
+  const cache = new Map<string, ShadingResult>();
+  let nextRequestId = 1;
+  let active: { id: number; key: string; handlers: ShadingRunHandlers } | null = null;
+
+  const remember = (key: string, result: ShadingResult) => {
+    cache.delete(key);
+    cache.set(key, result);
+    if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value as string);
+  };
+
+  worker.onmessage = (e: MessageEvent<ShadingWorkerResponse>) => {
+    const msg = e.data;
+    if (active?.id !== msg.requestId) return;
+    if (msg.type === 'progress') {
+      active.handlers.onProgress?.(msg.progress);
+      return;
+    }
+    const { key, handlers } = active;
+    active = null;
+    if (msg.type === 'result') {
+      remember(key, msg.result);
+      handlers.onResult(msg.result);
+    } else {
+      handlers.onError?.(new Error(msg.message));
+    }
+  };
+
+  const cancel = (id: number) => {
+    if (active?.id !== id) return;
+    active = null;
+    worker.postMessage({ type: 'cancel', requestId: id } satisfies ShadingWorkerRequest);
+  };
+
+  const run: ShadingWorkerClient['run'] = (scene, stepHours, handlers) => {
+    if (active) cancel(active.id);
+    const key = shadingSceneKey(scene, stepHours);
+    const hit = cache.get(key);
+    if (hit) {
+      handlers.onResult(hit);
+      return () => {};
+    }
+    const id = nextRequestId++;
+    active = { id, key, handlers };
+    worker.postMessage({ type: 'compute', requestId: id, scene, stepHours } satisfies ShadingWorkerRequest);
+    return () => cancel(id);
+  };
+
+  return { run, dispose: () => worker.terminate() };
+};
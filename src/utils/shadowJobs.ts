@@ -0,0 +1,117 @@
+import * as turf from '@turf/turf';
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
+import { FieldSegment, Tree } from '../types/project';
+import { prismShadowPolygons, shadowVectorAt } from './shadows';
+import { treeShadowPolygon, treeTransparency } from './trees';
+import { dec22ThisYear } from './fieldSegments';
+import { dateStrMonth, siteTimeToDate } from './timeZone';
+
+type Rings = [number, number][][];
+
+// One obstruction's shadow over an analysis window; everything the worker needs, nothing from React
+export interface ShadowJob {
+  key: string;
+  lat: number;
+  lng: number;
+  timeZone: string;     // IANA zone the window is expressed in
+  dateStr: string;      // YYYY-MM-DD
+  startMinutes: number; // minutes after midnight, site time
+  endMinutes: number;
+  stepMinutes: number;
+  altitude: number;     // m, surface the shadow falls on
+  prism?: { shell: [number, number][]; heightM: number };
+  tree?: Tree;
+}
+
+export interface ShadowJobResult {
+  key: string;
+  altitude: number;
+  opacity: number;  // 0..1 multiplier for the shadow fill (tree transparency)
+  aggregate: Rings[]; // union across the window
+  steps: Rings[];     // per-step polygons
+}
+
+export type ShadowWorkerRequest =
+  | { type: 'compute'; requestId: number; jobs: ShadowJob[] }
+  | { type: 'cancel'; requestId: number };
+
+export type ShadowWorkerResponse =
+  | { type: 'result'; requestId: number; result: ShadowJobResult }
+  | { type: 'done'; requestId: number };
+
+export const parseHHmmToMinutes = (t: string) => {
+  const [h, m] = (t || '').split(':').map((n) => parseInt(n));
+  if (isNaN(h)) return 0;
+  return h * 60 + (isNaN(m) ? 0 : m);
+};
+
+// Analysis window of a segment: prefer explicit Start Time; default end keeps interval shadows when the DB field is missing
+export const analysisWindow = (settings: FieldSegment | undefined) => {
+  const dateStr = settings?.analysisDate || dec22ThisYear();
+  let startMinutes = parseHHmmToMinutes(settings?.startTime || settings?.timeOfDay || '10:00');
+  let endMinutes = parseHHmmToMinutes(settings?.endTime || '16:00');
+  if (endMinutes < startMinutes) [startMinutes, endMinutes] = [endMinutes, startMinutes];
+  return { dateStr, startMinutes, endMinutes };
+};
+
+// FNV-1a over serialized inputs, as a cache key for worker results
+export const inputKey = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return `${(h >>> 0).toString(16)}-${text.length}`;
+};
+
+// Identical geometry/heights/window reuse a cached result
+export const shadowJobKey = (job: Omit<ShadowJob, 'key'>) => inputKey(JSON.stringify([
+  job.lat, job.lng, job.timeZone, job.dateStr, job.startMinutes, job.endMinutes, job.stepMinutes, job.altitude, job.prism, job.tree && [
+    job.tree.position, job.tree.totalHeight, job.tree.canopyHeight, job.tree.canopyRadius, job.tree.canopyShape, job.tree.monthlyTransparency,
+  ],
+]));
+
+const polygonRings = (feature: Feature<Polygon | MultiPolygon>): Rings[] => {
+  const geom = feature.geometry;
+  if (geom.type === 'Polygon') return [geom.coordinates as Rings];
+  if (geom.type === 'MultiPolygon') return geom.coordinates as Rings[];
+  return [];
+};
+
+// Project the obstruction for every step of the window and union the steps
+export const computeShadowJob = (job: ShadowJob): ShadowJobResult => {
+  const steps: Feature<Polygon>[] = [];
+  let opacity = 1;
+  if (job.tree) opacity = 1 - treeTransparency(job.tree, dateStrMonth(job.dateStr));
+
+  if (opacity > 0) {
+    for (let m = job.startMinutes; m <= job.endMinutes; m += Math.max(1, job.stepMinutes)) {
+      const date = siteTimeToDate(job.dateStr, m, job.timeZone);
+      if (job.prism) {
+        const vector = shadowVectorAt(date, job.lat, job.lng, job.prism.heightM);
+        if (vector) steps.push(...prismShadowPolygons(job.prism.shell, vector));
+      } else if (job.tree) {
+        const unit = shadowVectorAt(date, job.lat, job.lng, 1);
+        const hull = unit ? treeShadowPolygon(job.tree, unit) : null;
+        if (hull) steps.push(hull);
+      }
+    }
+  }
+
+  let agg: Feature<Polygon | MultiPolygon> | null = null;
+  for (const p of steps) {
+    try {
+      agg = agg ? turf.union(turf.featureCollection([agg, p])) ?? agg : p;
+    } catch {
+      // A self-intersecting step polygon can make the union throw; leave that step out of the aggregate
+    }
+  }
+
+  return {
+    key: job.key,
+    altitude: job.altitude,
+    opacity,
+    aggregate: agg ? polygonRings(agg) : [],
+    steps: steps.flatMap(polygonRings),
+  };
+};
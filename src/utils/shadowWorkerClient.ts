@@ -0,0 +1,60 @@
+import { ShadowJob, ShadowJobResult, ShadowWorkerRequest, ShadowWorkerResponse } from './shadowJobs';
+
+const CACHE_LIMIT = 256;
+
+export interface ShadowWorkerClient {
+  // Start a request (cancelling the previous one); cached jobs are answered synchronously
+  run: (jobs: ShadowJob[], onResult: (result: ShadowJobResult) => void, onDone?: () => void) => () => void;
+  dispose: () => void;
+}
+
+export const createShadowWorkerClient = (): ShadowWorkerClient => {
+  const worker = new Worker(new URL('../workers/shadows.worker.ts', import.meta.url), { type: 'module' });
+  const cache = new Map<string, ShadowJobResult>();
+  let nextRequestId = 1;
+  let active: { id: number; onResult: (r: ShadowJobResult) => void; onDone?: () => void } | null = null;
+
+  const remember = (result: ShadowJobResult) => {
+    cache.delete(result.key);
+    cache.set(result.key, result);
+    if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value as string);
+  };
+
+  worker.onmessage = (e: MessageEvent<ShadowWorkerResponse>) => {
+    const msg = e.data;
+    if (msg.type === 'result') {
+      remember(msg.result);
+      if (active?.id === msg.requestId) active.onResult(msg.result);
+    } else if (msg.type === 'done' && active?.id === msg.requestId) {
+      const { onDone } = active;
+      active = null;
+      onDone?.();
+    }
+  };
+
+  const cancel = (id: number) => {
+    if (active?.id !== id) return;
+    active = null;
+    worker.postMessage({ type: 'cancel', requestId: id } satisfies ShadowWorkerRequest);
+  };
+
+  const run: ShadowWorkerClient['run'] = (jobs, onResult, onDone) => {
+    if (active) cancel(active.id);
+    const pending: ShadowJob[] = [];
+    for (const job of jobs) {
+      const hit = cache.get(job.key);
+      if (hit) onResult(hit);
+      else pending.push(job);
+    }
+    if (!pending.length) {
+      onDone?.();
+      return () => {};
+    }
+    const id = nextRequestId++;
+    active = { id, onResult, onDone };
+    worker.postMessage({ type: 'compute', requestId: id, jobs: pending } satisfies ShadowWorkerRequest);
+    return () => cancel(id);
+  };
+
+  return { run, dispose: () => worker.terminate() };
+};
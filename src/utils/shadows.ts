@@ -0,0 +1,53 @@
+import * as turf from '@turf/turf';
+import * as SunCalc from 'suncalc';
+import type { Feature, Polygon } from 'geojson';
+
+export interface ShadowVector {
+  length: number;  // m, horizontal offset of the shadow of the top edge
+  bearing: number; // degrees clockwise from north, direction the shadow falls
+}
+
+// Project an object of heightM along the sun direction; null when the sun is down
+export const shadowVectorAt = (date: Date, lat: number, lng: number, heightM: number): ShadowVector | null => {
+  let sunAz = 0; let sunAlt = 0;
+  try {
+    const pos = SunCalc.getPosition(date, lat, lng);
+    sunAz = pos.azimuth || 0;
+    sunAlt = pos.altitude || 0;
+  } catch {
+    // Invalid date or coordinates: treat the sun as down and cast no shadow
+  }
+  if (sunAlt <= 0) return null;
+  if (!isFinite(heightM) || heightM <= 0) return null;
+
+  const rawLen = heightM / Math.tan(sunAlt);
+  const length = Math.max(0, Math.min(500, rawLen));
+  const sunBearingFromNorth = ((sunAz * 180 / Math.PI) + 180 + 360) % 360;
+  return { length, bearing: (sunBearingFromNorth + 180) % 360 };
+};
+
+const closeRing = (ring: [number, number][]) =>
+  ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1] ? [...ring, ring[0]] : ring;
+
+// Shadow of a vertical prism on its base plane: base, shifted top and one quad per side
+export const prismShadowPolygons = (shell: [number, number][], vector: ShadowVector): Feature<Polygon>[] => {
+  const out: Feature<Polygon>[] = [];
+  if (shell.length < 3) return out;
+  out.push(turf.polygon([closeRing(shell)]));
+
+  const shiftedRing: [number, number][] = shell.map((c) => {
+    const dest = turf.destination(c, vector.length, vector.bearing, { units: 'meters' });
+    return dest.geometry.coordinates as [number, number];
+  });
+  out.push(turf.polygon([closeRing(shiftedRing)]));
+
+  // Wall quads (include closing edge)
+  for (let i = 0; i < shell.length; i++) {
+    const ni = (i + 1) % shell.length;
+    const a = shell[i];
+    const b = shell[ni];
+    if (a[0] === b[0] && a[1] === b[1]) continue;
+    out.push(turf.polygon([[a, b, shiftedRing[ni], shiftedRing[i], a]]));
+  }
+  return out;
+};
@@ -0,0 +1,141 @@
+import * as SunCalc from 'suncalc';
+import type { SegmentSimulationResult, SimulationResult, WeatherData } from '../types/weather';
+import type { Tables } from '../integrations/supabase/types';
+import { recordTimestamp } from './weather';
+import { dayOfYear, transpose, TranspositionModel } from './transposition';
+import { maxPowerPoint, operatingPoint, SingleDiodeParams } from './singleDiode';
+import { TrackerGeometry, trackerRotation, trackerRowShade, trackerSurface } from './tracker';
+
+// Faiman cell temperature coefficients for an open-rack array (W/m²K, W/m³sK)
+const FAIMAN_U0 = 25;
+const FAIMAN_U1 = 6.84;
+
+// Map a simulations row (snake_case) to SimulationResult
+export const mapDbToSimulation = (row: Tables<'simulations'>): SimulationResult => ({
+  id: row.id,
+  design_id: row.design_id,
+  weather_file_id: row.weather_file_id,
+  condition_set_id: row.condition_set_id ?? null,
+  transpositionModel: (row.transposition_model ?? 'isotropic') as SimulationResult['transpositionModel'],
+  annualKwh: Number(row.annual_kwh ?? 0),
+  monthlyKwh: Array.isArray(row.monthly_kwh) ? row.monthly_kwh.map(Number) : new Array(12).fill(0),
+  dcKwp: Number(row.dc_kwp ?? 0),
+  specificYield: Number(row.specific_yield ?? 0),
+  performanceRatio: Number(row.performance_ratio ?? 0),
+  segments: Array.isArray(row.segments) ? (row.segments as unknown as SegmentSimulationResult[]) : [],
+  created_at: row.created_at,
+});
+
+export interface SimulationArray {
+  segmentId: string;
+  group?: number;        // tilt group within the segment; 0 is the segment's own tilt
+  description: string;
+  tilt: number;          // degrees from horizontal
+  azimuth: number;       // degrees clockwise from north
+  tracker?: TrackerGeometry | null; // single-axis tracker; replaces tilt/azimuth hour by hour
+  moduleCount: number;
+  pnom: number;          // W per module at STC
+  tempCoeffPmax: number; // fraction per °C, used when no single-diode parameters are available
+  diode?: SingleDiodeParams | null;
+}
+
+export interface SimulationOptions {
+  transpositionModel?: TranspositionModel;
+  albedo?: number | number[];  // ground reflectance, constant or 12 monthly values
+  systemLosses?: number;       // fraction lost to soiling, mismatch, wiring, etc.
+  inverterEfficiency?: number; // fraction
+}
+
+const toRad = Math.PI / 180;
+
+// Sun position for a UTC timestamp: zenith and azimuth (clockwise from north), degrees
+export const sunPosition = (ts: number, lat: number, lng: number) => {
+  const pos = SunCalc.getPosition(new Date(ts), lat, lng);
+  return {
+    zenith: 90 - pos.altitude / toRad,
+    azimuth: ((pos.azimuth / toRad + 180) % 360 + 360) % 360,
+  };
+};
+
+// Hourly DC/AC energy for every array over a typical year
+export const simulateArrays = (
+  weather: WeatherData,
+  site: { lat: number; lng: number },
+  arrays: SimulationArray[],
+  opts: SimulationOptions = {},
+): Omit<SimulationResult, 'design_id' | 'weather_file_id' | 'condition_set_id'> => {
+  const model = opts.transpositionModel ?? 'perez';
+  const albedoFor = (month: number) => {
+    const a = Array.isArray(opts.albedo) ? opts.albedo[month - 1] : opts.albedo;
+    return typeof a === 'number' && isFinite(a) ? a : 0.2;
+  };
+  const derate = (1 - (opts.systemLosses ?? 0.14)) * (opts.inverterEfficiency ?? 0.96);
+  const lat = Number.isFinite(weather.latitude) ? weather.latitude : site.lat;
+  const lng = Number.isFinite(weather.longitude) ? weather.longitude : site.lng;
+
+  const monthlyKwh = new Array(12).fill(0);
+  const segments: SegmentSimulationResult[] = arrays.map((a) => ({
+    segmentId: a.segmentId,
+    group: a.group ?? 0,
+    description: a.description,
+    moduleCount: a.moduleCount,
+    dcKwp: (a.moduleCount * a.pnom) / 1000,
+    poaKwhM2: 0,
+    beamKwhM2: 0,
+    skyDiffuseKwhM2: 0,
+    groundKwhM2: 0,
+    annualKwh: 0,
+  }));
+
+  for (const r of weather.records) {
+    if (r.ghi <= 0 && r.dni <= 0 && r.dhi <= 0) continue;
+    const sun = sunPosition(recordTimestamp(weather, r), lat, lng);
+    const doy = dayOfYear(r.month, r.day);
+    const albedo = albedoFor(r.month);
+    arrays.forEach((a, i) => {
+      let plane = { tilt: a.tilt, azimuth: a.azimuth };
+      let rowShade = 0;
+      if (a.tracker) {
+        const rotation = trackerRotation(sun.zenith, sun.azimuth, a.tracker);
+        plane = trackerSurface(rotation, a.tracker.axisAzimuth);
+        rowShade = trackerRowShade(sun.zenith, sun.azimuth, rotation, a.tracker);
+      }
+      const c = transpose(model, {
+        ghi: r.ghi, dni: r.dni, dhi: r.dhi,
+        zenith: sun.zenith, sunAzimuth: sun.azimuth,
+        tilt: plane.tilt, surfaceAzimuth: plane.azimuth,
+        albedo, dayOfYear: doy,
+      });
+      // True-tracking rows shade each other's beam at low sun
+      const beam = c.beam * (1 - rowShade);
+      const poa = c.total - c.beam + beam;
+      if (poa <= 0) return;
+      const cellTemp = r.tamb + poa / (FAIMAN_U0 + FAIMAN_U1 * r.wind);
+      const moduleW = a.diode
+        ? maxPowerPoint(operatingPoint(a.diode, poa, cellTemp)).pmp
+        : a.pnom * (poa / 1000) * (1 + a.tempCoeffPmax * (cellTemp - 25));
+      const dcW = a.moduleCount * moduleW;
+      const kwh = (Math.max(0, dcW) * derate) / 1000; // one hour
+      segments[i].poaKwhM2 += poa / 1000;
+      segments[i].beamKwhM2 += beam / 1000;
+      segments[i].skyDiffuseKwhM2 += c.skyDiffuse / 1000;
+      segments[i].groundKwhM2 += c.groundReflected / 1000;
+      segments[i].annualKwh += kwh;
+      monthlyKwh[r.month - 1] += kwh;
+    });
+  }
+
+  const annualKwh = segments.reduce((s, x) => s + x.annualKwh, 0);
+  const dcKwp = segments.reduce((s, x) => s + x.dcKwp, 0);
+  // Reference yield weights each array's insolation by its share of the nameplate
+  const referenceKwh = segments.reduce((s, x) => s + x.dcKwp * x.poaKwhM2, 0);
+  return {
+    transpositionModel: model,
+    annualKwh,
+    monthlyKwh,
+    dcKwp,
+    specificYield: dcKwp > 0 ? annualKwh / dcKwp : 0,
+    performanceRatio: referenceKwh > 0 ? annualKwh / referenceKwh : 0,
+    segments,
+  };
+};
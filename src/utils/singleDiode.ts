@@ -0,0 +1,217 @@
+// PVsyst-style single-diode module model driven by PAN coefficients
+
+const K_OVER_Q = 8.617333262145e-5; // V/K
+const G_REF = 1000; // W/m²
+const SILICON_BANDGAP_EV = 1.12;
+const DEFAULT_RSH_EXP = 5.5;
+
+// Subset of a parsed PAN file the model needs
+export interface PanLike {
+  voc?: number | null;
+  isc?: number | null;
+  ns?: number | null;
+  temp_coeff_isc?: number | null;
+  raw?: Record<string, string>;
+}
+
+export interface SingleDiodeParams {
+  iphRef: number;  // A
+  i0Ref: number;   // A
+  rs: number;      // Ω
+  rshRef: number;  // Ω at G_REF
+  rsh0: number;    // Ω in the dark
+  rshExp: number;  // exponential shunt factor
+  gammaRef: number;
+  muGamma: number; // 1/°C
+  muIsc: number;   // A/°C
+  ns: number;
+  tRef: number;    // °C
+  egap: number;    // eV
+}
+
+export interface OperatingPoint {
+  iph: number;
+  i0: number;
+  rs: number;
+  rsh: number;
+  nNsVth: number; // γ·Ns·kT/q
+}
+
+export interface IVPoint {
+  v: number;
+  i: number;
+  p: number;
+}
+
+export interface IVCurve {
+  points: IVPoint[];
+  isc: number;
+  voc: number;
+  vmp: number;
+  imp: number;
+  pmp: number;
+}
+
+const num = (s?: string | null) => (s != null ? Number(String(s).replace(/[^0-9eE+\-.]/g, '')) : NaN);
+
+const pickRaw = (raw: Record<string, string>, ...keys: string[]) => {
+  for (const k of keys) {
+    const v = raw[k.toLowerCase()];
+    if (v != null && String(v).trim() !== '') {
+      const n = num(v);
+      if (!Number.isNaN(n)) return n;
+    }
+  }
+  return NaN;
+};
+
+const diodeInputs = (parsed: PanLike) => {
+  const raw = parsed.raw || {};
+  const tRef = pickRaw(raw, 'tref');
+  return {
+    voc: typeof parsed.voc === 'number' ? parsed.voc : num(raw['voc']),
+    isc: typeof parsed.isc === 'number' ? parsed.isc : num(raw['isc']),
+    rs: pickRaw(raw, 'rserie', 'rs', 'series_resistance'),
+    rsh: pickRaw(raw, 'rshunt', 'rshref', 'rshuntref'),
+    ns: typeof parsed.ns === 'number' ? parsed.ns : pickRaw(raw, 'ncels', 'ns'),
+    gamma: pickRaw(raw, 'gamma', 'gamma_ref', 'yref'),
+    tRef: isFinite(tRef) && tRef !== 0 ? tRef : 25,
+  };
+};
+
+// Estimate I0ref and Iphref using single-diode equations at STC when not present in the file.
+export function computeRefCurrents(parsed: PanLike): { i0ref?: number; iphref?: number } {
+  const { voc: Voc, isc: Isc, rs: Rs, rsh: Rsh, ns: Ns, gamma, tRef } = diodeInputs(parsed);
+  if ([Voc, Isc, Rs, Rsh, Ns, gamma].some((x) => Number.isNaN(x) || !isFinite(x) || x <= 0)) {
+    return {};
+  }
+  const T = 273.15 + tRef;
+  const Vt = K_OVER_Q * T; // thermal voltage [V]
+  const denom = gamma * Ns * Vt; // diode denominator
+  if (!isFinite(denom) || denom <= 0) return {};
+
+  const E_voc = Math.exp(Voc / denom);
+  const E_isc = Math.exp((Isc * Rs) / denom);
+  // Avoid overflow/degenerate cases
+  if (!isFinite(E_voc) || !isFinite(E_isc) || Math.abs(E_voc - E_isc) < 1e-12) return {};
+
+  const I0 = (Isc + (Isc * Rs) / Rsh - Voc / Rsh) / (E_voc - E_isc);
+  if (!isFinite(I0) || I0 <= 0) return {};
+  const Iph = I0 * (E_voc - 1) + Voc / Rsh;
+  if (!isFinite(Iph) || Iph <= 0) return { i0ref: I0 };
+  return { i0ref: I0, iphref: Iph };
+}
+
+// Full model parameters from a parsed PAN; null when the file lacks Rs/Rsh/γ
+export const singleDiodeParamsFromPAN = (parsed: PanLike | null | undefined): SingleDiodeParams | null => {
+  if (!parsed) return null;
+  const raw = parsed.raw || {};
+  const base = diodeInputs(parsed);
+  let i0Ref = pickRaw(raw, 'i0ref', 'i0_ref', 'ioref', 'i0');
+  let iphRef = pickRaw(raw, 'iphref', 'iph_ref', 'iph');
+  if (!(i0Ref > 0) || !(iphRef > 0)) {
+    const est = computeRefCurrents(parsed);
+    if (!(i0Ref > 0)) i0Ref = est.i0ref ?? NaN;
+    if (!(iphRef > 0)) iphRef = est.iphref ?? NaN;
+  }
+  if (![i0Ref, iphRef, base.rs, base.rsh, base.ns, base.gamma].every((x) => isFinite(x) && x > 0)) return null;
+
+  const rsh0 = pickRaw(raw, 'rshunt0', 'rsh0', 'rshunt_0', 'rp_0');
+  const rshExp = pickRaw(raw, 'rshuntexp', 'rsh_exp', 'rshexp', 'beta_rsh', 'rp_exp');
+  const muGamma = pickRaw(raw, 'mu_gamma', 'mugamma', 'mu_gamma_ref', 'mu_y');
+  // PAN muISC is mA/°C at module level
+  const muIscMa = pickRaw(raw, 'muisc', 'mu_isc');
+  const muIsc = isFinite(muIscMa)
+    ? muIscMa / 1000
+    : typeof parsed.temp_coeff_isc === 'number' && isFinite(base.isc) ? parsed.temp_coeff_isc * base.isc : 0;
+  return {
+    iphRef,
+    i0Ref,
+    rs: base.rs,
+    rshRef: base.rsh,
+    rsh0: isFinite(rsh0) && rsh0 > 0 ? rsh0 : base.rsh * 4,
+    rshExp: isFinite(rshExp) && rshExp > 0 ? rshExp : DEFAULT_RSH_EXP,
+    gammaRef: base.gamma,
+    muGamma: isFinite(muGamma) ? muGamma : 0,
+    muIsc,
+    ns: base.ns,
+    tRef: base.tRef,
+    egap: SILICON_BANDGAP_EV,
+  };
+};
+
+// Translate reference parameters to irradiance G (W/m²) and cell temperature tc (°C)
+export const operatingPoint = (p: SingleDiodeParams, g: number, tc: number): OperatingPoint => {
+  const tK = tc + 273.15;
+  const tRefK = p.tRef + 273.15;
+  const gamma = p.gammaRef + p.muGamma * (tc - p.tRef);
+  const iph = Math.max(0, (g / G_REF) * (p.iphRef + p.muIsc * (tc - p.tRef)));
+  const i0 = p.i0Ref * Math.pow(tK / tRefK, 3) * Math.exp((p.egap / (gamma * K_OVER_Q)) * (1 / tRefK - 1 / tK));
+  // Shunt resistance rises exponentially toward Rsh0 at low light
+  const expB = Math.exp(-p.rshExp);
+  const rshBase = Math.max(0, (p.rshRef - p.rsh0 * expB) / (1 - expB));
+  const rsh = rshBase + (p.rsh0 - rshBase) * Math.exp(-p.rshExp * g / G_REF);
+  return { iph, i0, rs: p.rs, rsh, nNsVth: gamma * p.ns * K_OVER_Q * tK };
+};
+
+const safeExp = (x: number) => Math.exp(Math.min(x, 500));
+
+// Module current at voltage v (Newton iteration on the implicit diode equation)
+export const currentAtVoltage = (op: OperatingPoint, v: number): number => {
+  let i = op.iph;
+  for (let k = 0; k < 50; k++) {
+    const e = safeExp((v + i * op.rs) / op.nNsVth);
+    const f = op.iph - op.i0 * (e - 1) - (v + i * op.rs) / op.rsh - i;
+    const df = -op.i0 * e * op.rs / op.nNsVth - op.rs / op.rsh - 1;
+    const next = i - f / df;
+    if (Math.abs(next - i) < 1e-9) return next;
+    i = next;
+  }
+  return i;
+};
+
+// Open-circuit voltage (Newton on V with I = 0)
+export const openCircuitVoltage = (op: OperatingPoint): number => {
+  if (op.iph <= 0) return 0;
+  let v = op.nNsVth * Math.log(op.iph / op.i0 + 1);
+  for (let k = 0; k < 50; k++) {
+    const e = safeExp(v / op.nNsVth);
+    const f = op.iph - op.i0 * (e - 1) - v / op.rsh;
+    const df = -op.i0 * e / op.nNsVth - 1 / op.rsh;
+    const next = v - f / df;
+    if (Math.abs(next - v) < 1e-9) return Math.max(0, next);
+    v = next;
+  }
+  return Math.max(0, v);
+};
+
+// Maximum power point by golden-section search on P(V)
+export const maxPowerPoint = (op: OperatingPoint, voc = openCircuitVoltage(op)) => {
+  if (voc <= 0) return { vmp: 0, imp: 0, pmp: 0 };
+  const phi = (Math.sqrt(5) - 1) / 2;
+  let a = 0, b = voc;
+  let c = b - phi * (b - a), d = a + phi * (b - a);
+  let pc = c * currentAtVoltage(op, c), pd = d * currentAtVoltage(op, d);
+  while (b - a > voc * 1e-5) {
+    if (pc > pd) { b = d; d = c; pd = pc; c = b - phi * (b - a); pc = c * currentAtVoltage(op, c); }
+    else { a = c; c = d; pc = pd; d = a + phi * (b - a); pd = d * currentAtVoltage(op, d); }
+  }
+  const vmp = (a + b) / 2;
+  const imp = currentAtVoltage(op, vmp);
+  return { vmp, imp, pmp: vmp * imp };
+};
+
+// Sampled I-V / P-V curve with its characteristic points
+export const ivCurve = (p: SingleDiodeParams, g: number, tc: number, samples = 60): IVCurve => {
+  const op = operatingPoint(p, g, tc);
+  const voc = openCircuitVoltage(op);
+  const isc = currentAtVoltage(op, 0);
+  const mpp = maxPowerPoint(op, voc);
+  const points: IVPoint[] = [];
+  for (let k = 0; k <= samples; k++) {
+    const v = (voc * k) / samples;
+    const i = Math.max(0, currentAtVoltage(op, v));
+    points.push({ v, i, p: v * i });
+  }
+  return { points, isc, voc, ...mpp };
+};
@@ -0,0 +1,126 @@
+import { DesignSnapshot, ElectricalConfig, FieldSegment, Keepout, LayoutStats, Tree } from '../types/project';
+import { getGeometryShell } from './autoLayout';
+import { segmentToDbRow } from './fieldSegments';
+import { keepoutToDbRow } from './keepouts';
+import { treeToDbRow } from './trees';
+import type { Database, Tables } from '../integrations/supabase/types';
+
+// Segment fields compared as "settings" (geometry is compared separately)
+const IGNORED_SEGMENT_FIELDS = new Set(['id', 'design_id', 'created_at', 'updated_at', 'geometry', 'area']);
+const COORD_EPSILON = 1e-9; // degrees, well under a millimetre
+
+export interface SnapshotDiff {
+  added: FieldSegment[];
+  removed: FieldSegment[];
+  geometryChanged: Array<{ segment: FieldSegment; areaBefore: number; areaAfter: number }>;
+  settingsChanged: Array<{ segment: FieldSegment; fields: string[] }>;
+  electricalChanged: string[];
+  moduleCount: { before: number; after: number };
+  kwp: { before: number; after: number };
+  segmentStats: Array<{ id: string; description: string; moduleCountBefore: number; moduleCountAfter: number; kwpBefore: number; kwpAfter: number }>;
+}
+
+export const EMPTY_LAYOUT_STATS: LayoutStats = { moduleCount: 0, kwp: 0, segments: {} };
+
+// Snapshots store segments as they were when taken; settings added since then get the same
+// defaults as the field_segments columns (restoring a NULL into a NOT NULL column would fail)
+const withSegmentDefaults = (segment: FieldSegment): FieldSegment => ({
+  ...segment,
+  maxKwp: segment.maxKwp ?? null,
+  layoutPriority: segment.layoutPriority ?? 'row',
+  tiltGroups: Array.isArray(segment.tiltGroups) ? segment.tiltGroups : [],
+  rowSpacingMode: segment.rowSpacingMode === 'solstice' ? 'solstice' : 'manual',
+});
+
+// Map a design_snapshots row (snake_case) to DesignSnapshot
+export const mapDbToSnapshot = (row: Tables<'design_snapshots'>): DesignSnapshot => ({
+  id: row.id,
+  design_id: row.design_id,
+  name: row.name ?? 'Snapshot',
+  segments: Array.isArray(row.segments) ? (row.segments as unknown as FieldSegment[]).map(withSegmentDefaults) : [],
+  keepouts: Array.isArray(row.keepouts) ? (row.keepouts as unknown as Keepout[]) : [],
+  trees: Array.isArray(row.trees) ? (row.trees as unknown as Tree[]) : [],
+  electrical: (row.electrical as unknown as ElectricalConfig | null) ?? null,
+  stats: (row.stats as unknown as LayoutStats | null) ?? EMPTY_LAYOUT_STATS,
+  created_at: row.created_at,
+});
+
+const sameShell = (a: unknown, b: unknown) => {
+  const sa = getGeometryShell(a);
+  const sb = getGeometryShell(b);
+  if (!sa || !sb) return sa === sb;
+  if (sa.length !== sb.length) return false;
+  return sa.every((c, i) => Math.abs(c[0] - sb[i][0]) < COORD_EPSILON && Math.abs(c[1] - sb[i][1]) < COORD_EPSILON);
+};
+
+const changedFields = <T extends object>(a: T, b: T, ignore: Set<string> = new Set()) => {
+  const ra = a as Record<string, unknown>;
+  const rb = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(ra), ...Object.keys(rb)]);
+  return [...keys].filter((k) => !ignore.has(k) && JSON.stringify(ra[k]) !== JSON.stringify(rb[k]));
+};
+
+// What changed going from snapshot `before` to `after`; segments are matched by id
+export const diffSnapshots = (before: DesignSnapshot, after: DesignSnapshot): SnapshotDiff => {
+  const beforeById = new Map(before.segments.map((s) => [s.id, s]));
+  const afterById = new Map(after.segments.map((s) => [s.id, s]));
+  const diff: SnapshotDiff = {
+    added: after.segments.filter((s) => !beforeById.has(s.id)),
+    removed: before.segments.filter((s) => !afterById.has(s.id)),
+    geometryChanged: [],
+    settingsChanged: [],
+    electricalChanged: [],
+    moduleCount: { before: before.stats.moduleCount, after: after.stats.moduleCount },
+    kwp: { before: before.stats.kwp, after: after.stats.kwp },
+    segmentStats: [],
+  };
+
+  for (const segment of after.segments) {
+    const prev = beforeById.get(segment.id);
+    if (!prev) continue;
+    if (!sameShell(prev.geometry, segment.geometry)) {
+      diff.geometryChanged.push({ segment, areaBefore: prev.area, areaAfter: segment.area });
+    }
+    const fields = changedFields(prev, segment, IGNORED_SEGMENT_FIELDS);
+    if (fields.length) diff.settingsChanged.push({ segment, fields });
+  }
+
+  const ids = new Set([...beforeById.keys(), ...afterById.keys()]);
+  for (const id of ids) {
+    const b = before.stats.segments[id] ?? { moduleCount: 0, kwp: 0 };
+    const a = after.stats.segments[id] ?? { moduleCount: 0, kwp: 0 };
+    if (b.moduleCount === a.moduleCount && Math.abs(b.kwp - a.kwp) < 1e-6) continue;
+    diff.segmentStats.push({
+      id,
+      description: (afterById.get(id) ?? beforeById.get(id))?.description ?? id,
+      moduleCountBefore: b.moduleCount,
+      moduleCountAfter: a.moduleCount,
+      kwpBefore: b.kwp,
+      kwpAfter: a.kwp,
+    });
+  }
+
+  if (before.electrical || after.electrical) {
+    const ignore = new Set(['id', 'design_id', 'updated_at']);
+    diff.electricalChanged = changedFields(before.electrical ?? ({} as ElectricalConfig), after.electrical ?? ({} as ElectricalConfig), ignore);
+  }
+  return diff;
+};
+
+// Arguments for the restore_design_snapshot RPC (table rows, snake_case)
+export const snapshotRestoreArgs = (snapshot: DesignSnapshot): Database['public']['Functions']['restore_design_snapshot']['Args'] => ({
+  p_design_id: snapshot.design_id,
+  p_segments: snapshot.segments.map(segmentToDbRow),
+  p_keepouts: snapshot.keepouts.map(keepoutToDbRow),
+  p_trees: snapshot.trees.map(treeToDbRow),
+  p_electrical: snapshot.electrical
+    ? {
+      inverter_id: snapshot.electrical.inverterId,
+      record_low_temp: snapshot.electrical.recordLowTemp,
+      high_temp: snapshot.electrical.highTemp,
+      string_length: snapshot.electrical.stringLength,
+      inverter_lng: snapshot.electrical.inverterLocation?.[0] ?? null,
+      inverter_lat: snapshot.electrical.inverterLocation?.[1] ?? null,
+    }
+    : null,
+});
@@ -0,0 +1,220 @@
+import type { Inverter, Module, ParsedPAN } from '../types/library';
+import type { FieldSegment, PlacedModule } from '../types/project';
+
+// Cells run roughly this much hotter than ambient at the design high temperature
+export const HOT_CELL_TEMP_RISE_C = 25;
+
+export interface StringingModuleParams {
+  pnom: number;         // W
+  voc: number;          // V
+  vmp: number;          // V
+  isc: number;          // A
+  imp: number;          // A
+  tempCoeffVoc: number; // fraction per °C
+  tempCoeffVmp: number; // fraction per °C
+}
+
+export interface StringSizing {
+  minModules: number;
+  maxModules: number;
+  vocCold: number; // V per module at the record low
+  vmpHot: number;  // V per module at the hot cell temperature
+  vmpCold: number; // V per module at the record low
+  maxParallelPerMppt: number;
+}
+
+export interface StringAssignment {
+  segmentId: string;
+  inverterIndex: number;
+  mpptIndex: number;
+  modules: PlacedModule[];
+  vocCold: number;
+  vmpHot: number;
+}
+
+export interface InverterAssignment {
+  index: number;
+  strings: number;
+  dcPower: number; // W
+  mppts: Array<{ strings: number; current: number }>;
+}
+
+export interface StringingResult {
+  sizing: Record<string, StringSizing>; // keyed by module id
+  strings: StringAssignment[];
+  inverters: InverterAssignment[];
+  unstrungModules: number;
+  dcPower: number; // W
+  acPower: number; // W
+  dcAcRatio: number | null;
+  violations: string[];
+}
+
+// Pull stringing parameters from a module row and its parsed PAN details
+export const moduleParamsFromParsed = (module: Module, parsed?: ParsedPAN | null): StringingModuleParams | null => {
+  const pick = (a: unknown, b: unknown) => (typeof a === 'number' && isFinite(a) ? a : typeof b === 'number' && isFinite(b) ? b : null);
+  const voc = pick(parsed?.voc, module.voc);
+  const vmp = pick(parsed?.vmp, module.vmp);
+  const isc = pick(parsed?.isc, module.isc);
+  const imp = pick(parsed?.imp, module.imp);
+  const pnom = pick(parsed?.pnom, module.pnom) ?? (vmp != null && imp != null ? vmp * imp : null);
+  if (voc == null || vmp == null || isc == null || pnom == null) return null;
+  const tempCoeffVoc = pick(parsed?.temp_coeff_voc, null) ?? -0.003;
+  // Vmp drifts roughly with Pmax; fall back to the Voc coefficient
+  const tempCoeffVmp = pick(parsed?.temp_coeff_pmax, null) ?? tempCoeffVoc;
+  return { pnom, voc, vmp, isc, imp: imp ?? pnom / vmp, tempCoeffVoc, tempCoeffVmp };
+};
+
+// Min/max modules per string for one module/inverter pair at the site design temperatures
+export const computeStringSizing = (
+  mod: StringingModuleParams,
+  inv: Inverter,
+  recordLowTemp: number,
+  highTemp: number,
+): StringSizing => {
+  const hotCell = highTemp + HOT_CELL_TEMP_RISE_C;
+  const vocCold = mod.voc * (1 + mod.tempCoeffVoc * (recordLowTemp - 25));
+  const vmpHot = mod.vmp * (1 + mod.tempCoeffVmp * (hotCell - 25));
+  const vmpCold = mod.vmp * (1 + mod.tempCoeffVmp * (recordLowTemp - 25));
+  const maxByVdc = inv.vdc_max ? Math.floor(inv.vdc_max / vocCold) : Infinity;
+  const maxByMppt = inv.vmpp_max ? Math.floor(inv.vmpp_max / vmpCold) : Infinity;
+  const maxModules = Math.max(0, Math.min(maxByVdc, maxByMppt));
+  const minModules = inv.vmpp_min ? Math.max(1, Math.ceil(inv.vmpp_min / vmpHot)) : 1;
+  const maxParallelPerMppt = inv.imax_mppt ? Math.max(1, Math.floor(inv.imax_mppt / mod.isc)) : 1;
+  return {
+    minModules,
+    maxModules: isFinite(maxModules) ? maxModules : 0,
+    vocCold,
+    vmpHot,
+    vmpCold,
+    maxParallelPerMppt,
+  };
+};
+
+// Chain a segment's placed modules row by row, alternating direction so strings stay compact
+const serpentine = (placed: PlacedModule[]) =>
+  placed.slice().sort((a, b) => (a.row - b.row) || ((a.row % 2 === 0 ? 1 : -1) * (a.col - b.col)));
+
+// Assign every placed module to strings, MPPT inputs and inverters
+export const assignStrings = (
+  segments: FieldSegment[],
+  placedModules: Record<string, PlacedModule[]>,
+  moduleParams: Record<string, StringingModuleParams | null>,
+  inverter: Inverter,
+  opts: { recordLowTemp: number; highTemp: number; stringLength?: number | null },
+): StringingResult => {
+  const sizing: Record<string, StringSizing> = {};
+  const strings: StringAssignment[] = [];
+  const violations: string[] = [];
+  let unstrungModules = 0;
+  let dcPower = 0;
+
+  const mpptCount = Math.max(1, inverter.mppt_count ?? 1);
+  let inverterIndex = 0;
+  let mpptIndex = 0;
+  let onMppt: { segmentId: string; group: number; length: number; count: number } | null = null;
+
+  for (const segment of segments) {
+    const placed = placedModules[segment.id] || [];
+    if (!placed.length || !segment.module) continue;
+    const params = moduleParams[segment.module];
+    if (!params) {
+      violations.push(`${segment.description}: module is missing Voc/Vmp/Isc, cannot size strings.`);
+      unstrungModules += placed.length;
+      continue;
+    }
+    // Without either voltage ceiling any string length would pass, which is not a safe default
+    if (!inverter.vdc_max && !inverter.vmpp_max) {
+      violations.push('Inverter datasheet is missing voltage limits (max DC and max MPPT voltage), cannot size strings.');
+      unstrungModules += placed.length;
+      continue;
+    }
+    const size = sizing[segment.module] ?? computeStringSizing(params, inverter, opts.recordLowTemp, opts.highTemp);
+    sizing[segment.module] = size;
+    if (size.maxModules < size.minModules) {
+      violations.push(`${segment.description}: no string length fits the inverter voltage window (min ${size.minModules}, max ${size.maxModules}).`);
+      unstrungModules += placed.length;
+      continue;
+    }
+    const length = opts.stringLength && opts.stringLength > 0 ? opts.stringLength : size.maxModules;
+    if (length > size.maxModules) {
+      violations.push(`${segment.description}: ${length} modules/string gives ${(length * size.vocCold).toFixed(0)} V cold Voc, above the ${size.maxModules}-module limit.`);
+    }
+    if (length < size.minModules) {
+      violations.push(`${segment.description}: ${length} modules/string drops to ${(length * size.vmpHot).toFixed(0)} V hot Vmp, below the MPPT window.`);
+    }
+
+    // Strings stay within one tilt group, so every module in a string faces the same way
+    const groups = Array.from(new Set(placed.map(m => m.group ?? 0))).sort((a, b) => a - b);
+    for (const group of groups) {
+      const ordered = serpentine(placed.filter(m => (m.group ?? 0) === group));
+      for (let i = 0; i < ordered.length; i += length) {
+        const chunk = ordered.slice(i, i + length);
+        if (chunk.length < size.minModules) {
+          unstrungModules += chunk.length;
+          continue;
+        }
+        // Only parallel equal strings from the same segment and tilt group on one MPPT, within its current limit
+        if (onMppt && (onMppt.segmentId !== segment.id || onMppt.group !== group || onMppt.length !== chunk.length || onMppt.count >= size.maxParallelPerMppt)) {
+          mpptIndex += 1;
+          if (mpptIndex >= mpptCount) { mpptIndex = 0; inverterIndex += 1; }
+          onMppt = null;
+        }
+        if (!onMppt) onMppt = { segmentId: segment.id, group, length: chunk.length, count: 0 };
+        onMppt.count += 1;
+        strings.push({
+          segmentId: segment.id,
+          inverterIndex,
+          mpptIndex,
+          modules: chunk,
+          vocCold: chunk.length * size.vocCold,
+          vmpHot: chunk.length * size.vmpHot,
+        });
+        dcPower += chunk.length * params.pnom;
+      }
+    }
+  }
+
+  const inverters: InverterAssignment[] = [];
+  for (const s of strings) {
+    let inv = inverters[s.inverterIndex];
+    if (!inv) {
+      inv = { index: s.inverterIndex, strings: 0, dcPower: 0, mppts: Array.from({ length: mpptCount }, () => ({ strings: 0, current: 0 })) };
+      inverters[s.inverterIndex] = inv;
+    }
+    const seg = segments.find((x) => x.id === s.segmentId);
+    const params = seg?.module ? moduleParams[seg.module] : null;
+    inv.strings += 1;
+    inv.dcPower += s.modules.length * (params?.pnom ?? 0);
+    inv.mppts[s.mpptIndex].strings += 1;
+    inv.mppts[s.mpptIndex].current += params?.isc ?? 0;
+  }
+  for (const inv of inverters) {
+    inv.mppts.forEach((m, i) => {
+      if (inverter.imax_mppt && m.current > inverter.imax_mppt) {
+        violations.push(`Inverter ${inv.index + 1}, MPPT ${i + 1}: ${m.current.toFixed(1)} A exceeds the ${inverter.imax_mppt} A input limit.`);
+      }
+    });
+  }
+  for (const s of strings) {
+    if (inverter.vdc_max && s.vocCold > inverter.vdc_max) {
+      violations.push(`Inverter ${s.inverterIndex + 1}, MPPT ${s.mpptIndex + 1}: string Voc ${s.vocCold.toFixed(0)} V exceeds the ${inverter.vdc_max} V maximum.`);
+    }
+    if (inverter.vmpp_min && s.vmpHot < inverter.vmpp_min) {
+      violations.push(`Inverter ${s.inverterIndex + 1}, MPPT ${s.mpptIndex + 1}: string Vmp ${s.vmpHot.toFixed(0)} V is below the ${inverter.vmpp_min} V MPPT minimum.`);
+    }
+  }
+  if (unstrungModules > 0) violations.push(`${unstrungModules} module(s) could not be assigned to a full string.`);
+
+  const acPower = inverters.length * (inverter.pnom_ac ?? 0);
+  return {
+    sizing,
+    strings,
+    inverters,
+    unstrungModules,
+    dcPower,
+    acPower,
+    dcAcRatio: acPower > 0 ? dcPower / acPower : null,
+    violations: Array.from(new Set(violations)),
+  };
+};
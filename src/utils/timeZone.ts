@@ -0,0 +1,81 @@
+import tzlookup from 'tz-lookup';
+import { ProjectData } from '../types/project';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  const cached = formatters.get(timeZone);
+  if (cached) return cached;
+  let f: Intl.DateTimeFormat;
+  try {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+  } catch {
+    // Unknown zone name: treat as UTC rather than the browser's zone
+    f = formatterFor('UTC');
+  }
+  formatters.set(timeZone, f);
+  return f;
+};
+
+// IANA zone for a location from the bundled boundary data; UTC when the lookup fails
+export const lookupTimeZone = (lat: number, lng: number): string => {
+  try {
+    return tzlookup(lat, lng);
+  } catch {
+    return 'UTC';
+  }
+};
+
+// Zone used for the project's sun/shadow times: manual override, else derived from coordinates
+export const projectTimeZone = (project: Pick<ProjectData, 'timeZone' | 'coordinates'> | null | undefined): string => {
+  if (project?.timeZone) return project.timeZone;
+  const c = project?.coordinates;
+  return c && Number.isFinite(c.lat) && Number.isFinite(c.lng) ? lookupTimeZone(c.lat, c.lng) : 'UTC';
+};
+
+// Intl.supportedValuesOf is ES2022; older browsers lack it
+type IntlWithSupportedValues = typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+
+export const supportedTimeZones = (): string[] => {
+  const list = (Intl as IntlWithSupportedValues).supportedValuesOf?.('timeZone');
+  return list && list.length ? list : ['UTC'];
+};
+
+// Offset of the zone from UTC (minutes, east positive) at a UTC instant, including DST
+export const timeZoneOffsetMinutes = (timeZone: string, utcMs: number) => {
+  const parts: Record<string, number> = {};
+  for (const p of formatterFor(timeZone).formatToParts(new Date(utcMs))) {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(utcMs / 1000) * 1000) / 60000);
+};
+
+const parseDateStr = (dateStr: string): [number, number, number] => {
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(dateStr || '');
+  if (m) return [Number(m[1]), Number(m[2]), Number(m[3])];
+  const d = dateStr ? new Date(dateStr) : new Date();
+  return [d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate()];
+};
+
+// Instant for a wall-clock date (YYYY-MM-DD) and minutes after midnight in the site zone
+export const siteTimeToDate = (dateStr: string, minutes: number, timeZone: string): Date => {
+  const [y, mo, d] = parseDateStr(dateStr);
+  const naive = Date.UTC(y, mo - 1, d, 0, minutes);
+  // Second pass picks up a DST change between the naive guess and the corrected instant
+  let utc = naive - timeZoneOffsetMinutes(timeZone, naive) * 60000;
+  utc = naive - timeZoneOffsetMinutes(timeZone, utc) * 60000;
+  return new Date(utc);
+};
+
+// Calendar month (1..12) of a date string, without passing it through any time zone
+export const dateStrMonth = (dateStr: string) => parseDateStr(dateStr)[1];
+
+// Month (1..12) of a UTC instant as seen in the site zone
+export const siteMonth = (utcMs: number, timeZone: string) =>
+  new Date(utcMs + timeZoneOffsetMinutes(timeZone, utcMs) * 60000).getUTCMonth() + 1;
@@ -0,0 +1,57 @@
+import { FieldSegment } from '../types/project';
+
+// Horizontal single-axis tracker as the shading and energy models see it
+export interface TrackerGeometry {
+  axisAzimuth: number; // degrees clockwise from north
+  maxAngle: number;    // rotation limit either side of flat, degrees
+  gcr: number;         // collector width / row pitch
+  backtracking: boolean;
+}
+
+const toRad = Math.PI / 180;
+
+export const TRACKER_DEFAULT_GCR = 0.35;
+
+export const trackerGeometry = (segment: FieldSegment): TrackerGeometry | null =>
+  segment.racking === 'Single-Axis Tracker'
+    ? {
+        axisAzimuth: Number(segment.trackerAxisAzimuth ?? 180),
+        maxAngle: Math.max(0, Math.min(90, Number(segment.trackerMaxAngle ?? 60))),
+        gcr: Math.max(0.05, Math.min(1, Number(segment.gcr) || TRACKER_DEFAULT_GCR)),
+        backtracking: segment.backtracking !== false,
+      }
+    : null;
+
+// Rotation that points the module normal at the sun within the plane across the axis. Positive
+// rotations tip the modules toward axis azimuth + 90°.
+const idealRotation = (zenith: number, sunAzimuth: number, axisAzimuth: number) => {
+  const across = Math.sin(zenith * toRad) * Math.cos((sunAzimuth - axisAzimuth - 90) * toRad);
+  return Math.atan2(across, Math.cos(zenith * toRad)) / toRad;
+};
+
+// Tracker rotation for a sun position: true-tracking, or backed off toward flat while the rows
+// would shade each other, then held at the rotation limit
+export const trackerRotation = (zenith: number, sunAzimuth: number, t: TrackerGeometry) => {
+  const ideal = idealRotation(zenith, sunAzimuth, t.axisAzimuth);
+  let rotation = ideal;
+  if (t.backtracking) {
+    const c = Math.cos(ideal * toRad) / t.gcr;
+    if (c < 1) rotation = ideal - Math.sign(ideal) * Math.acos(Math.max(-1, c)) / toRad;
+  }
+  return Math.max(-t.maxAngle, Math.min(t.maxAngle, rotation));
+};
+
+// Module plane at a rotation, as tilt and surface azimuth
+export const trackerSurface = (rotation: number, axisAzimuth: number) => ({
+  tilt: Math.abs(rotation),
+  azimuth: (((axisAzimuth + (rotation >= 0 ? 90 : -90)) % 360) + 360) % 360,
+});
+
+// Fraction of a row's width in the beam shadow of the next row toward the sun (interior rows);
+// zero while backtracking
+export const trackerRowShade = (zenith: number, sunAzimuth: number, rotation: number, t: TrackerGeometry) => {
+  const ideal = idealRotation(zenith, sunAzimuth, t.axisAzimuth);
+  const projected = t.gcr * Math.cos((rotation - ideal) * toRad);
+  if (projected <= 0) return 0;
+  return Math.max(0, Math.min(1, 1 - Math.cos(ideal * toRad) / projected));
+};
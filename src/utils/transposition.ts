@@ -0,0 +1,113 @@
+// Plane-of-array irradiance from GHI/DNI/DHI for a tilted surface
+
+export type TranspositionModel = 'isotropic' | 'hay-davies' | 'perez';
+
+export const TRANSPOSITION_MODELS: Array<{ value: TranspositionModel; label: string }> = [
+  { value: 'perez', label: 'Perez (1990)' },
+  { value: 'hay-davies', label: 'Hay-Davies' },
+  { value: 'isotropic', label: 'Isotropic' },
+];
+
+export interface PoaComponents {
+  beam: number;            // W/m²
+  skyDiffuse: number;      // W/m²
+  groundReflected: number; // W/m²
+  total: number;           // W/m²
+}
+
+export interface TranspositionInput {
+  ghi: number;
+  dni: number;
+  dhi: number;
+  zenith: number;         // degrees
+  sunAzimuth: number;     // degrees clockwise from north
+  tilt: number;           // degrees from horizontal
+  surfaceAzimuth: number; // degrees clockwise from north
+  albedo: number;
+  dayOfYear: number;      // 1..365
+}
+
+const toRad = Math.PI / 180;
+const SOLAR_CONSTANT = 1367; // W/m²
+// Horizon cutoff for the circumsolar ratio, as in Perez and Hay-Davies
+const COS_85 = Math.cos(85 * toRad);
+
+// Perez et al. (1990) "allsitescomposite1990" coefficients, by sky clearness bin
+const PEREZ_EPSILON_BINS = [1.065, 1.23, 1.5, 1.95, 2.8, 4.5, 6.2];
+const PEREZ_F1 = [
+  [-0.0083117, 0.5877277, -0.0620636],
+  [0.1299457, 0.6825954, -0.1513752],
+  [0.3296958, 0.4868735, -0.2210958],
+  [0.5682053, 0.1874525, -0.295129],
+  [0.873028, -0.3920403, -0.3616149],
+  [1.1326077, -1.2367284, -0.4118494],
+  [1.0601591, -1.5999137, -0.3589221],
+  [0.677747, -0.3272588, -0.2504286],
+];
+const PEREZ_F2 = [
+  [-0.0596012, 0.0721249, -0.0220216],
+  [-0.0189325, 0.065965, -0.0288748],
+  [0.055414, -0.0639588, -0.0260542],
+  [0.1088631, -0.1519229, -0.0139754],
+  [0.2255647, -0.4620442, 0.0012448],
+  [0.2877813, -0.8230357, 0.0558651],
+  [0.2642124, -1.127234, 0.1310694],
+  [0.1561313, -1.3765031, 0.2506212],
+];
+
+// Cosine of the angle of incidence between the sun and a tilted surface
+export const cosIncidence = (zenith: number, sunAz: number, tilt: number, surfaceAz: number) =>
+  Math.cos(zenith * toRad) * Math.cos(tilt * toRad) +
+  Math.sin(zenith * toRad) * Math.sin(tilt * toRad) * Math.cos((sunAz - surfaceAz) * toRad);
+
+// Extraterrestrial normal irradiance (W/m²)
+export const extraterrestrialDni = (dayOfYear: number) =>
+  SOLAR_CONSTANT * (1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365));
+
+// Kasten-Young relative air mass
+export const relativeAirmass = (zenith: number) =>
+  zenith >= 90 ? NaN : 1 / (Math.cos(zenith * toRad) + 0.50572 * Math.pow(96.07995 - zenith, -1.6364));
+
+export const dayOfYear = (month: number, day: number) =>
+  Math.round((Date.UTC(2023, month - 1, day) - Date.UTC(2023, 0, 1)) / 86400000) + 1;
+
+const isotropicSky = (dhi: number, tilt: number) => dhi * (1 + Math.cos(tilt * toRad)) / 2;
+
+const hayDaviesSky = (inp: TranspositionInput, cosAoi: number) => {
+  if (inp.zenith >= 90) return isotropicSky(inp.dhi, inp.tilt);
+  const ai = Math.min(1, inp.dni / extraterrestrialDni(inp.dayOfYear));
+  const rb = Math.max(0, cosAoi) / Math.max(COS_85, Math.cos(inp.zenith * toRad));
+  return inp.dhi * (ai * rb + (1 - ai) * (1 + Math.cos(inp.tilt * toRad)) / 2);
+};
+
+const perezSky = (inp: TranspositionInput, cosAoi: number) => {
+  if (inp.dhi <= 0) return 0;
+  if (inp.zenith >= 90) return isotropicSky(inp.dhi, inp.tilt);
+  const z = inp.zenith * toRad;
+  const kz3 = 1.041 * z * z * z;
+  const epsilon = ((inp.dhi + inp.dni) / inp.dhi + kz3) / (1 + kz3);
+  const delta = (inp.dhi * relativeAirmass(inp.zenith)) / extraterrestrialDni(inp.dayOfYear);
+  let bin = PEREZ_EPSILON_BINS.findIndex((upper) => epsilon < upper);
+  if (bin < 0) bin = PEREZ_EPSILON_BINS.length;
+  const [f11, f12, f13] = PEREZ_F1[bin];
+  const [f21, f22, f23] = PEREZ_F2[bin];
+  const f1 = Math.max(0, f11 + f12 * delta + f13 * z);
+  const f2 = f21 + f22 * delta + f23 * z;
+  const a = Math.max(0, cosAoi);
+  const b = Math.max(COS_85, Math.cos(z));
+  const sky = inp.dhi * ((1 - f1) * (1 + Math.cos(inp.tilt * toRad)) / 2 + f1 * (a / b) + f2 * Math.sin(inp.tilt * toRad));
+  return Math.max(0, sky);
+};
+
+// Split plane-of-array irradiance into beam, sky diffuse and ground-reflected components
+export const transpose = (model: TranspositionModel, inp: TranspositionInput): PoaComponents => {
+  const cosAoi = cosIncidence(inp.zenith, inp.sunAzimuth, inp.tilt, inp.surfaceAzimuth);
+  const beam = inp.zenith < 90 ? inp.dni * Math.max(0, cosAoi) : 0;
+  const skyDiffuse = model === 'perez'
+    ? perezSky(inp, cosAoi)
+    : model === 'hay-davies'
+      ? hayDaviesSky(inp, cosAoi)
+      : isotropicSky(inp.dhi, inp.tilt);
+  const groundReflected = inp.ghi * inp.albedo * (1 - Math.cos(inp.tilt * toRad)) / 2;
+  return { beam, skyDiffuse, groundReflected, total: beam + skyDiffuse + groundReflected };
+};
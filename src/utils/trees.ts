@@ -0,0 +1,129 @@
+import * as turf from '@turf/turf';
+import { Tree } from '../types/project';
+import type { Feature, Point } from 'geojson';
+import type { Tables, TablesInsert } from '../integrations/supabase/types';
+import { feetToMeters, localProjector } from './mapUtils';
+import type { ShadowVector } from './shadows';
+
+export const EVERGREEN_TRANSPARENCY = new Array(12).fill(0);
+// Typical northern-hemisphere deciduous tree: bare Dec–Mar, partial in Nov/Apr
+export const DECIDUOUS_TRANSPARENCY = [0.7, 0.7, 0.6, 0.3, 0, 0, 0, 0, 0, 0.1, 0.4, 0.7];
+
+// Map a trees row (snake_case) to Tree (camelCase)
+export const mapDbToTree = (row: Tables<'trees'>): Tree => ({
+  id: row.id,
+  design_id: row.design_id,
+  position: [Number(row.lng), Number(row.lat)],
+  description: row.description ?? 'Tree',
+  totalHeight: Number(row.total_height ?? 30),
+  canopyHeight: Number(row.canopy_height ?? 20),
+  canopyRadius: Number(row.canopy_radius ?? 10),
+  canopyShape: row.canopy_shape === 'conical' ? 'conical' : 'round',
+  monthlyTransparency: Array.isArray(row.monthly_transparency) && row.monthly_transparency.length === 12
+    ? row.monthly_transparency.map(Number)
+    : EVERGREEN_TRANSPARENCY.slice(),
+  created_at: row.created_at,
+  updated_at: row.updated_at,
+});
+
+// Tree back to a trees row (snake_case), keeping its id
+export const treeToDbRow = (tree: Tree): TablesInsert<'trees'> => ({
+  id: tree.id,
+  design_id: tree.design_id,
+  lng: tree.position[0],
+  lat: tree.position[1],
+  description: tree.description,
+  total_height: tree.totalHeight,
+  canopy_height: tree.canopyHeight,
+  canopy_radius: tree.canopyRadius,
+  canopy_shape: tree.canopyShape,
+  monthly_transparency: tree.monthlyTransparency,
+  created_at: tree.created_at,
+});
+
+// Crown extents in meters: bottom/top heights above ground and max radius
+export const treeCrown = (tree: Tree) => {
+  const top = Math.max(0, feetToMeters(tree.totalHeight || 0));
+  const depth = Math.min(top, Math.max(0, feetToMeters(tree.canopyHeight || 0)));
+  return { bottom: top - depth, top, radius: Math.max(0, feetToMeters(tree.canopyRadius || 0)) };
+};
+
+// Crown radius (m) at height z (m); 0 outside the crown
+export const crownRadiusAt = (tree: Tree, z: number) => {
+  const { bottom, top, radius } = treeCrown(tree);
+  if (z < bottom || z > top || top <= bottom) return 0;
+  if (tree.canopyShape === 'conical') return radius * (top - z) / (top - bottom);
+  const half = (top - bottom) / 2;
+  const u = (z - (bottom + half)) / half;
+  return radius * Math.sqrt(Math.max(0, 1 - u * u));
+};
+
+// Horizontal crown slices used to draw and project the crown
+export const crownLevels = (tree: Tree, count = 8) => {
+  const { bottom, top } = treeCrown(tree);
+  const levels: Array<{ z: number; radius: number }> = [];
+  for (let i = 0; i <= count; i++) {
+    const z = bottom + ((top - bottom) * i) / count;
+    levels.push({ z, radius: crownRadiusAt(tree, z) });
+  }
+  // Round crowns are widest mid-height, which the sampled slices may miss
+  if (tree.canopyShape === 'round') levels.push({ z: (bottom + top) / 2, radius: treeCrown(tree).radius });
+  return levels;
+};
+
+export const treeTransparency = (tree: Tree, month: number) => {
+  const t = tree.monthlyTransparency?.[month - 1];
+  return typeof t === 'number' && isFinite(t) ? Math.min(1, Math.max(0, t)) : 0;
+};
+
+// Ground shadow of the crown: hull of each crown slice shifted along the sun vector for a 1 m object
+export const treeShadowPolygon = (tree: Tree, unitVector: ShadowVector) => {
+  const pts: Feature<Point>[] = [];
+  for (const { z, radius } of crownLevels(tree)) {
+    const center = turf.destination(tree.position, unitVector.length * z, unitVector.bearing, { units: 'meters' });
+    if (radius <= 0.01) { pts.push(center); continue; }
+    const circle = turf.circle(center, radius, { steps: 24, units: 'meters' });
+    for (const c of circle.geometry.coordinates[0]) pts.push(turf.point(c));
+  }
+  if (pts.length < 3) return null;
+  try {
+    return turf.convex(turf.featureCollection(pts));
+  } catch {
+    // Degenerate (collinear) crown points have no hull; the tree casts no usable shadow at this sun position
+    return null;
+  }
+};
+
+// Fraction of direct sun reaching a point (height in m) past this tree: 1 when the ray misses the crown
+export const treeBeamTransmission = (
+  tree: Tree,
+  point: [number, number],
+  pointHeightM: number,
+  sunAzimuthDeg: number,
+  sunAltitudeDeg: number,
+  month: number,
+) => {
+  if (sunAltitudeDeg <= 0) return 0;
+  const { bottom, top, radius } = treeCrown(tree);
+  if (radius <= 0 || top <= bottom || top <= pointHeightM) return 1;
+  // Point relative to the trunk, local east/north meters
+  const [px, py] = localProjector(tree.position)(point);
+  const az = (sunAzimuthDeg * Math.PI) / 180;
+  const alt = (sunAltitudeDeg * Math.PI) / 180;
+  const dx = Math.sin(az) * Math.cos(alt);
+  const dy = Math.cos(az) * Math.cos(alt);
+  const dz = Math.sin(alt);
+  // Walk the ray through the crown's height band
+  const t0 = Math.max(0, (bottom - pointHeightM) / dz);
+  const t1 = (top - pointHeightM) / dz;
+  const SAMPLES = 24;
+  for (let i = 0; i <= SAMPLES; i++) {
+    const t = t0 + ((t1 - t0) * i) / SAMPLES;
+    const x = px + dx * t;
+    const y = py + dy * t;
+    const z = pointHeightM + dz * t;
+    const r = crownRadiusAt(tree, z);
+    if (r > 0 && x * x + y * y <= r * r) return treeTransparency(tree, month);
+  }
+  return 1;
+};
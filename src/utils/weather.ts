@@ -0,0 +1,132 @@
+import type { WeatherData, WeatherRecord } from '../types/weather';
+
+// Reference (non-leap) year used to place TMY hours on a calendar
+export const WEATHER_REFERENCE_YEAR = 2023;
+
+const num = (s: unknown) => {
+  const n = Number(String(s ?? '').trim());
+  return Number.isFinite(n) ? n : NaN;
+};
+
+// Missing/invalid irradiance is treated as zero, temperatures fall back to 20 °C
+const clean = (r: WeatherRecord): WeatherRecord => ({
+  ...r,
+  ghi: Number.isFinite(r.ghi) && r.ghi > 0 ? r.ghi : 0,
+  dni: Number.isFinite(r.dni) && r.dni > 0 ? r.dni : 0,
+  dhi: Number.isFinite(r.dhi) && r.dhi > 0 ? r.dhi : 0,
+  tamb: Number.isFinite(r.tamb) && r.tamb > -90 && r.tamb < 70 ? r.tamb : 20,
+  wind: Number.isFinite(r.wind) && r.wind >= 0 && r.wind < 100 ? r.wind : 1,
+});
+
+// EnergyPlus EPW: LOCATION header, 7 more header lines, then hourly rows (hour 1..24, hour-ending, local standard time)
+export function parseEPW(text: string, name = 'Weather file'): WeatherData {
+  const lines = text.split(/\r?\n/);
+  const loc = (lines[0] || '').split(',');
+  if (!/^location/i.test(loc[0] || '')) throw new Error('Not an EPW file: missing LOCATION header.');
+  const records: WeatherRecord[] = [];
+  for (const line of lines.slice(8)) {
+    const c = line.split(',');
+    if (c.length < 22) continue;
+    const month = num(c[1]);
+    const day = num(c[2]);
+    const hour = num(c[3]);
+    if (!month || !day || !hour || (month === 2 && day === 29)) continue;
+    records.push(clean({
+      month, day, hour: hour - 1,
+      tamb: num(c[6]), ghi: num(c[13]), dni: num(c[14]), dhi: num(c[15]), wind: num(c[21]),
+    }));
+  }
+  return {
+    format: 'EPW',
+    name: [loc[1], loc[2], loc[3]].filter((s) => s && s.trim() && s.trim() !== '-').join(', ') || name,
+    latitude: num(loc[6]),
+    longitude: num(loc[7]),
+    elevation: num(loc[9]) || 0,
+    tzOffset: num(loc[8]) || 0,
+    records,
+  };
+}
+
+// NSRDB TMY3 CSV: site header line, column header line, then hourly rows (MM/DD/YYYY, HH:MM hour-ending, local standard time)
+export function parseTMY3(text: string, name = 'Weather file'): WeatherData {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== '');
+  const site = (lines[0] || '').split(',');
+  const headers = (lines[1] || '').split(',').map((h) => h.trim().toLowerCase());
+  const col = (...prefixes: string[]) => headers.findIndex((h) => prefixes.some((p) => h.startsWith(p)));
+  const iDate = col('date');
+  const iTime = col('time');
+  const iGhi = col('ghi (');
+  const iDni = col('dni (');
+  const iDhi = col('dhi (');
+  const iTemp = col('dry-bulb');
+  const iWind = col('wspd');
+  if ([iDate, iTime, iGhi, iDni, iDhi].some((i) => i < 0)) throw new Error('Not a TMY3 file: missing Date/Time/GHI/DNI/DHI columns.');
+  const records: WeatherRecord[] = [];
+  for (const line of lines.slice(2)) {
+    const c = line.split(',');
+    const [mm, dd] = (c[iDate] || '').split('/').map(num);
+    const hour = num((c[iTime] || '').split(':')[0]);
+    if (!mm || !dd || !hour || (mm === 2 && dd === 29)) continue;
+    records.push(clean({
+      month: mm, day: dd, hour: hour - 1,
+      ghi: num(c[iGhi]), dni: num(c[iDni]), dhi: num(c[iDhi]),
+      tamb: iTemp >= 0 ? num(c[iTemp]) : NaN,
+      wind: iWind >= 0 ? num(c[iWind]) : NaN,
+    }));
+  }
+  return {
+    format: 'TMY3',
+    name: [site[1], site[2]].map((s) => (s || '').replace(/"/g, '').trim()).filter(Boolean).join(', ') || name,
+    latitude: num(site[4]),
+    longitude: num(site[5]),
+    elevation: num(site[6]) || 0,
+    tzOffset: num(site[3]) || 0,
+    records,
+  };
+}
+
+// PVGIS TMY JSON: outputs.tmy_hourly with "time(UTC)" = YYYYMMDD:HHMM (hour-starting, UTC)
+export function parsePVGIS(text: string, name = 'Weather file'): WeatherData {
+  const json = JSON.parse(text);
+  const rows = json?.outputs?.tmy_hourly;
+  if (!Array.isArray(rows)) throw new Error('Not a PVGIS TMY file: missing outputs.tmy_hourly.');
+  const loc = json?.inputs?.location || {};
+  const records: WeatherRecord[] = [];
+  for (const r of rows) {
+    const t = String(r['time(UTC)'] || '');
+    const m = t.match(/^\d{4}(\d{2})(\d{2}):(\d{2})/);
+    if (!m) continue;
+    const month = num(m[1]);
+    const day = num(m[2]);
+    if (month === 2 && day === 29) continue;
+    records.push(clean({
+      month, day, hour: num(m[3]),
+      ghi: num(r['G(h)']), dni: num(r['Gb(n)']), dhi: num(r['Gd(h)']), tamb: num(r['T2m']), wind: num(r['WS10m']),
+    }));
+  }
+  return {
+    format: 'PVGIS',
+    name,
+    latitude: num(loc.latitude),
+    longitude: num(loc.longitude),
+    elevation: num(loc.elevation) || 0,
+    tzOffset: 0,
+    records,
+  };
+}
+
+// Pick a parser from the file extension, sniffing the content when the extension is ambiguous
+export function parseWeatherFile(fileName: string, text: string): WeatherData {
+  const lower = fileName.toLowerCase();
+  const base = fileName.replace(/\.[^.]+$/, '');
+  let data: WeatherData;
+  if (lower.endsWith('.epw') || /^location,/i.test(text)) data = parseEPW(text, base);
+  else if (lower.endsWith('.json') || text.trim().startsWith('{')) data = parsePVGIS(text, base);
+  else data = parseTMY3(text, base);
+  if (data.records.length < 24) throw new Error('Weather file contains no hourly records.');
+  return data;
+}
+
+// UTC timestamp (ms) at the middle of a record's hour
+export const recordTimestamp = (weather: Pick<WeatherData, 'tzOffset'>, r: WeatherRecord): number =>
+  Date.UTC(WEATHER_REFERENCE_YEAR, r.month - 1, r.day, r.hour, 30) - weather.tzOffset * 3600 * 1000;
@@ -0,0 +1,36 @@
+import { moduleShadingPasses, ShadingWorkerRequest, ShadingWorkerResponse } from '../utils/shading';
+
+// Annual module shading off the main thread. The calculation yields after every module; between
+// slices the worker reports progress and gives a 'cancel' for a superseded request a chance to land.
+const SLICE_MS = 50;
+const cancelled = new Set<number>();
+
+const post = (msg: ShadingWorkerResponse) => self.postMessage(msg);
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+self.onmessage = async (e: MessageEvent<ShadingWorkerRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'cancel') {
+    cancelled.add(msg.requestId);
+    return;
+  }
+  const passes = moduleShadingPasses(msg.scene, msg.stepHours);
+  let sliceStart = Date.now();
+  try {
+    for (;;) {
+      const step = passes.next();
+      if (step.done) {
+        post({ type: 'result', requestId: msg.requestId, result: step.value });
+        break;
+      }
+      if (Date.now() - sliceStart < SLICE_MS) continue;
+      post({ type: 'progress', requestId: msg.requestId, progress: step.value });
+      await nextTick();
+      if (cancelled.has(msg.requestId)) break;
+      sliceStart = Date.now();
+    }
+  } catch (err) {
+    post({ type: 'error', requestId: msg.requestId, message: err instanceof Error ? err.message : String(err) });
+  }
+  cancelled.delete(msg.requestId);
+};
@@ -0,0 +1,27 @@
+import { computeShadowJob, ShadowWorkerRequest, ShadowWorkerResponse } from '../utils/shadowJobs';
+
+// Shadow projection/union off the main thread. Jobs are processed one at a time, yielding between
+// them so a 'cancel' for a superseded request is seen before the next job starts.
+const cancelled = new Set<number>();
+
+const post = (msg: ShadowWorkerResponse) => self.postMessage(msg);
+const nextTick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+self.onmessage = async (e: MessageEvent<ShadowWorkerRequest>) => {
+  const msg = e.data;
+  if (msg.type === 'cancel') {
+    cancelled.add(msg.requestId);
+    return;
+  }
+  for (const job of msg.jobs) {
+    await nextTick();
+    if (cancelled.has(msg.requestId)) break;
+    try {
+      post({ type: 'result', requestId: msg.requestId, result: computeShadowJob(job) });
+    } catch (err) {
+      console.error('Shadow job failed', err);
+    }
+  }
+  cancelled.delete(msg.requestId);
+  post({ type: 'done', requestId: msg.requestId });
+};
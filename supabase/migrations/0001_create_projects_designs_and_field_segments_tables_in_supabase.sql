@@ -0,0 +1,80 @@
+-- Core project/design tables. These predate the migrations folder, so everything here is
+-- idempotent: on an existing database it only adds columns that are missing.
+-- Version 0001: runs after the modules migration (0000; field_segments.module references
+-- modules) and before every migration that references projects or designs.
+
+-- Projects
+CREATE TABLE IF NOT EXISTS public.projects (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS project_name TEXT NOT NULL DEFAULT 'Untitled project',
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS address TEXT,
+  ADD COLUMN IF NOT EXISTS project_type TEXT NOT NULL DEFAULT 'Residential',
+  ADD COLUMN IF NOT EXISTS lat DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS lng DOUBLE PRECISION;
+
+-- Designs (alternative layouts within a project)
+CREATE TABLE IF NOT EXISTS public.designs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.designs
+  ADD COLUMN IF NOT EXISTS name TEXT NOT NULL DEFAULT 'Design',
+  ADD COLUMN IF NOT EXISTS cloned_from UUID REFERENCES public.designs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS designs_project_id_idx ON public.designs(project_id);
+
+-- Field segments (array areas drawn in the design editor); lengths in feet, angles in degrees
+CREATE TABLE IF NOT EXISTS public.field_segments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  design_id UUID NOT NULL REFERENCES public.designs(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.field_segments
+  ADD COLUMN IF NOT EXISTS geometry JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS area NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS module UUID REFERENCES public.modules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS racking TEXT NOT NULL DEFAULT 'Fixed Tilt Racking',
+  ADD COLUMN IF NOT EXISTS surface_height NUMERIC DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS racking_height NUMERIC DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS parapet_height NUMERIC DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS module_azimuth NUMERIC DEFAULT 180,
+  ADD COLUMN IF NOT EXISTS module_tilt NUMERIC DEFAULT 10,
+  ADD COLUMN IF NOT EXISTS span_rise NUMERIC DEFAULT 1.4,
+  ADD COLUMN IF NOT EXISTS gcr NUMERIC DEFAULT 0.81,
+  ADD COLUMN IF NOT EXISTS time_of_day TEXT DEFAULT '10:00',
+  ADD COLUMN IF NOT EXISTS analysis_date TEXT,
+  ADD COLUMN IF NOT EXISTS start_time TEXT DEFAULT '10:00',
+  ADD COLUMN IF NOT EXISTS end_time TEXT DEFAULT '16:00',
+  ADD COLUMN IF NOT EXISTS frame_size_up INTEGER DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS frame_size_wide INTEGER DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS default_orientation TEXT DEFAULT 'Landscape',
+  ADD COLUMN IF NOT EXISTS row_spacing NUMERIC DEFAULT 2,
+  ADD COLUMN IF NOT EXISTS module_spacing NUMERIC DEFAULT 0.041,
+  ADD COLUMN IF NOT EXISTS frame_spacing NUMERIC DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS setback NUMERIC DEFAULT 4,
+  ADD COLUMN IF NOT EXISTS alignment TEXT DEFAULT 'center';
+
+CREATE INDEX IF NOT EXISTS field_segments_design_id_idx ON public.field_segments(design_id);
+
+-- Enable RLS
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.designs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.field_segments ENABLE ROW LEVEL SECURITY;
+
+-- Public access policy to match existing tables
+DROP POLICY IF EXISTS "Public access" ON public.projects;
+DROP POLICY IF EXISTS "Public access" ON public.designs;
+DROP POLICY IF EXISTS "Public access" ON public.field_segments;
+CREATE POLICY "Public access" ON public.projects FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access" ON public.designs FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access" ON public.field_segments FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,35 @@
+-- Create inverters table
+CREATE TABLE public.inverters (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  manufacturer TEXT NOT NULL,
+  model TEXT NOT NULL,
+  pnom_ac NUMERIC,
+  mppt_count INTEGER,
+  vmpp_min NUMERIC,
+  vmpp_max NUMERIC,
+  vdc_max NUMERIC,
+  imax_mppt NUMERIC,
+  efficiency_curve JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (manufacturer, model)
+);
+
+-- Enable RLS
+ALTER TABLE public.inverters ENABLE ROW LEVEL SECURITY;
+
+-- Public access policy to match existing tables
+CREATE POLICY "Public access" ON public.inverters FOR ALL USING (true) WITH CHECK (true);
+
+-- Create inverter_details table to store parsed data and raw file text (OND or CSV)
+CREATE TABLE public.inverter_details (
+  inverter_id UUID PRIMARY KEY REFERENCES public.inverters(id) ON DELETE CASCADE,
+  parsed JSONB,
+  file_text TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.inverter_details ENABLE ROW LEVEL SECURITY;
+
+-- Public access policy to match existing tables
+CREATE POLICY "Public access" ON public.inverter_details FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,17 @@
+-- Per-design electrical configuration (inverter choice and stringing design temperatures)
+CREATE TABLE public.electrical_configs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  design_id UUID NOT NULL UNIQUE REFERENCES public.designs(id) ON DELETE CASCADE,
+  inverter_id UUID REFERENCES public.inverters(id) ON DELETE SET NULL,
+  record_low_temp NUMERIC DEFAULT -10,
+  high_temp NUMERIC DEFAULT 40,
+  string_length INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.electrical_configs ENABLE ROW LEVEL SECURITY;
+
+-- Public access policy to match existing tables
+CREATE POLICY "Public access" ON public.electrical_configs FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,38 @@
+-- Hourly typical-year weather uploaded per project (EPW, TMY3 CSV or PVGIS JSON)
+CREATE TABLE public.weather_files (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  format TEXT NOT NULL,
+  latitude NUMERIC,
+  longitude NUMERIC,
+  elevation NUMERIC,
+  tz_offset NUMERIC DEFAULT 0,
+  record_count INTEGER,
+  records JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Energy yield results, one row per simulation run of a design
+CREATE TABLE public.simulations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  design_id UUID NOT NULL REFERENCES public.designs(id) ON DELETE CASCADE,
+  weather_file_id UUID REFERENCES public.weather_files(id) ON DELETE SET NULL,
+  annual_kwh NUMERIC,
+  monthly_kwh JSONB,
+  dc_kwp NUMERIC,
+  specific_yield NUMERIC,
+  performance_ratio NUMERIC,
+  segments JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX simulations_design_id_idx ON public.simulations(design_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.weather_files ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.simulations ENABLE ROW LEVEL SECURITY;
+
+-- Public access policies to match existing tables
+CREATE POLICY "Public access" ON public.weather_files FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Public access" ON public.simulations FOR ALL USING (true) WITH CHECK (true);
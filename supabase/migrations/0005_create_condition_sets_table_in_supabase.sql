@@ -0,0 +1,23 @@
+-- Irradiance assumptions per project: transposition model and ground albedo
+CREATE TABLE public.condition_sets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  transposition_model TEXT NOT NULL DEFAULT 'perez' CHECK (transposition_model IN ('isotropic', 'hay-davies', 'perez')),
+  albedo_mode TEXT NOT NULL DEFAULT 'constant' CHECK (albedo_mode IN ('constant', 'monthly')),
+  albedo NUMERIC DEFAULT 0.2,
+  monthly_albedo JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Record which assumptions each simulation ran under
+ALTER TABLE public.simulations
+  ADD COLUMN condition_set_id UUID REFERENCES public.condition_sets(id) ON DELETE SET NULL,
+  ADD COLUMN transposition_model TEXT;
+
+-- Enable RLS
+ALTER TABLE public.condition_sets ENABLE ROW LEVEL SECURITY;
+
+-- Public access policy to match existing tables
+CREATE POLICY "Public access" ON public.condition_sets FOR ALL USING (true) WITH CHECK (true);
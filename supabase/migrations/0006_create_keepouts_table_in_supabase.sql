@@ -0,0 +1,20 @@
+-- Keepout obstructions per design (polygons or circles with a height and setback buffer)
+CREATE TABLE public.keepouts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  design_id UUID NOT NULL REFERENCES public.designs(id) ON DELETE CASCADE,
+  shape TEXT NOT NULL DEFAULT 'polygon' CHECK (shape IN ('polygon', 'circle')),
+  geometry JSONB NOT NULL,
+  description TEXT,
+  height NUMERIC DEFAULT 3,
+  setback NUMERIC DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX keepouts_design_id_idx ON public.keepouts(design_id);
+
+-- Enable RLS
+ALTER TABLE public.keepouts ENABLE ROW LEVEL SECURITY;
+
+-- Public access policy to match existing tables
+CREATE POLICY "Public access" ON public.keepouts FOR ALL USING (true) WITH CHECK (true);
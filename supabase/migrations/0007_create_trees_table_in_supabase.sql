@@ -0,0 +1,23 @@
+-- Tree obstructions per design with crown geometry and monthly leaf-off transparency
+CREATE TABLE public.trees (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  design_id UUID NOT NULL REFERENCES public.designs(id) ON DELETE CASCADE,
+  lng DOUBLE PRECISION NOT NULL,
+  lat DOUBLE PRECISION NOT NULL,
+  description TEXT,
+  total_height NUMERIC DEFAULT 30,
+  canopy_height NUMERIC DEFAULT 20,
+  canopy_radius NUMERIC DEFAULT 10,
+  canopy_shape TEXT NOT NULL DEFAULT 'round' CHECK (canopy_shape IN ('round', 'conical')),
+  monthly_transparency JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX trees_design_id_idx ON public.trees(design_id);
+
+-- Enable RLS
+ALTER TABLE public.trees ENABLE ROW LEVEL SECURITY;
+
+-- Public access policy to match existing tables
+CREATE POLICY "Public access" ON public.trees FOR ALL USING (true) WITH CHECK (true);
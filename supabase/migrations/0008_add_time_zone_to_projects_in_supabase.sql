@@ -0,0 +1,2 @@
+-- IANA time zone of the site; analysis dates/times are interpreted in this zone
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS time_zone TEXT;
@@ -0,0 +1,45 @@
+-- Create a design as a deep copy of another one: field segments, keepouts, trees and the
+-- electrical configuration. Runs as a single statement, so any failure rolls back the whole clone.
+-- Rows are copied through jsonb so every column is carried over; only ids and design_id change.
+CREATE OR REPLACE FUNCTION public.clone_design(p_project_id UUID, p_name TEXT, p_source_design_id UUID)
+RETURNS public.designs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_design public.designs;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.designs WHERE id = p_source_design_id AND project_id = p_project_id) THEN
+    RAISE EXCEPTION 'Design % not found in project %', p_source_design_id, p_project_id;
+  END IF;
+
+  INSERT INTO public.designs (name, project_id, cloned_from)
+  VALUES (p_name, p_project_id, p_source_design_id)
+  RETURNING * INTO new_design;
+
+  INSERT INTO public.field_segments
+  SELECT (jsonb_populate_record(NULL::public.field_segments,
+    to_jsonb(s) || jsonb_build_object('id', gen_random_uuid(), 'design_id', new_design.id))).*
+  FROM public.field_segments s
+  WHERE s.design_id = p_source_design_id;
+
+  INSERT INTO public.keepouts
+  SELECT (jsonb_populate_record(NULL::public.keepouts,
+    to_jsonb(k) || jsonb_build_object('id', gen_random_uuid(), 'design_id', new_design.id))).*
+  FROM public.keepouts k
+  WHERE k.design_id = p_source_design_id;
+
+  INSERT INTO public.trees
+  SELECT (jsonb_populate_record(NULL::public.trees,
+    to_jsonb(t) || jsonb_build_object('id', gen_random_uuid(), 'design_id', new_design.id))).*
+  FROM public.trees t
+  WHERE t.design_id = p_source_design_id;
+
+  INSERT INTO public.electrical_configs
+  SELECT (jsonb_populate_record(NULL::public.electrical_configs,
+    to_jsonb(e) || jsonb_build_object('id', gen_random_uuid(), 'design_id', new_design.id, 'created_at', NOW(), 'updated_at', NOW()))).*
+  FROM public.electrical_configs e
+  WHERE e.design_id = p_source_design_id;
+
+  RETURN new_design;
+END;
+$$;
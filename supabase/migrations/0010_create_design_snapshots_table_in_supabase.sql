@@ -0,0 +1,72 @@
+-- Named snapshots of a design: serialized segments/obstructions (camelCase, as used by the app),
+-- electrical settings and the module count / kWp at the time the snapshot was taken
+CREATE TABLE public.design_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  design_id UUID NOT NULL REFERENCES public.designs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  segments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  keepouts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  trees JSONB NOT NULL DEFAULT '[]'::jsonb,
+  electrical JSONB,
+  stats JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX design_snapshots_design_id_idx ON public.design_snapshots(design_id);
+
+-- Enable RLS
+ALTER TABLE public.design_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Public access policy to match existing tables
+CREATE POLICY "Public access" ON public.design_snapshots FOR ALL USING (true) WITH CHECK (true);
+
+-- Replace a design's live rows with the given table rows (snake_case) in one transaction
+CREATE OR REPLACE FUNCTION public.restore_design_snapshot(
+  p_design_id UUID,
+  p_segments JSONB,
+  p_keepouts JSONB,
+  p_trees JSONB,
+  p_electrical JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM public.field_segments WHERE design_id = p_design_id;
+  DELETE FROM public.keepouts WHERE design_id = p_design_id;
+  DELETE FROM public.trees WHERE design_id = p_design_id;
+
+  INSERT INTO public.field_segments
+  SELECT (jsonb_populate_record(NULL::public.field_segments,
+    r || jsonb_build_object('design_id', p_design_id, 'updated_at', NOW()))).*
+  FROM jsonb_array_elements(COALESCE(p_segments, '[]'::jsonb)) r;
+
+  INSERT INTO public.keepouts
+  SELECT (jsonb_populate_record(NULL::public.keepouts,
+    r || jsonb_build_object('design_id', p_design_id, 'updated_at', NOW()))).*
+  FROM jsonb_array_elements(COALESCE(p_keepouts, '[]'::jsonb)) r;
+
+  INSERT INTO public.trees
+  SELECT (jsonb_populate_record(NULL::public.trees,
+    r || jsonb_build_object('design_id', p_design_id, 'updated_at', NOW()))).*
+  FROM jsonb_array_elements(COALESCE(p_trees, '[]'::jsonb)) r;
+
+  IF p_electrical IS NOT NULL THEN
+    INSERT INTO public.electrical_configs (design_id, inverter_id, record_low_temp, high_temp, string_length, updated_at)
+    VALUES (
+      p_design_id,
+      NULLIF(p_electrical->>'inverter_id', '')::UUID,
+      (p_electrical->>'record_low_temp')::NUMERIC,
+      (p_electrical->>'high_temp')::NUMERIC,
+      (p_electrical->>'string_length')::INTEGER,
+      NOW()
+    )
+    ON CONFLICT (design_id) DO UPDATE SET
+      inverter_id = EXCLUDED.inverter_id,
+      record_low_temp = EXCLUDED.record_low_temp,
+      high_temp = EXCLUDED.high_temp,
+      string_length = EXCLUDED.string_length,
+      updated_at = EXCLUDED.updated_at;
+  END IF;
+END;
+$$;
@@ -0,0 +1,14 @@
+-- Broadcast field_segments changes to editors of the same design (Supabase Realtime)
+-- Full replica identity so update/delete events carry the whole old row, including design_id
+ALTER TABLE public.field_segments REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'field_segments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.field_segments;
+  END IF;
+END;
+$$;
@@ -0,0 +1,238 @@
+-- Organizations (teams) and their members; projects belong to an organization and are only
+-- visible to its members. Replaces the "Public access" policies with membership checks.
+CREATE TABLE public.organizations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.organization_members (
+  org_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (org_id, user_id)
+);
+
+CREATE INDEX organization_members_user_id_idx ON public.organization_members(user_id);
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS projects_org_id_idx ON public.projects(org_id);
+
+-- Membership helpers. SECURITY DEFINER so policies on organization_members itself don't recurse.
+CREATE OR REPLACE FUNCTION public.is_org_member(p_org_id UUID, p_roles TEXT[] DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE org_id = p_org_id
+      AND user_id = auth.uid()
+      AND (p_roles IS NULL OR role = ANY (p_roles))
+  );
+$$;
+
+-- A project is accessible to members of its organization; projects created before organizations
+-- existed (no org) only to their owner
+CREATE OR REPLACE FUNCTION public.can_access_project(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.projects p
+    WHERE p.id = p_project_id
+      AND (public.is_org_member(p.org_id) OR (p.org_id IS NULL AND p.owner_id = auth.uid()))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_design(p_design_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.designs d
+    WHERE d.id = p_design_id AND public.can_access_project(d.project_id)
+  );
+$$;
+
+-- Create an organization with the caller as its owner in one step (the membership insert
+-- policy would otherwise reject the first member)
+CREATE OR REPLACE FUNCTION public.create_organization(p_name TEXT)
+RETURNS public.organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_org public.organizations;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO public.organizations (name, created_by)
+  VALUES (p_name, auth.uid())
+  RETURNING * INTO new_org;
+
+  INSERT INTO public.organization_members (org_id, user_id, role)
+  VALUES (new_org.id, auth.uid(), 'owner');
+
+  RETURN new_org;
+END;
+$$;
+
+-- Enable RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read" ON public.organizations FOR SELECT
+  USING (public.is_org_member(id));
+CREATE POLICY "Admins update" ON public.organizations FOR UPDATE
+  USING (public.is_org_member(id, ARRAY['owner', 'admin']));
+CREATE POLICY "Owners delete" ON public.organizations FOR DELETE
+  USING (public.is_org_member(id, ARRAY['owner']));
+
+CREATE POLICY "Members read" ON public.organization_members FOR SELECT
+  USING (public.is_org_member(org_id));
+-- Admins manage members and admins; granting, changing or removing the owner role takes an owner
+CREATE POLICY "Admins add" ON public.organization_members FOR INSERT
+  WITH CHECK (public.is_org_member(org_id, ARRAY['owner', 'admin'])
+    AND (role <> 'owner' OR public.is_org_member(org_id, ARRAY['owner'])));
+CREATE POLICY "Admins update" ON public.organization_members FOR UPDATE
+  USING (public.is_org_member(org_id, ARRAY['owner', 'admin'])
+    AND (role <> 'owner' OR public.is_org_member(org_id, ARRAY['owner'])))
+  WITH CHECK (public.is_org_member(org_id, ARRAY['owner', 'admin'])
+    AND (role <> 'owner' OR public.is_org_member(org_id, ARRAY['owner'])));
+CREATE POLICY "Admins remove" ON public.organization_members FOR DELETE
+  USING (public.is_org_member(org_id, ARRAY['owner', 'admin'])
+    AND (role <> 'owner' OR public.is_org_member(org_id, ARRAY['owner'])));
+CREATE POLICY "Members leave" ON public.organization_members FOR DELETE
+  USING (user_id = auth.uid());
+
+-- An organization always keeps an owner: its last one can't leave, be removed or be demoted.
+-- Deleting the organization itself (the members go by cascade) and service-role maintenance
+-- (no auth.uid()) are exempt.
+CREATE OR REPLACE FUNCTION public.keep_last_org_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'owner'
+     AND (TG_OP = 'DELETE' OR NEW.role <> 'owner' OR NEW.org_id <> OLD.org_id)
+     AND auth.uid() IS NOT NULL
+     AND EXISTS (SELECT 1 FROM public.organizations WHERE id = OLD.org_id)
+     AND NOT EXISTS (
+       SELECT 1 FROM public.organization_members
+       WHERE org_id = OLD.org_id AND role = 'owner' AND user_id <> OLD.user_id
+     ) THEN
+    RAISE EXCEPTION 'An organization needs at least one owner';
+  END IF;
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER organization_members_keep_last_owner
+  BEFORE UPDATE OR DELETE ON public.organization_members
+  FOR EACH ROW EXECUTE FUNCTION public.keep_last_org_owner();
+
+-- Projects: members of the organization; only the owner or an org admin may delete
+DROP POLICY IF EXISTS "Public access" ON public.projects;
+CREATE POLICY "Members read" ON public.projects FOR SELECT
+  USING (public.is_org_member(org_id) OR (org_id IS NULL AND owner_id = auth.uid()));
+CREATE POLICY "Members insert" ON public.projects FOR INSERT
+  WITH CHECK (owner_id = auth.uid() AND public.is_org_member(org_id));
+CREATE POLICY "Members update" ON public.projects FOR UPDATE
+  USING (public.is_org_member(org_id) OR (org_id IS NULL AND owner_id = auth.uid()))
+  WITH CHECK (public.is_org_member(org_id) OR (org_id IS NULL AND owner_id = auth.uid()));
+CREATE POLICY "Owner or admin delete" ON public.projects FOR DELETE
+  USING (owner_id = auth.uid() OR public.is_org_member(org_id, ARRAY['owner', 'admin']));
+
+-- The update policy lets any member edit a project, so owner_id and org_id are guarded
+-- separately: only the project's owner or an admin of its organization may hand it to someone
+-- else or move it, and only into an organization they belong to. Service-role maintenance (no
+-- auth.uid()) is exempt.
+CREATE OR REPLACE FUNCTION public.guard_project_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.owner_id IS NOT DISTINCT FROM OLD.owner_id AND NEW.org_id IS NOT DISTINCT FROM OLD.org_id)
+     OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NOT (OLD.owner_id = auth.uid() OR public.is_org_member(OLD.org_id, ARRAY['owner', 'admin'])) THEN
+    RAISE EXCEPTION 'Only the project owner or an organization admin may change its owner or organization';
+  END IF;
+  IF NEW.org_id IS DISTINCT FROM OLD.org_id AND NEW.org_id IS NOT NULL AND NOT public.is_org_member(NEW.org_id) THEN
+    RAISE EXCEPTION 'Not a member of the target organization';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER projects_guard_ownership
+  BEFORE UPDATE OF owner_id, org_id ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.guard_project_ownership();
+
+-- Projects created before organizations have neither an owner nor an organization. They were
+-- readable and writable by anyone until now; no policy above matches them, so they drop out of
+-- every dashboard. Nothing records who created them, so they are not claimable from the app:
+-- assign them to their team with the service role (db/assign_legacy_projects.sql).
+
+-- Tables hanging off a project
+DROP POLICY IF EXISTS "Public access" ON public.designs;
+DROP POLICY IF EXISTS "Public access" ON public.weather_files;
+DROP POLICY IF EXISTS "Public access" ON public.condition_sets;
+CREATE POLICY "Project members" ON public.designs FOR ALL
+  USING (public.can_access_project(project_id)) WITH CHECK (public.can_access_project(project_id));
+CREATE POLICY "Project members" ON public.weather_files FOR ALL
+  USING (public.can_access_project(project_id)) WITH CHECK (public.can_access_project(project_id));
+CREATE POLICY "Project members" ON public.condition_sets FOR ALL
+  USING (public.can_access_project(project_id)) WITH CHECK (public.can_access_project(project_id));
+
+-- Tables hanging off a design
+DROP POLICY IF EXISTS "Public access" ON public.field_segments;
+DROP POLICY IF EXISTS "Public access" ON public.keepouts;
+DROP POLICY IF EXISTS "Public access" ON public.trees;
+DROP POLICY IF EXISTS "Public access" ON public.electrical_configs;
+DROP POLICY IF EXISTS "Public access" ON public.simulations;
+DROP POLICY IF EXISTS "Public access" ON public.design_snapshots;
+CREATE POLICY "Project members" ON public.field_segments FOR ALL
+  USING (public.can_access_design(design_id)) WITH CHECK (public.can_access_design(design_id));
+CREATE POLICY "Project members" ON public.keepouts FOR ALL
+  USING (public.can_access_design(design_id)) WITH CHECK (public.can_access_design(design_id));
+CREATE POLICY "Project members" ON public.trees FOR ALL
+  USING (public.can_access_design(design_id)) WITH CHECK (public.can_access_design(design_id));
+CREATE POLICY "Project members" ON public.electrical_configs FOR ALL
+  USING (public.can_access_design(design_id)) WITH CHECK (public.can_access_design(design_id));
+CREATE POLICY "Project members" ON public.simulations FOR ALL
+  USING (public.can_access_design(design_id)) WITH CHECK (public.can_access_design(design_id));
+CREATE POLICY "Project members" ON public.design_snapshots FOR ALL
+  USING (public.can_access_design(design_id)) WITH CHECK (public.can_access_design(design_id));
+
+-- The module and inverter libraries are shared by everyone, but only signed-in users may use them
+DROP POLICY IF EXISTS "Public access" ON public.modules;
+DROP POLICY IF EXISTS "Public access" ON public.module_details;
+DROP POLICY IF EXISTS "Public access" ON public.inverters;
+DROP POLICY IF EXISTS "Public access" ON public.inverter_details;
+CREATE POLICY "Authenticated access" ON public.modules FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Authenticated access" ON public.module_details FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Authenticated access" ON public.inverters FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Authenticated access" ON public.inverter_details FOR ALL TO authenticated USING (true) WITH CHECK (true);
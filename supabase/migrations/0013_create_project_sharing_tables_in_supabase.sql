@@ -0,0 +1,155 @@
+-- Per-project sharing: people invited by email with a role (they get access once they sign in
+-- with that address), and expiring read-only links for people without an account
+CREATE TABLE public.project_members (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'editor', 'owner')),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (project_id, email)
+);
+
+CREATE INDEX project_members_email_idx ON public.project_members(email);
+
+CREATE TABLE public.project_share_links (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX project_share_links_project_id_idx ON public.project_share_links(project_id);
+
+-- The project a share link in the request's x-share-token header opens, if it hasn't expired
+CREATE OR REPLACE FUNCTION public.shared_project_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT project_id FROM public.project_share_links
+  WHERE token = current_setting('request.headers', true)::json->>'x-share-token'
+    AND expires_at > NOW();
+$$;
+
+-- The caller's role on a project: org owners/admins and the creator own it, other org members
+-- edit it, invitees get their invited role and share-link holders view it. NULL means no access.
+CREATE OR REPLACE FUNCTION public.project_role(p_project_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p.owner_id = auth.uid() OR public.is_org_member(p.org_id, ARRAY['owner', 'admin']) OR pm.role = 'owner' THEN 'owner'
+    WHEN public.is_org_member(p.org_id) OR pm.role = 'editor' THEN 'editor'
+    WHEN pm.role = 'viewer' OR p.id = public.shared_project_id() THEN 'viewer'
+  END
+  FROM public.projects p
+  LEFT JOIN public.project_members pm
+    ON pm.project_id = p.id AND pm.email = lower(auth.jwt()->>'email')
+  WHERE p.id = p_project_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_access_project(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.project_role(p_project_id) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_project(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.project_role(p_project_id) IN ('editor', 'owner'), false);
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_design(p_design_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.designs d
+    WHERE d.id = p_design_id AND public.can_edit_project(d.project_id)
+  );
+$$;
+
+-- Open a share link: the project it points to, or nothing once it has expired
+CREATE OR REPLACE FUNCTION public.resolve_share_link(p_token TEXT)
+RETURNS SETOF public.projects
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.* FROM public.projects p
+  JOIN public.project_share_links l ON l.project_id = p.id
+  WHERE l.token = p_token AND l.expires_at > NOW();
+$$;
+
+-- Enable RLS
+ALTER TABLE public.project_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_share_links ENABLE ROW LEVEL SECURITY;
+
+-- Editors see who a project is shared with; invitees see their own invitation. Share-link
+-- viewers are anonymous and see neither.
+CREATE POLICY "Project editors read" ON public.project_members FOR SELECT
+  USING (public.can_edit_project(project_id) OR email = lower(auth.jwt()->>'email'));
+CREATE POLICY "Project owners manage" ON public.project_members FOR ALL
+  USING (public.project_role(project_id) = 'owner')
+  WITH CHECK (public.project_role(project_id) = 'owner');
+
+CREATE POLICY "Project owners manage" ON public.project_share_links FOR ALL
+  USING (public.project_role(project_id) = 'owner')
+  WITH CHECK (public.project_role(project_id) = 'owner');
+
+-- Projects: anyone with a role reads, editors update, owners delete
+DROP POLICY IF EXISTS "Members read" ON public.projects;
+DROP POLICY IF EXISTS "Members update" ON public.projects;
+DROP POLICY IF EXISTS "Owner or admin delete" ON public.projects;
+CREATE POLICY "Project readers" ON public.projects FOR SELECT
+  USING (public.can_access_project(id));
+CREATE POLICY "Project editors update" ON public.projects FOR UPDATE
+  USING (public.can_edit_project(id)) WITH CHECK (public.can_edit_project(id));
+CREATE POLICY "Project owners delete" ON public.projects FOR DELETE
+  USING (public.project_role(id) = 'owner');
+
+-- owner_id and org_id stay guarded by guard_project_ownership: only the project's creator or an
+-- owner/admin of its organization may change them, not an invitee with the owner role
+
+-- Child tables: viewers read, editors write
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['designs', 'weather_files', 'condition_sets'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Project members" ON public.%I', t);
+    EXECUTE format('CREATE POLICY "Project readers" ON public.%I FOR SELECT USING (public.can_access_project(project_id))', t);
+    EXECUTE format('CREATE POLICY "Project editors" ON public.%I FOR ALL USING (public.can_edit_project(project_id)) WITH CHECK (public.can_edit_project(project_id))', t);
+  END LOOP;
+  FOREACH t IN ARRAY ARRAY['field_segments', 'keepouts', 'trees', 'electrical_configs', 'simulations', 'design_snapshots'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Project members" ON public.%I', t);
+    EXECUTE format('CREATE POLICY "Project readers" ON public.%I FOR SELECT USING (public.can_access_design(design_id))', t);
+    EXECUTE format('CREATE POLICY "Project editors" ON public.%I FOR ALL USING (public.can_edit_design(design_id)) WITH CHECK (public.can_edit_design(design_id))', t);
+  END LOOP;
+  -- Share-link viewers need the module and inverter specs a design refers to
+  FOREACH t IN ARRAY ARRAY['modules', 'module_details', 'inverters', 'inverter_details'] LOOP
+    EXECUTE format('CREATE POLICY "Share link read" ON public.%I FOR SELECT USING (public.shared_project_id() IS NOT NULL)', t);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,49 @@
+-- Generated PDF reports, versioned per design. The PDF itself lives in the private "reports"
+-- storage bucket under <project_id>/<design_id>/<report_id>.pdf
+CREATE TABLE public.design_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  design_id UUID NOT NULL REFERENCES public.designs(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  file_path TEXT NOT NULL,
+  summary JSONB,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (design_id, version)
+);
+
+-- Number each design's reports 1, 2, 3... on insert
+CREATE OR REPLACE FUNCTION public.set_design_report_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.design_id::text));
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.design_reports WHERE design_id = NEW.design_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER design_reports_set_version
+  BEFORE INSERT ON public.design_reports
+  FOR EACH ROW EXECUTE FUNCTION public.set_design_report_version();
+
+-- Enable RLS
+ALTER TABLE public.design_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project readers" ON public.design_reports FOR SELECT
+  USING (public.can_access_design(design_id));
+CREATE POLICY "Project editors" ON public.design_reports FOR ALL
+  USING (public.can_edit_design(design_id)) WITH CHECK (public.can_edit_design(design_id));
+
+-- Storage for the PDFs; access follows the project in the first path segment
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('reports', 'reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Report readers" ON storage.objects FOR SELECT
+  USING (bucket_id = 'reports' AND public.can_access_project(((storage.foldername(name))[1])::uuid));
+CREATE POLICY "Report editors insert" ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'reports' AND public.can_edit_project(((storage.foldername(name))[1])::uuid));
+CREATE POLICY "Report editors delete" ON storage.objects FOR DELETE
+  USING (bucket_id = 'reports' AND public.can_edit_project(((storage.foldername(name))[1])::uuid));
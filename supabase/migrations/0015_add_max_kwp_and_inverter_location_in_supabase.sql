@@ -0,0 +1,64 @@
+-- Per-segment DC nameplate cap for the auto-layout, and which modules to drop first when the
+-- layout exceeds it
+ALTER TABLE public.field_segments ADD COLUMN IF NOT EXISTS max_kwp NUMERIC;
+ALTER TABLE public.field_segments ADD COLUMN IF NOT EXISTS layout_priority TEXT NOT NULL DEFAULT 'row'
+  CHECK (layout_priority IN ('row', 'shading', 'inverter'));
+
+-- Where the inverter sits on the site (wire runs, "farthest from the inverter" priority)
+ALTER TABLE public.electrical_configs ADD COLUMN IF NOT EXISTS inverter_lng DOUBLE PRECISION;
+ALTER TABLE public.electrical_configs ADD COLUMN IF NOT EXISTS inverter_lat DOUBLE PRECISION;
+
+-- Restores now carry the inverter location as well
+CREATE OR REPLACE FUNCTION public.restore_design_snapshot(
+  p_design_id UUID,
+  p_segments JSONB,
+  p_keepouts JSONB,
+  p_trees JSONB,
+  p_electrical JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM public.field_segments WHERE design_id = p_design_id;
+  DELETE FROM public.keepouts WHERE design_id = p_design_id;
+  DELETE FROM public.trees WHERE design_id = p_design_id;
+
+  INSERT INTO public.field_segments
+  SELECT (jsonb_populate_record(NULL::public.field_segments,
+    r || jsonb_build_object('design_id', p_design_id, 'updated_at', NOW()))).*
+  FROM jsonb_array_elements(COALESCE(p_segments, '[]'::jsonb)) r;
+
+  INSERT INTO public.keepouts
+  SELECT (jsonb_populate_record(NULL::public.keepouts,
+    r || jsonb_build_object('design_id', p_design_id, 'updated_at', NOW()))).*
+  FROM jsonb_array_elements(COALESCE(p_keepouts, '[]'::jsonb)) r;
+
+  INSERT INTO public.trees
+  SELECT (jsonb_populate_record(NULL::public.trees,
+    r || jsonb_build_object('design_id', p_design_id, 'updated_at', NOW()))).*
+  FROM jsonb_array_elements(COALESCE(p_trees, '[]'::jsonb)) r;
+
+  IF p_electrical IS NOT NULL THEN
+    INSERT INTO public.electrical_configs (design_id, inverter_id, record_low_temp, high_temp, string_length, inverter_lng, inverter_lat, updated_at)
+    VALUES (
+      p_design_id,
+      NULLIF(p_electrical->>'inverter_id', '')::UUID,
+      (p_electrical->>'record_low_temp')::NUMERIC,
+      (p_electrical->>'high_temp')::NUMERIC,
+      (p_electrical->>'string_length')::INTEGER,
+      (p_electrical->>'inverter_lng')::DOUBLE PRECISION,
+      (p_electrical->>'inverter_lat')::DOUBLE PRECISION,
+      NOW()
+    )
+    ON CONFLICT (design_id) DO UPDATE SET
+      inverter_id = EXCLUDED.inverter_id,
+      record_low_temp = EXCLUDED.record_low_temp,
+      high_temp = EXCLUDED.high_temp,
+      string_length = EXCLUDED.string_length,
+      inverter_lng = EXCLUDED.inverter_lng,
+      inverter_lat = EXCLUDED.inverter_lat,
+      updated_at = EXCLUDED.updated_at;
+  END IF;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Independent tilt: extra tilt/azimuth sub-arrays of a segment (camelCase JSON, as used by the
+-- app). Rows alternate between the segment's own settings and each group in order.
+ALTER TABLE public.field_segments ADD COLUMN IF NOT EXISTS tilt_groups JSONB NOT NULL DEFAULT '[]'::jsonb;
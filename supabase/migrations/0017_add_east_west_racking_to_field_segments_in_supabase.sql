@@ -0,0 +1,3 @@
+-- East-west racking: back-to-back module pairs facing the segment azimuth ±90°. racking is free
+-- text, so only the gap between the high edges of a pair (ft) is new.
+ALTER TABLE public.field_segments ADD COLUMN IF NOT EXISTS ridge_gap NUMERIC DEFAULT 0.5;
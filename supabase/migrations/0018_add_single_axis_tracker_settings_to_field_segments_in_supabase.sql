@@ -0,0 +1,7 @@
+-- Single-axis tracker racking: horizontal axis, rotation limit, modules per tracker and
+-- backtracking. Row pitch is derived from the segment's gcr and the module size.
+ALTER TABLE public.field_segments
+  ADD COLUMN IF NOT EXISTS tracker_axis_azimuth NUMERIC DEFAULT 180,
+  ADD COLUMN IF NOT EXISTS tracker_max_angle NUMERIC DEFAULT 60,
+  ADD COLUMN IF NOT EXISTS tracker_length INTEGER DEFAULT 28,
+  ADD COLUMN IF NOT EXISTS backtracking BOOLEAN DEFAULT TRUE;
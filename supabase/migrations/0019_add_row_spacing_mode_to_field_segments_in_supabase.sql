@@ -0,0 +1,4 @@
+-- How a segment's row spacing is set: by hand (linked to span/rise and GCR), or as the minimum that
+-- keeps rows shade-free between the segment's start and end times on the winter solstice
+ALTER TABLE public.field_segments ADD COLUMN IF NOT EXISTS row_spacing_mode TEXT NOT NULL DEFAULT 'manual'
+  CHECK (row_spacing_mode IN ('manual', 'solstice'));